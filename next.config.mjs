@@ -0,0 +1,9 @@
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  experimental: {
+    // Runs src/instrumentation.ts on server start (in-process reminder worker)
+    instrumentationHook: true,
+  },
+};
+
+export default nextConfig;
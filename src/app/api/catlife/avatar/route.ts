@@ -0,0 +1,38 @@
+// CatLife - Avatar API
+// POST { catProfile, photoAnalysis? } -> { success, avatarUrl } (errors include fallbackAvatar)
+
+import { NextResponse } from "next/server";
+import { generatePixelAvatar } from "@/lib/catlife/avatar";
+import { validateAvatarRequest } from "@/lib/catlife/validation";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON", fallbackAvatar: generatePixelAvatar({}) },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateAvatarRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error, fallbackAvatar: generatePixelAvatar({}) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { catProfile, photoAnalysis } = validation.data;
+    const avatarUrl = generatePixelAvatar(catProfile, photoAnalysis);
+    return NextResponse.json({ success: true, avatarUrl });
+  } catch (error) {
+    console.error("[CatLife] Avatar generation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to generate avatar", fallbackAvatar: generatePixelAvatar({}) },
+      { status: 500 }
+    );
+  }
+}
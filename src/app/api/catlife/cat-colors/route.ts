@@ -0,0 +1,38 @@
+// CatLife - Cat Colors API
+// POST { catProfile, photoAnalysis?, coatDescription? } -> { success, colors, description }
+
+import { NextResponse } from "next/server";
+import { resolveCatColors } from "@/lib/catlife/coat-colors";
+import { validateCatColorsRequest } from "@/lib/catlife/validation";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateCatColorsRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { catProfile, photoAnalysis, coatDescription } = validation.data;
+    const { colors, description } = resolveCatColors(catProfile, photoAnalysis, coatDescription);
+    return NextResponse.json({ success: true, colors, description });
+  } catch (error) {
+    console.error("[CatLife] Cat colors error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to resolve cat colors" },
+      { status: 500 }
+    );
+  }
+}
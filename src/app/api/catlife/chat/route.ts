@@ -0,0 +1,41 @@
+// CatLife - Intake Chat API
+// GET -> opening message, POST { messages, catProfile, careRoutine } -> ChatResponse
+
+import { NextResponse } from "next/server";
+import { getIntakeBackend, getIntakeGreeting } from "@/lib/catlife/intake-engine";
+import { validateChatRequest } from "@/lib/catlife/validation";
+
+export async function GET() {
+  return NextResponse.json(getIntakeGreeting());
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateChatRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const response = await getIntakeBackend().respond(validation.data);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[CatLife] Chat error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process chat message" },
+      { status: 500 }
+    );
+  }
+}
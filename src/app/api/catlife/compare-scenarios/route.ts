@@ -0,0 +1,51 @@
+// CatLife - Scenario Comparison API
+// POST { catProfile, careRoutine, variants: [{ label, careRoutine }], seed?, stepSize?, endAgeMonths? } -> { success, comparison }
+
+import { NextResponse } from "next/server";
+import { compareScenarios } from "@/lib/catlife/scenario-comparison";
+import { validateCompareScenariosRequest } from "@/lib/catlife/validation";
+import type { SimulationConfig } from "@/types/catlife";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateCompareScenariosRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const { catProfile, careRoutine, variants, seed, stepSize, endAgeMonths } = validation.data;
+  const startAgeMonths = ((catProfile.ageYears ?? 1) * 12) + (catProfile.ageMonths ?? 0);
+
+  try {
+    const config: SimulationConfig = {
+      catProfile,
+      careRoutine,
+      startAgeMonths,
+      endAgeMonths,
+      stepSize,
+      seed,
+    };
+
+    const comparison = compareScenarios(config, variants);
+
+    return NextResponse.json({ success: true, comparison });
+  } catch (error) {
+    console.error("[CatLife] Scenario comparison error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to compare scenarios" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// CatLife - Milestone Notes API
+// POST { catProfile, careRoutine, simulationPoints } -> { success, notes, cached }
+
+import { NextResponse } from "next/server";
+import { getMilestoneNotes } from "@/lib/catlife/milestone-notes";
+import { validateMilestoneNotesRequest } from "@/lib/catlife/validation";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateMilestoneNotesRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { notes, cached } = await getMilestoneNotes(validation.data);
+    return NextResponse.json({ success: true, notes, cached });
+  } catch (error) {
+    console.error("[CatLife] Milestone notes error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to generate milestone notes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+// CatLife - Reminder Preferences API
+// GET ?id&token -> { success, preferences }; POST { id, token, enabled?, channels? } updates them
+// GET ?id&confirm -> { success, confirmation }; POST { id, confirmToken } applies the pending change
+// The signed token from reminder emails stands in for a login; a confirmation token only confirms
+
+import { NextResponse } from "next/server";
+import { getReminderStore } from "@/lib/catlife/reminder-store";
+import {
+  toPendingConfirmation,
+  toReminderPreferences,
+  verifyConfirmationToken,
+  verifyUnsubscribeToken,
+} from "@/lib/catlife/unsubscribe";
+import {
+  validateConfirmationParams,
+  validatePreferencesUpdate,
+  validateUnsubscribeParams,
+} from "@/lib/catlife/validation";
+
+const INVALID_LINK = "This preferences link is invalid";
+const EXPIRED_CONFIRMATION = "This confirmation link is invalid or has already been used";
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: "Reminder not found" },
+    { status: 404 }
+  );
+}
+
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  if (searchParams.has("confirm")) return getConfirmation(searchParams);
+
+  const validation = validateUnsubscribeParams(searchParams);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const { id, token } = validation.data;
+  if (!verifyUnsubscribeToken(id, token)) {
+    return NextResponse.json({ success: false, error: INVALID_LINK }, { status: 403 });
+  }
+
+  try {
+    const reminder = await getReminderStore().get(id);
+    if (!reminder) return notFound();
+    return NextResponse.json({ success: true, preferences: toReminderPreferences(reminder) });
+  } catch (error) {
+    console.error("[CatLife] Preferences read error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Show what a confirmation link would confirm; only the POST applies it
+ */
+async function getConfirmation(searchParams: URLSearchParams) {
+  const validation = validateConfirmationParams(searchParams);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id, confirmToken } = validation.data;
+    const reminder = await getReminderStore().get(id);
+    if (!reminder || !verifyConfirmationToken(reminder, confirmToken)) {
+      return NextResponse.json({ success: false, error: EXPIRED_CONFIRMATION }, { status: 403 });
+    }
+    return NextResponse.json({ success: true, confirmation: toPendingConfirmation(reminder) });
+  } catch (error) {
+    console.error("[CatLife] Confirmation read error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load confirmation" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validatePreferencesUpdate(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const { id, token, confirmToken, changes } = validation.data;
+  if (confirmToken) return confirmPendingChange(id, confirmToken);
+  if (!token || !verifyUnsubscribeToken(id, token)) {
+    return NextResponse.json({ success: false, error: INVALID_LINK }, { status: 403 });
+  }
+
+  try {
+    const reminder = await getReminderStore().update(id, changes);
+    if (!reminder) return notFound();
+    return NextResponse.json({ success: true, preferences: toReminderPreferences(reminder) });
+  } catch (error) {
+    console.error("[CatLife] Preferences update error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+async function confirmPendingChange(id: string, confirmToken: string) {
+  try {
+    const store = getReminderStore();
+    const reminder = await store.get(id);
+    if (!reminder?.pendingChange || !verifyConfirmationToken(reminder, confirmToken)) {
+      return NextResponse.json({ success: false, error: EXPIRED_CONFIRMATION }, { status: 403 });
+    }
+
+    // Applies only if the change is still the one the token was issued for
+    const confirmed = await store.applyPendingChange(id, reminder.pendingChange.requestedAt);
+    if (!confirmed) {
+      return NextResponse.json({ success: false, error: EXPIRED_CONFIRMATION }, { status: 403 });
+    }
+    return NextResponse.json({ success: true, confirmation: { catName: confirmed.catName, enabled: confirmed.enabled } });
+  } catch (error) {
+    console.error("[CatLife] Confirmation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to confirm the change" },
+      { status: 500 }
+    );
+  }
+}
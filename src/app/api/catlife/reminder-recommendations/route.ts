@@ -0,0 +1,38 @@
+// CatLife - Reminder Recommendations API
+// POST { catProfile?, careRoutine?, simulationResult? } -> { success, recommendations, schedule }
+
+import { NextResponse } from "next/server";
+import { recommendReminders } from "@/lib/catlife/reminder-recommender";
+import { validateReminderRecommendationsRequest } from "@/lib/catlife/validation";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateReminderRecommendationsRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { catProfile, careRoutine, simulationResult } = validation.data;
+    const { recommendations, schedule } = recommendReminders(catProfile, careRoutine, simulationResult);
+    return NextResponse.json({ success: true, recommendations, schedule });
+  } catch (error) {
+    console.error("[CatLife] Reminder recommendation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to build reminder recommendations" },
+      { status: 500 }
+    );
+  }
+}
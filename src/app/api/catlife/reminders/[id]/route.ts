@@ -0,0 +1,114 @@
+// CatLife - Reminder API
+// GET / PATCH / DELETE a single stored reminder by id, with ?token= from the reminder's signed links
+// A new contact in a PATCH is only used once it's confirmed from the link sent to it (202)
+
+import { NextResponse } from "next/server";
+import { sendChangeConfirmation } from "@/lib/catlife/notifications";
+import { getReminderStore } from "@/lib/catlife/reminder-store";
+import { toReminderPreferences, verifyUnsubscribeToken } from "@/lib/catlife/unsubscribe";
+import { validateReminderUpdate } from "@/lib/catlife/validation";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: "Reminder not found" },
+    { status: 404 }
+  );
+}
+
+/**
+ * The token is the same one the emailed unsubscribe and preferences links carry
+ */
+function forbidden(request: Request, id: string) {
+  const token = new URL(request.url).searchParams.get("token");
+  if (token && verifyUnsubscribeToken(id, token)) return null;
+  return NextResponse.json(
+    { success: false, error: "A valid reminder token is required" },
+    { status: 403 }
+  );
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = forbidden(request, params.id);
+  if (denied) return denied;
+
+  try {
+    const reminder = await getReminderStore().get(params.id);
+    if (!reminder) return notFound();
+    return NextResponse.json({ success: true, reminder: toReminderPreferences(reminder) });
+  } catch (error) {
+    console.error("[CatLife] Reminder read error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load reminder" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = forbidden(request, params.id);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateReminderUpdate(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { changes, contact } = validation.data;
+    const store = getReminderStore();
+    const reminder = await store.update(params.id, changes);
+    if (!reminder) return notFound();
+    if (!contact) return NextResponse.json({ success: true, reminder: toReminderPreferences(reminder) });
+
+    const pending = await store.requestContactChange(params.id, contact.contactType, contact.contactValue);
+    if (!pending) return notFound();
+    const confirmation = await sendChangeConfirmation(pending, "contact");
+    if (!confirmation.success) {
+      console.error("[CatLife] Contact confirmation not sent:", confirmation.error);
+    }
+    return NextResponse.json(
+      { success: true, status: "confirmation_sent", reminder: toReminderPreferences(pending) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("[CatLife] Reminder update error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update reminder" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = forbidden(request, params.id);
+  if (denied) return denied;
+
+  try {
+    const removed = await getReminderStore().remove(params.id);
+    if (!removed) return notFound();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[CatLife] Reminder delete error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete reminder" },
+      { status: 500 }
+    );
+  }
+}
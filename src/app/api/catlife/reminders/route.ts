@@ -0,0 +1,45 @@
+// CatLife - Reminders API
+// POST ReminderRequest -> 202 { success, status: "confirmation_sent" }. A new reminder is stored
+// switched off, and a resubmitted one keeps its settings; either way the contact gets a link to
+// confirm the setup. The response is the same whether or not the reminder existed, and neither
+// ids nor contact details are sent back.
+
+import { NextResponse } from "next/server";
+import { sendChangeConfirmation } from "@/lib/catlife/notifications";
+import { getReminderStore } from "@/lib/catlife/reminder-store";
+import { validateReminderRequest } from "@/lib/catlife/validation";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateReminderRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { reminder, created } = await getReminderStore().upsert(validation.data);
+    const confirmation = await sendChangeConfirmation(reminder, created ? "setup" : "change");
+    if (!confirmation.success) {
+      console.error("[CatLife] Reminder confirmation not sent:", confirmation.error);
+    }
+    return NextResponse.json({ success: true, status: "confirmation_sent" }, { status: 202 });
+  } catch (error) {
+    console.error("[CatLife] Reminder save error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save reminders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// CatLife - Sensitivity API
+// POST { catProfile, careRoutine, seed, routineSchedule?, followCarePlan?, stepSize?, endAgeMonths? } -> { success, sensitivity }
+// Same body as the /simulate run being analyzed; each input is nudged on that run's seed, so it's
+// only asked for when the Care Plan tab opens
+
+import { NextResponse } from "next/server";
+import { analyzeSensitivity } from "@/lib/catlife/sensitivity-analysis";
+import { simulatePoints } from "@/lib/catlife/simulation";
+import { getProgressiveRoutineSchedule } from "@/lib/catlife/simulation-enhancer";
+import { validateSensitivityRequest } from "@/lib/catlife/validation";
+import type { SimulationConfig } from "@/types/catlife";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateSensitivityRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const { catProfile, careRoutine, seed, routineSchedule, followCarePlan, stepSize, endAgeMonths } = validation.data;
+  const startAgeMonths = ((catProfile.ageYears ?? 1) * 12) + (catProfile.ageMonths ?? 0);
+
+  try {
+    const config: SimulationConfig = {
+      catProfile,
+      careRoutine,
+      startAgeMonths,
+      endAgeMonths,
+      stepSize,
+      seed,
+      routineSchedule: [
+        ...(followCarePlan ? getProgressiveRoutineSchedule(catProfile, careRoutine) : []),
+        ...(routineSchedule ?? []),
+      ],
+    };
+
+    const sensitivity = analyzeSensitivity(config, simulatePoints);
+    return NextResponse.json({ success: true, sensitivity });
+  } catch (error) {
+    console.error("[CatLife] Sensitivity error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to analyze sensitivity" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// CatLife - Simulation Ensemble API
+// POST { catProfile, careRoutine, runs?, seed?, followCarePlan?, stepSize?, endAgeMonths? } -> { success, ensemble } (per-step weight percentiles and status odds)
+
+import { NextResponse } from "next/server";
+import { getProgressiveRoutineSchedule } from "@/lib/catlife/simulation-enhancer";
+import { DEFAULT_ENSEMBLE_RUNS, runEnsemble } from "@/lib/catlife/simulation-ensemble";
+import { validateSimulateEnsembleRequest } from "@/lib/catlife/validation";
+import type { SimulationConfig } from "@/types/catlife";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateSimulateEnsembleRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const { catProfile, careRoutine, runs, seed, followCarePlan, stepSize, endAgeMonths } = validation.data;
+  const startAgeMonths = ((catProfile.ageYears ?? 1) * 12) + (catProfile.ageMonths ?? 0);
+
+  try {
+    const config: SimulationConfig = {
+      catProfile,
+      careRoutine,
+      startAgeMonths,
+      endAgeMonths,
+      stepSize,
+      seed,
+      routineSchedule: followCarePlan ? getProgressiveRoutineSchedule(catProfile, careRoutine) : undefined,
+    };
+
+    const ensemble = runEnsemble(config, runs ?? DEFAULT_ENSEMBLE_RUNS);
+
+    return NextResponse.json({ success: true, ensemble });
+  } catch (error) {
+    console.error("[CatLife] Ensemble simulation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run ensemble simulation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// CatLife - Household Simulation API
+// POST { household: { cats: [{ catProfile, careRoutine, joinsInMonths? }], litterBoxes }, seed?, stepSize?, endAgeMonths? } -> { success, household } (a timeline per cat plus household alerts)
+
+import { NextResponse } from "next/server";
+import { simulateHousehold } from "@/lib/catlife/household";
+import { validateSimulateHouseholdRequest } from "@/lib/catlife/validation";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateSimulateHouseholdRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const { household, seed, stepSize, endAgeMonths } = validation.data;
+
+  try {
+    const result = simulateHousehold(household, { seed, stepSize, endAgeMonths });
+
+    return NextResponse.json({ success: true, household: result });
+  } catch (error) {
+    console.error("[CatLife] Household simulation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run household simulation" },
+      { status: 500 }
+    );
+  }
+}
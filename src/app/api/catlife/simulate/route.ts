@@ -0,0 +1,65 @@
+// CatLife - Simulation API
+// POST { catProfile, careRoutine, enhanced?, seed?, routineSchedule?, followCarePlan?, stepSize?, endAgeMonths?,
+// includeCarePlans? } -> { success, simulation }
+// (simulation.seed replays the run; followCarePlan applies the progressive care plan's routine changes;
+// the range defaults to a few years past the breed's life expectancy; includeCarePlans runs the care optimizer)
+
+import { NextResponse } from "next/server";
+import { runSimulation } from "@/lib/catlife/simulation";
+import { enhanceSimulationLocally, getProgressiveRoutineSchedule } from "@/lib/catlife/simulation-enhancer";
+import { validateSimulateRequest } from "@/lib/catlife/validation";
+import type { SimulationConfig } from "@/types/catlife";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateSimulateRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { success: false, error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const {
+    catProfile, careRoutine, enhanced, seed, routineSchedule, followCarePlan, stepSize, endAgeMonths, includeCarePlans,
+  } = validation.data;
+  const startAgeMonths = ((catProfile.ageYears ?? 1) * 12) + (catProfile.ageMonths ?? 0);
+
+  try {
+    const config: SimulationConfig = {
+      catProfile,
+      careRoutine,
+      startAgeMonths,
+      endAgeMonths,
+      stepSize,
+      seed,
+      includeCarePlans,
+      routineSchedule: [
+        ...(followCarePlan ? getProgressiveRoutineSchedule(catProfile, careRoutine) : []),
+        ...(routineSchedule ?? []),
+      ],
+    };
+
+    const baseResult = runSimulation(config);
+    const simulation = enhanced
+      ? enhanceSimulationLocally(baseResult, catProfile, careRoutine)
+      : baseResult;
+
+    return NextResponse.json({ success: true, simulation });
+  } catch (error) {
+    console.error("[CatLife] Simulation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run simulation" },
+      { status: 500 }
+    );
+  }
+}
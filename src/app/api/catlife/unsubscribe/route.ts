@@ -0,0 +1,71 @@
+// CatLife - Unsubscribe API
+// GET ?id&token[&channel] only sends the reader to the preferences page to confirm, so link
+// scanners can't opt anyone out; POST with the same query (RFC 8058 one-click, or the page's
+// confirm button) turns the reminders off
+
+import { NextResponse } from "next/server";
+import { getReminderStore } from "@/lib/catlife/reminder-store";
+import { verifyUnsubscribeToken } from "@/lib/catlife/unsubscribe";
+import { validateUnsubscribeParams } from "@/lib/catlife/validation";
+import type { ReminderChannel } from "@/types/catlife";
+
+type UnsubscribeOutcome =
+  | { ok: true; id: string; token: string; channel?: ReminderChannel }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Check the query and the token
+ */
+function verifyLink(request: Request): UnsubscribeOutcome {
+  const validation = validateUnsubscribeParams(new URL(request.url).searchParams);
+  if (!validation.valid) return { ok: false, status: 400, error: validation.error };
+
+  const { id, token, channel } = validation.data;
+  if (!verifyUnsubscribeToken(id, token)) {
+    return { ok: false, status: 403, error: "This unsubscribe link is invalid" };
+  }
+  return { ok: true, id, token, channel };
+}
+
+/**
+ * Verify the link and switch off one channel, or every reminder when no channel is given
+ */
+async function unsubscribe(request: Request): Promise<UnsubscribeOutcome> {
+  const link = verifyLink(request);
+  if (!link.ok) return link;
+
+  const reminder = await getReminderStore().update(
+    link.id,
+    link.channel ? { channels: { [link.channel]: false } } : { enabled: false }
+  );
+  if (!reminder) return { ok: false, status: 404, error: "Reminder not found" };
+
+  return link;
+}
+
+export async function GET(request: Request) {
+  const link = verifyLink(request);
+  if (!link.ok) {
+    return NextResponse.json({ success: false, error: link.error }, { status: link.status });
+  }
+
+  const params = new URLSearchParams({ id: link.id, token: link.token, action: "unsubscribe" });
+  if (link.channel) params.set("channel", link.channel);
+  return NextResponse.redirect(new URL(`/catlife/preferences?${params.toString()}`, request.url), 303);
+}
+
+export async function POST(request: Request) {
+  try {
+    const outcome = await unsubscribe(request);
+    if (!outcome.ok) {
+      return NextResponse.json({ success: false, error: outcome.error }, { status: outcome.status });
+    }
+    return NextResponse.json({ success: true, channel: outcome.channel ?? "all" });
+  } catch (error) {
+    console.error("[CatLife] Unsubscribe error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to unsubscribe" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// CatLife - Vision API
+// POST { imageBase64, catProfile } -> PhotoAnalysis (errors: { error, suggestion })
+
+import { NextResponse } from "next/server";
+import { analyzeCatPhoto, VisionImageError } from "@/lib/catlife/vision";
+import { validateVisionRequest } from "@/lib/catlife/validation";
+
+/** ~10MB of image data once base64 overhead is accounted for */
+const MAX_IMAGE_BASE64_LENGTH = 14_000_000;
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateVisionRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const { imageBase64 } = validation.data;
+  if (imageBase64.length > MAX_IMAGE_BASE64_LENGTH) {
+    return NextResponse.json(
+      { error: "That photo is too large.", suggestion: "Please use a photo under 10MB." },
+      { status: 413 }
+    );
+  }
+
+  const mimeType = imageBase64.match(/^data:([^;,]+)/)?.[1];
+  if (mimeType && mimeType !== "image/jpeg" && mimeType !== "image/jpg") {
+    return NextResponse.json(
+      { error: "That image format isn't supported.", suggestion: "Please upload a JPEG photo." },
+      { status: 415 }
+    );
+  }
+
+  try {
+    const analysis = await analyzeCatPhoto(validation.data);
+    return NextResponse.json(analysis);
+  } catch (error) {
+    if (error instanceof VisionImageError) {
+      return NextResponse.json(
+        { error: error.message, suggestion: error.suggestion },
+        { status: 422 }
+      );
+    }
+    console.error("[CatLife] Vision error:", error);
+    return NextResponse.json(
+      { error: "Failed to analyze photo", suggestion: "You can try again or skip this step." },
+      { status: 500 }
+    );
+  }
+}
@@ -362,6 +362,7 @@ export default function CatLifePage() {
                       catProfile={catProfile}
                       careRoutine={careRoutine}
                       onComplete={handleSimulationComplete}
+                      onWeighInsChange={(weighIns) => setCatProfile((prev) => ({ ...prev, weighIns }))}
                     />
                   </div>
                   
@@ -0,0 +1,61 @@
+import React from "react";
+import Link from "next/link";
+import { ArrowLeft, Cat } from "lucide-react";
+import { ReminderConfirmation, ReminderPreferences } from "@/components/catlife";
+import type { ReminderChannel } from "@/types/catlife";
+
+// Reached from the links in reminder emails; the signed token replaces a login.
+// A confirmation link carries confirm= instead, which only confirms a pending change.
+interface PreferencesPageProps {
+  searchParams: {
+    id?: string;
+    token?: string;
+    confirm?: string;
+    channel?: string;
+    action?: string;
+  };
+}
+
+const CHANNELS: ReminderChannel[] = ["feed", "play", "litter", "vet"];
+
+export default function PreferencesPage({ searchParams }: PreferencesPageProps) {
+  const { id, token, confirm, action } = searchParams;
+  const channel = CHANNELS.find(c => c === searchParams.channel);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-amber-50 via-orange-50 to-amber-100">
+      <header className="flex-shrink-0 bg-white/80 backdrop-blur-lg border-b border-amber-200">
+        <div className="container mx-auto px-3 py-2">
+          <div className="flex items-center justify-between">
+            <Link
+              href="/catlife"
+              className="inline-flex items-center text-amber-700 hover:text-amber-900 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              <span className="font-medium text-sm hidden sm:inline">CatLife</span>
+            </Link>
+            <div className="flex items-center gap-1.5">
+              <Cat className="w-5 h-5 text-amber-600" />
+              <span className="font-bold text-amber-900 text-sm">Reminder Preferences</span>
+            </div>
+            <div className="w-12" />
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-3 py-6 max-w-md">
+        <div className="bg-white rounded-2xl shadow-lg border border-amber-100 p-4">
+          {id && confirm ? (
+            <ReminderConfirmation reminderId={id} confirmToken={confirm} />
+          ) : id && token ? (
+            <ReminderPreferences reminderId={id} token={token} action={action} channel={channel} />
+          ) : (
+            <p className="text-sm text-center text-gray-600">
+              Open this page from the link at the bottom of a CatLife reminder.
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
   title: "CatLife Chat Sim",
-  description: "Chat about your cat, generate a pixel avatar, and simulate health over 20 years.",
+  description: "Chat about your cat, generate a pixel avatar, and simulate health over their lifetime.",
 };
 
 export default function RootLayout({
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { CatProfile, PhotoAnalysis } from "@/types/catlife";
+import type { CatColors, CatProfile, PhotoAnalysis } from "@/types/catlife";
 
 interface AnimatedCatProps {
   catProfile: CatProfile;
@@ -13,16 +13,6 @@ interface AnimatedCatProps {
 
 type CatState = "idle" | "walking" | "eating" | "drinking" | "sleeping" | "playing" | "meowing";
 
-interface CatColors {
-  primaryFur: string;
-  secondaryFur: string;
-  stripeColor: string | null;
-  noseColor: string;
-  innerEarColor: string;
-  eyeColor: string;
-  pattern: string;
-}
-
 const DEFAULT_COLORS: CatColors = {
   primaryFur: "#E8A756",
   secondaryFur: "#F5D4A8",
@@ -263,6 +253,7 @@ function CatSVG({ colors, state, blinkOpen, width, height, facingLeft }: CatSVGP
   const isMeowing = state === "meowing";
   const isWalking = state === "walking";
   const isPlaying = state === "playing";
+  const pointColor = colors.pattern === "colorpoint" ? colors.stripeColor : null;
 
   return (
     <svg
@@ -364,6 +355,14 @@ function CatSVG({ colors, state, blinkOpen, width, height, facingLeft }: CatSVGP
         </>
       )}
 
+      {/* Patches (if calico or tortoiseshell) */}
+      {colors.stripeColor && (colors.pattern === "calico" || colors.pattern === "tortoiseshell") && (
+        <>
+          <ellipse cx="42" cy="50" rx="7" ry="5" fill={colors.stripeColor} />
+          <ellipse cx="60" cy="55" rx="6" ry="4" fill={colors.stripeColor} />
+        </>
+      )}
+
       {/* Head */}
       <motion.ellipse
         cx="50"
@@ -375,6 +374,11 @@ function CatSVG({ colors, state, blinkOpen, width, height, facingLeft }: CatSVGP
         transition={{ repeat: Infinity, duration: 0.4 }}
       />
       
+      {/* Face mask (if colorpoint) */}
+      {pointColor && (
+        <ellipse cx="50" cy="40" rx="9" ry="7" fill={pointColor} opacity="0.85" />
+      )}
+
       {/* Face stripes (if tabby) */}
       {colors.stripeColor && colors.pattern === "tabby" && (
         <>
@@ -385,8 +389,8 @@ function CatSVG({ colors, state, blinkOpen, width, height, facingLeft }: CatSVGP
       )}
 
       {/* Ears */}
-      <polygon points="35,25 40,12 48,25" fill={colors.primaryFur} />
-      <polygon points="65,25 60,12 52,25" fill={colors.primaryFur} />
+      <polygon points="35,25 40,12 48,25" fill={pointColor ?? colors.primaryFur} />
+      <polygon points="65,25 60,12 52,25" fill={pointColor ?? colors.primaryFur} />
       <polygon points="38,24 41,16 46,24" fill={colors.innerEarColor} />
       <polygon points="62,24 59,16 54,24" fill={colors.innerEarColor} />
 
@@ -0,0 +1,75 @@
+"use client";
+
+import React from "react";
+import type { HealthDimension, HealthScores } from "@/types/catlife";
+
+interface HealthScoreBreakdownProps {
+  scores: HealthScores;
+  ageYears: number;
+  previous?: HealthScores; // Scores a year earlier, for the change arrows
+}
+
+const DIMENSIONS: { id: HealthDimension; label: string; drivers: string }[] = [
+  { id: "weight", label: "Weight", drivers: "Distance from the breed's ideal (or growth curve)" },
+  { id: "renal", label: "Kidneys", drivers: "Age, hydration, senior bloodwork, kidney disease" },
+  { id: "cardiac", label: "Heart", drivers: "Age, extra weight, breed heart risk, heart disease" },
+  { id: "dental", label: "Teeth", drivers: "Age, yearly dental checks, treats" },
+  { id: "mobility", label: "Mobility", drivers: "Age, extra weight, daily play, breed joint risk" },
+  { id: "urinary", label: "Urinary", drivers: "Dry food, extra weight, inactivity, sex, litter box, diabetes" },
+  { id: "enrichment", label: "Behavior", drivers: "Daily play, time outdoors, neutering, litter box" },
+];
+
+function barColor(score: number): string {
+  if (score >= 80) return "bg-green-500";
+  if (score >= 60) return "bg-yellow-500";
+  if (score >= 40) return "bg-orange-500";
+  return "bg-red-500";
+}
+
+export function HealthScoreBreakdown({ scores, ageYears, previous }: HealthScoreBreakdownProps) {
+  const weakest = [...DIMENSIONS]
+    .sort((a, b) => scores[a.id] - scores[b.id])
+    .filter(d => scores[d.id] < 70)
+    .slice(0, 2);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-[10px] text-gray-500">Overall at year {ageYears}</span>
+        <span className="text-xs font-bold">{scores.composite}/100</span>
+      </div>
+
+      <div className="space-y-1">
+        {DIMENSIONS.map(({ id, label, drivers }) => {
+          const change = previous ? scores[id] - previous[id] : 0;
+          return (
+            <div key={id} title={drivers}>
+              <div className="flex items-center gap-2">
+                <span className="w-16 text-[10px] text-gray-700">{label}</span>
+                <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div className={`h-full ${barColor(scores[id])}`} style={{ width: `${scores[id]}%` }} />
+                </div>
+                <span className="w-7 text-right text-[10px] font-semibold">{scores[id]}</span>
+                <span className={`w-7 text-right text-[9px] ${change < 0 ? "text-red-500" : "text-green-600"}`}>
+                  {change !== 0 ? `${change > 0 ? "+" : ""}${change}` : ""}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {weakest.length > 0 && (
+        <p className="mt-2 text-[10px] text-gray-600">
+          Holding the score down at year {ageYears}:{" "}
+          {weakest.map((d, i) => (
+            <span key={d.id}>
+              {i > 0 && "; "}
+              <strong>{d.label.toLowerCase()}</strong> ({d.drivers.toLowerCase()})
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
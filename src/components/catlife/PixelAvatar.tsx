@@ -122,7 +122,6 @@ export function PixelAvatar({
         <p className={`text-amber-700 font-medium ${compact ? 'text-xs' : 'text-sm'} text-center`}>
           Creating {catProfile.name}'s avatar...
         </p>
-        {!compact && <p className="text-amber-500 text-xs mt-1">~10-15 seconds</p>}
       </div>
     );
   }
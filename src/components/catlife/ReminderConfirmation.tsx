@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Bell, Check, Loader2, AlertCircle } from "lucide-react";
+import type { ReminderChannels } from "@/types/catlife";
+
+interface ReminderConfirmationProps {
+  reminderId: string;
+  /** The per-change token from a confirmation link; it confirms that change and nothing else */
+  confirmToken: string;
+}
+
+interface PendingConfirmation {
+  catName: string;
+  channels: ReminderChannels | null;
+  contact: string | null;
+}
+
+// Same labels as ReminderPreferences
+const channelLabels: Record<keyof ReminderChannels, string> = {
+  feed: "Feeding",
+  play: "Play",
+  vet: "Vet",
+  litter: "Litter",
+};
+
+export function ReminderConfirmation({ reminderId, confirmToken }: ReminderConfirmationProps) {
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+
+  // Load what the link would confirm; opening it alone changes nothing
+  useEffect(() => {
+    async function fetchConfirmation() {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ id: reminderId, confirm: confirmToken });
+        const response = await fetch(`/api/catlife/preferences?${params.toString()}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error || "Failed to load confirmation");
+        setConfirmation(data.confirmation);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load confirmation");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchConfirmation();
+  }, [reminderId, confirmToken]);
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/catlife/preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: reminderId, confirmToken }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || "Failed to confirm");
+      setConfirmed(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to confirm");
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-10 text-amber-600 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading...
+      </div>
+    );
+  }
+
+  if (!confirmation) {
+    return (
+      <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+        <p className="text-sm">{error ?? "This confirmation link is invalid or has already been used"}</p>
+      </div>
+    );
+  }
+
+  if (confirmed) {
+    return (
+      <div className="text-center space-y-2 py-4">
+        <div className="w-10 h-10 bg-green-500 rounded-full flex items-center justify-center mx-auto">
+          <Check className="w-5 h-5 text-white" />
+        </div>
+        <h1 className="text-base font-bold text-green-800">Confirmed 🎉</h1>
+        <p className="text-xs text-green-600">
+          {confirmation.catName}&apos;s reminders are set. Every reminder has a link to change or stop them.
+        </p>
+      </div>
+    );
+  }
+
+  const channels = confirmation.channels
+    ? (Object.keys(channelLabels) as (keyof ReminderChannels)[]).filter(key => confirmation.channels?.[key])
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="text-center">
+        <h1 className="text-lg font-bold text-amber-900">{confirmation.catName}&apos;s reminders</h1>
+        <p className="text-amber-600 text-xs">Nothing changes until you confirm</p>
+      </div>
+
+      <div className="p-3 rounded-xl border-2 border-amber-500 bg-amber-50 space-y-1">
+        {channels.length > 0 && (
+          <p className="text-xs text-amber-900">
+            Send reminders for: <span className="font-semibold">{channels.map(key => channelLabels[key]).join(", ")}</span>
+          </p>
+        )}
+        {confirmation.contact && (
+          <p className="text-xs text-amber-900">
+            Send them to: <span className="font-semibold">{confirmation.contact}</span>
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <p className="text-xs">{error}</p>
+        </div>
+      )}
+
+      <motion.button
+        type="button"
+        onClick={handleConfirm}
+        disabled={isConfirming}
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        className="w-full py-2.5 bg-gradient-to-r from-amber-500 to-orange-500 text-white font-semibold rounded-xl shadow-lg disabled:opacity-50 flex items-center justify-center gap-2 text-sm"
+      >
+        {isConfirming ? (
+          <><Loader2 className="w-4 h-4 animate-spin flex-shrink-0" /> Confirming...</>
+        ) : (
+          <><Bell className="w-4 h-4 flex-shrink-0" /> Confirm</>
+        )}
+      </motion.button>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  Bell,
+  BellOff,
+  Check,
+  Loader2,
+  AlertCircle,
+  Utensils,
+  Gamepad2,
+  Trash2,
+  Stethoscope,
+} from "lucide-react";
+import type { ContactType, ReminderChannel, ReminderChannels } from "@/types/catlife";
+
+interface ReminderPreferencesProps {
+  reminderId: string;
+  token: string;
+  /** Set when arriving from a link asking to confirm something: "unsubscribe" */
+  action?: string;
+  /** With "unsubscribe", only this reminder type is turned off */
+  channel?: ReminderChannel;
+}
+
+interface Preferences {
+  catName: string;
+  contactType: ContactType;
+  contact: string;
+  enabled: boolean;
+  channels: ReminderChannels;
+  pendingChannels: ReminderChannels | null;
+  pendingContact: string | null;
+}
+
+// Channel configuration (same order as ReminderSetup)
+const channelConfig = [
+  { key: "feed" as const, icon: Utensils, label: "Feeding" },
+  { key: "play" as const, icon: Gamepad2, label: "Play" },
+  { key: "vet" as const, icon: Stethoscope, label: "Vet" },
+  { key: "litter" as const, icon: Trash2, label: "Litter" },
+];
+
+export function ReminderPreferences({ reminderId, token, action, channel }: ReminderPreferencesProps) {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [channels, setChannels] = useState<ReminderChannels>({ feed: false, play: false, litter: false, vet: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [unsubscribed, setUnsubscribed] = useState(false);
+
+  // Load current preferences for this reminder
+  useEffect(() => {
+    async function fetchPreferences() {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ id: reminderId, token });
+        const response = await fetch(`/api/catlife/preferences?${params.toString()}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error || "Failed to load preferences");
+
+        setPreferences(data.preferences);
+        setEnabled(data.preferences.enabled);
+        setChannels(data.preferences.channels);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load preferences");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchPreferences();
+  }, [reminderId, token]);
+
+  const toggleChannel = (key: ReminderChannel) => {
+    setChannels(prev => ({ ...prev, [key]: !prev[key] }));
+    setSaved(false);
+  };
+
+  const savePreferences = async (changes: object) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/catlife/preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: reminderId, token, ...changes }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || "Failed to save preferences");
+
+      setPreferences(data.preferences);
+      setEnabled(data.preferences.enabled);
+      setChannels(data.preferences.channels);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save preferences");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Same endpoint as the emails' one-click unsubscribe; opening the link alone changes nothing
+  const handleUnsubscribe = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ id: reminderId, token, ...(channel ? { channel } : {}) });
+      const response = await fetch(`/api/catlife/unsubscribe?${params.toString()}`, { method: "POST" });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || "Failed to unsubscribe");
+
+      if (channel) setChannels(prev => ({ ...prev, [channel]: false }));
+      else setEnabled(false);
+      setUnsubscribed(true);
+      setSaved(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unsubscribe");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => savePreferences({ enabled, channels });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-10 text-amber-600 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading your reminders...
+      </div>
+    );
+  }
+
+  if (!preferences) {
+    return (
+      <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+        <p className="text-sm">{error ?? "This preferences link is invalid"}</p>
+      </div>
+    );
+  }
+
+  const channelLabel = channel ? channelConfig.find(c => c.key === channel)?.label ?? channel : null;
+
+  return (
+    <div className="space-y-3">
+      {/* Header */}
+      <div className="text-center">
+        <h1 className="text-lg font-bold text-amber-900">{preferences.catName}&apos;s reminders</h1>
+        <p className="text-amber-600 text-xs">
+          Sent by {preferences.contactType === "email" ? "email" : "text"} to {preferences.contact}
+        </p>
+      </div>
+
+      {action === "unsubscribe" && !unsubscribed && (
+        <div className="p-3 rounded-xl border-2 border-amber-500 bg-amber-50 space-y-2">
+          <p className="text-xs text-amber-900">
+            {channelLabel
+              ? `Stop ${channelLabel.toLowerCase()} reminders for ${preferences.catName}?`
+              : `Stop every reminder for ${preferences.catName}?`}
+          </p>
+          <button
+            type="button"
+            onClick={handleUnsubscribe}
+            disabled={isSaving}
+            className="w-full py-2 bg-amber-500 text-white font-semibold rounded-lg text-xs disabled:opacity-50"
+          >
+            Unsubscribe
+          </button>
+        </div>
+      )}
+
+      {unsubscribed && !saved && (
+        <div className="p-2 bg-amber-50 border border-amber-200 rounded-lg text-center">
+          <p className="text-xs text-amber-800">
+            {channelLabel ? `${channelLabel} reminders are now off.` : "All reminders are now off."} You can turn them back on below.
+          </p>
+        </div>
+      )}
+
+      {/* Only the link sent to the contact can confirm these */}
+      {(preferences.pendingChannels || preferences.pendingContact) && (
+        <div className="p-3 rounded-xl border-2 border-amber-200 bg-white">
+          <p className="text-xs text-amber-900">
+            {preferences.pendingContact
+              ? <>A move to <span className="font-semibold">{preferences.pendingContact}</span> is waiting to be confirmed from the link sent there.</>
+              : <>A change to{" "}
+                  <span className="font-semibold">
+                    {channelConfig.filter(c => preferences.pendingChannels?.[c.key]).map(c => c.label).join(", ")}
+                  </span>
+                  {" "}is waiting to be confirmed from the link sent to {preferences.contact}.</>}
+            {" "}Nothing changes until then.
+          </p>
+        </div>
+      )}
+
+      {/* Master switch */}
+      <button
+        type="button"
+        onClick={() => {
+          setEnabled(prev => !prev);
+          setSaved(false);
+        }}
+        className={`w-full p-3 rounded-xl border-2 flex items-center gap-3 text-left transition-all ${
+          enabled ? "border-amber-500 bg-amber-50" : "border-gray-200 bg-white"
+        }`}
+      >
+        <div className={`p-2 rounded-lg text-white ${enabled ? "bg-amber-500" : "bg-gray-400"}`}>
+          {enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+        </div>
+        <div className="flex-1">
+          <p className="text-sm font-semibold text-gray-800">{enabled ? "Reminders on" : "Reminders paused"}</p>
+          <p className="text-[10px] text-gray-500">Turn off to stop every reminder for {preferences.catName}</p>
+        </div>
+      </button>
+
+      {/* Channels */}
+      <div className="grid grid-cols-2 gap-2">
+        {channelConfig.map(({ key, icon: Icon, label }) => {
+          const isOn = channels[key];
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => toggleChannel(key)}
+              disabled={!enabled}
+              className={`p-2 rounded-xl border-2 flex items-center gap-2 transition-all disabled:opacity-50 ${
+                isOn ? "border-amber-500 bg-amber-50" : "border-gray-200 bg-white"
+              }`}
+            >
+              <div className={`p-1.5 rounded-md text-white ${isOn ? "bg-amber-500" : "bg-gray-300"}`}>
+                <Icon className="w-3 h-3" />
+              </div>
+              <span className="flex-1 text-left text-xs font-semibold text-gray-800">{label}</span>
+              <div className={`w-4 h-4 rounded-full border-2 flex items-center justify-center ${
+                isOn ? "border-amber-500 bg-amber-500" : "border-gray-300"
+              }`}>
+                {isOn && <Check className="w-2.5 h-2.5 text-white" />}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Error */}
+      <AnimatePresence>
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="p-2 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
+          >
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <p className="text-xs">{error}</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <motion.button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving}
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        className="w-full py-2.5 bg-gradient-to-r from-amber-500 to-orange-500 text-white font-semibold rounded-xl shadow-lg disabled:opacity-50 flex items-center justify-center gap-2 text-sm"
+      >
+        {isSaving ? (
+          <><Loader2 className="w-4 h-4 animate-spin flex-shrink-0" /> Saving...</>
+        ) : saved ? (
+          <><Check className="w-4 h-4 flex-shrink-0" /> Saved</>
+        ) : (
+          <><Bell className="w-4 h-4 flex-shrink-0" /> Save Preferences</>
+        )}
+      </motion.button>
+    </div>
+  );
+}
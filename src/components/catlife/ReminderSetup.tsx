@@ -18,7 +18,15 @@ import {
   Edit3,
   X,
 } from "lucide-react";
-import type { ReminderChannels, ContactType, CatProfile, CareRoutine, SimulationResult, ReminderChannel } from "@/types/catlife";
+import type {
+  ReminderChannels,
+  ContactType,
+  CatProfile,
+  CareRoutine,
+  SimulationResult,
+  ReminderRecommendation,
+  ReminderSchedule,
+} from "@/types/catlife";
 
 interface ReminderSetupProps {
   catName: string;
@@ -28,16 +36,8 @@ interface ReminderSetupProps {
   onComplete?: () => void;
 }
 
-// AI-powered recommendation from the API
-interface AIRecommendation {
-  channel: ReminderChannel;
-  enabled: boolean;
-  reason: string;
-  priority: "high" | "medium" | "low";
-  frequency: string;
-  schedule: string;
-  aiInsight: string;
-}
+// Recommendation from /api/catlife/reminder-recommendations
+type AIRecommendation = ReminderRecommendation;
 
 export function ReminderSetup({ catName, catProfile, careRoutine, simulationResult, onComplete }: ReminderSetupProps) {
   const [contactType, setContactType] = useState<ContactType>("email");
@@ -53,6 +53,7 @@ export function ReminderSetup({ catName, catProfile, careRoutine, simulationResu
   const [success, setSuccess] = useState(false);
   const [hasBeenSaved, setHasBeenSaved] = useState(false); // Track if user has saved before (for edit mode)
   const [recommendations, setRecommendations] = useState<AIRecommendation[]>([]);
+  const [schedule, setSchedule] = useState<ReminderSchedule | null>(null); // Times behind the recommendations
   const [isLoadingRecs, setIsLoadingRecs] = useState(true);
 
   // Channel configuration
@@ -77,6 +78,7 @@ export function ReminderSetup({ catName, catProfile, careRoutine, simulationResu
         
         if (data.success && data.recommendations) {
           setRecommendations(data.recommendations);
+          setSchedule(data.schedule ?? null);
           // Apply recommended channels
           const newChannels: ReminderChannels = { feed: false, play: false, litter: false, vet: false };
           data.recommendations.forEach((rec: AIRecommendation) => {
@@ -126,7 +128,14 @@ export function ReminderSetup({ catName, catProfile, careRoutine, simulationResu
       const response = await fetch("/api/catlife/reminders", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ catName, contactType, contactValue: contactValue.trim(), channels }),
+        body: JSON.stringify({
+          catName,
+          contactType,
+          contactValue: contactValue.trim(),
+          channels,
+          ...(schedule ? { schedule } : {}),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone, // Reminders fire at local times
+        }),
       });
       const data = await response.json();
       if (data.success) {
@@ -163,13 +172,18 @@ export function ReminderSetup({ catName, catProfile, careRoutine, simulationResu
           >
             <Check className="w-5 h-5 text-white" />
           </motion.div>
-          <h3 className="text-base font-bold text-green-800">Reminders Active! 🎉</h3>
-          <p className="text-green-600 text-xs">{contactValue}</p>
+          {/* Same message whether or not the reminder already existed: nothing starts until the contact confirms */}
+          <h3 className="text-base font-bold text-green-800">Check your inbox 📬</h3>
+          <p className="text-green-600 text-xs">
+            We sent a link to {contactValue}. Open it to confirm and start {catName}&apos;s reminders.
+          </p>
         </div>
 
         {/* Active Reminders Summary */}
         <div className="flex-1 space-y-1.5 overflow-y-auto">
-          <p className="text-xs font-medium text-gray-700 mb-1">Active reminders for {catName}:</p>
+          <p className="text-xs font-medium text-gray-700 mb-1">
+            Reminders for {catName} once confirmed:
+          </p>
           {activeReminders.length > 0 ? (
             activeReminders.map(({ key, icon: Icon, label }) => {
               const rec = getRecommendation(key);
@@ -245,7 +259,7 @@ export function ReminderSetup({ catName, catProfile, careRoutine, simulationResu
           <Sparkles className="w-4 h-4 text-amber-500 flex-shrink-0" />
           <h3 className="text-base font-bold text-amber-900">AI-Powered Reminders</h3>
         </div>
-        <p className="text-amber-600 text-xs">GPT-4 analyzed {catName}'s profile for personalized timing</p>
+        <p className="text-amber-600 text-xs">Tuned to {catName}'s profile and simulation results</p>
       </div>
 
       {/* Form Content */}
@@ -0,0 +1,336 @@
+"use client";
+
+import React, { useState, useMemo } from "react";
+import { Loader2, Plus, Minus, X, GitCompare, AlertCircle } from "lucide-react";
+import type {
+  CatProfile,
+  CareRoutine,
+  HealthStatus,
+  ScenarioComparison,
+  ScenarioResult,
+  ScenarioVariant,
+} from "@/types/catlife";
+
+interface ScenarioComparisonViewProps {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  seed?: number; // Seed of the timeline run, so the baseline matches what the user already saw
+}
+
+type AdjustableField = "treatsPerDay" | "playMinutesPerDay" | "foodAmountOzPerDay" | "vetVisitsPerYear";
+
+// Knobs owners ask about most, with the step each +/- press moves
+const ADJUSTABLE_FIELDS: { key: AdjustableField; label: string; unit: string; step: number; max: number }[] = [
+  { key: "treatsPerDay", label: "Treats", unit: "/day", step: 1, max: 50 },
+  { key: "playMinutesPerDay", label: "Play", unit: "min", step: 5, max: 600 },
+  { key: "foodAmountOzPerDay", label: "Food", unit: "oz", step: 0.5, max: 32 },
+  { key: "vetVisitsPerYear", label: "Vet visits", unit: "/yr", step: 1, max: 12 },
+];
+
+const MAX_VARIANTS = 3;
+
+// Line colors: baseline first, then one per variant
+const SCENARIO_COLORS = ["#92400e", "#2563eb", "#16a34a", "#db2777"];
+
+const STATUS_FILL: Record<HealthStatus, string> = {
+  thriving: "#22c55e",
+  ok: "#eab308",
+  risky: "#f97316",
+  unhealthy: "#ef4444",
+};
+
+const WIDTH = 300;
+const CHART_HEIGHT = 100;
+const STRIP_HEIGHT = 4;
+const PADDING = { top: 8, right: 8, bottom: 16, left: 26 };
+
+function describeVariant(base: CareRoutine, routine: CareRoutine): string {
+  const changes = ADJUSTABLE_FIELDS
+    .filter(({ key }) => (routine[key] ?? 0) !== (base[key] ?? 0))
+    .map(({ key, label, unit }) => {
+      const delta = (routine[key] ?? 0) - (base[key] ?? 0);
+      return `${label} ${delta > 0 ? "+" : ""}${delta}${unit.startsWith("/") ? "" : ` ${unit}`}`;
+    });
+  return changes.length > 0 ? changes.join(", ") : "No change";
+}
+
+/**
+ * Weight lines for every scenario over one axis, with a health-status strip per scenario underneath
+ */
+function ScenarioOverlayChart({ scenarios }: { scenarios: ScenarioResult[] }) {
+  const chart = useMemo(() => {
+    const points = scenarios[0]?.simulation.points ?? [];
+    if (points.length < 2) return null;
+
+    const minAge = points[0].ageMonths;
+    const maxAge = points[points.length - 1].ageMonths;
+    const weights = scenarios.flatMap(s => s.simulation.points.map(p => p.weightKgEstimate));
+    const minWeight = Math.max(0, Math.floor(Math.min(...weights) - 0.5));
+    const maxWeight = Math.ceil(Math.max(...weights) + 0.5);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const x = (ageMonths: number) => PADDING.left + ((ageMonths - minAge) / Math.max(1, maxAge - minAge)) * plotWidth;
+    const y = (weightKg: number) =>
+      PADDING.top + (1 - (weightKg - minWeight) / (maxWeight - minWeight)) * (CHART_HEIGHT - PADDING.top - PADDING.bottom);
+
+    const lines = scenarios.map(s =>
+      s.simulation.points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.ageMonths).toFixed(1)},${y(p.weightKgEstimate).toFixed(1)}`).join(" ")
+    );
+
+    const yearTicks: number[] = [];
+    for (let year = Math.ceil(minAge / 12); year <= Math.floor(maxAge / 12); year++) {
+      if (year % 5 === 0) yearTicks.push(year);
+    }
+
+    return { x, y, minWeight, maxWeight, lines, yearTicks, monthWidth: plotWidth / Math.max(1, maxAge - minAge) };
+  }, [scenarios]);
+
+  if (!chart) return null;
+
+  const height = CHART_HEIGHT + scenarios.length * (STRIP_HEIGHT + 2);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Weight and health by scenario">
+      {[chart.minWeight, chart.maxWeight].map(weight => (
+        <text key={weight} x={PADDING.left - 3} y={chart.y(weight) + 3} textAnchor="end" className="fill-gray-400 text-[7px]">
+          {weight}kg
+        </text>
+      ))}
+      {chart.yearTicks.map(year => (
+        <g key={year}>
+          <line
+            x1={chart.x(year * 12)}
+            x2={chart.x(year * 12)}
+            y1={PADDING.top}
+            y2={CHART_HEIGHT - PADDING.bottom}
+            className="stroke-gray-100"
+            strokeWidth={0.5}
+          />
+          <text x={chart.x(year * 12)} y={CHART_HEIGHT - 5} textAnchor="middle" className="fill-gray-400 text-[7px]">
+            {year}y
+          </text>
+        </g>
+      ))}
+
+      {chart.lines.map((d, i) => (
+        <path
+          key={scenarios[i].label}
+          d={d}
+          fill="none"
+          stroke={SCENARIO_COLORS[i % SCENARIO_COLORS.length]}
+          strokeWidth={i === 0 ? 1.25 : 1}
+          strokeDasharray={i === 0 ? undefined : "3 2"}
+        />
+      ))}
+
+      {/* One status strip per scenario, same order as the legend */}
+      {scenarios.map((scenario, row) => (
+        <g key={scenario.label}>
+          <rect
+            x={PADDING.left - 6}
+            y={CHART_HEIGHT + row * (STRIP_HEIGHT + 2)}
+            width={3}
+            height={STRIP_HEIGHT}
+            fill={SCENARIO_COLORS[row % SCENARIO_COLORS.length]}
+          />
+          {scenario.simulation.points.map(p => (
+            <rect
+              key={p.ageMonths}
+              x={chart.x(p.ageMonths)}
+              y={CHART_HEIGHT + row * (STRIP_HEIGHT + 2)}
+              width={chart.monthWidth + 0.2}
+              height={STRIP_HEIGHT}
+              fill={STATUS_FILL[p.healthStatus]}
+              opacity={0.8}
+            />
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+function ScenarioDiffSummary({ scenario, color }: { scenario: ScenarioResult; color: string }) {
+  const diff = scenario.diff;
+  if (!diff) return null;
+
+  const statusChanges = (Object.keys(STATUS_FILL) as HealthStatus[]).filter(status => diff.statusMonths[status] !== 0);
+  const weightChanges = diff.weightChanges.filter(w => w.changeKg !== null);
+
+  return (
+    <div className="p-2 bg-white rounded-lg border text-[10px]" style={{ borderColor: color }}>
+      <p className="font-semibold text-gray-800 mb-0.5" style={{ color }}>{scenario.label}</p>
+      <p className="text-gray-600">
+        {statusChanges.length === 0
+          ? "Same health status every month"
+          : `Months ${statusChanges.map(status => `${status} ${diff.statusMonths[status] > 0 ? "+" : ""}${diff.statusMonths[status]}`).join(", ")}`}
+      </p>
+      {weightChanges.map(w => (
+        <p key={w.ageYears} className="text-gray-600">
+          At {w.ageYears}y: {w.variantKg}kg ({(w.changeKg ?? 0) > 0 ? "+" : ""}{w.changeKg}kg)
+        </p>
+      ))}
+      {diff.alertsRemoved.length > 0 && (
+        <p className="text-green-700">Avoids: {diff.alertsRemoved.map(a => a.message).join(" ")}</p>
+      )}
+      {diff.alertsAdded.length > 0 && (
+        <p className="text-red-700">New: {diff.alertsAdded.map(a => a.message).join(" ")}</p>
+      )}
+      {diff.alertsShifted.filter(s => s.alert.severity !== "info").map(s => (
+        <p key={s.alert.id} className={s.alert.ageMonths > s.fromAgeMonths ? "text-green-700" : "text-red-700"}>
+          {s.alert.ageMonths > s.fromAgeMonths ? "Delayed" : "Brought forward"}: {s.alert.message.replace(/^At age \d+, /, "")}{" "}
+          ({Math.floor(s.fromAgeMonths / 12)}y → {Math.floor(s.alert.ageMonths / 12)}y)
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function ScenarioComparisonView({ catProfile, careRoutine, seed }: ScenarioComparisonViewProps) {
+  const [draft, setDraft] = useState<CareRoutine>(careRoutine);
+  const [variants, setVariants] = useState<ScenarioVariant[]>([]);
+  const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const adjust = (field: (typeof ADJUSTABLE_FIELDS)[number], direction: 1 | -1) => {
+    setDraft(prev => {
+      const next = Math.min(field.max, Math.max(0, (prev[field.key] ?? 0) + field.step * direction));
+      return { ...prev, [field.key]: next };
+    });
+  };
+
+  const runComparison = async (nextVariants: ScenarioVariant[]) => {
+    setVariants(nextVariants);
+    if (nextVariants.length === 0) {
+      setComparison(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/catlife/compare-scenarios", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ catProfile, careRoutine, variants: nextVariants, seed }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || "Failed to compare scenarios");
+      setComparison(data.comparison);
+    } catch (err) {
+      console.error("Comparison error:", err);
+      setError("Couldn't compare scenarios. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addVariant = () => {
+    const label = describeVariant(careRoutine, draft);
+    if (variants.length >= MAX_VARIANTS || label === "No change" || variants.some(v => v.label === label)) return;
+    runComparison([...variants, { label, careRoutine: draft }]);
+    setDraft(careRoutine);
+  };
+
+  const scenarios = comparison ? [comparison.baseline, ...comparison.variants] : [];
+
+  return (
+    <div className="space-y-3">
+      {/* Variant editor */}
+      <div className="p-2 bg-amber-50 rounded-lg border border-amber-200">
+        <h4 className="font-semibold text-amber-900 text-xs flex items-center gap-1 mb-1.5">
+          <GitCompare className="w-3 h-3 flex-shrink-0" /> What if {catProfile.name}...
+        </h4>
+        <div className="grid grid-cols-2 gap-1.5">
+          {ADJUSTABLE_FIELDS.map(field => {
+            const value = draft[field.key] ?? 0;
+            const changed = value !== (careRoutine[field.key] ?? 0);
+            return (
+              <div key={field.key} className="flex items-center justify-between gap-1 p-1 bg-white rounded-md border border-amber-100">
+                <span className="text-[10px] text-gray-600">{field.label}</span>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => adjust(field, -1)}
+                    className="w-5 h-5 flex items-center justify-center rounded bg-amber-100 text-amber-700 hover:bg-amber-200"
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className={`text-[10px] w-12 text-center ${changed ? "font-bold text-amber-700" : "text-gray-800"}`}>
+                    {value}{field.unit.startsWith("/") ? field.unit : ` ${field.unit}`}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => adjust(field, 1)}
+                    className="w-5 h-5 flex items-center justify-center rounded bg-amber-100 text-amber-700 hover:bg-amber-200"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <button
+          type="button"
+          onClick={addVariant}
+          disabled={isLoading || variants.length >= MAX_VARIANTS || describeVariant(careRoutine, draft) === "No change"}
+          className="mt-2 w-full py-1.5 bg-amber-500 text-white rounded-md text-[10px] font-semibold disabled:opacity-50"
+        >
+          {variants.length >= MAX_VARIANTS ? `Up to ${MAX_VARIANTS} scenarios` : "Compare this scenario"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <p className="text-xs">{error}</p>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-2 py-2 text-amber-600 text-xs">
+          <Loader2 className="w-4 h-4 animate-spin" /> Simulating scenarios...
+        </div>
+      )}
+
+      {/* Overlay */}
+      {comparison && scenarios.length > 1 && (
+        <>
+          <div className="p-2 bg-white rounded-lg border border-amber-100">
+            <ScenarioOverlayChart scenarios={scenarios} />
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+              {scenarios.map((scenario, i) => (
+                <div key={scenario.label} className="flex items-center gap-1 text-[9px] text-gray-600">
+                  <span className="w-3 h-0.5" style={{ backgroundColor: SCENARIO_COLORS[i % SCENARIO_COLORS.length] }} />
+                  <span>{scenario.label}</span>
+                  {i > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => runComparison(variants.filter(v => v.label !== scenario.label))}
+                      className="text-gray-400 hover:text-gray-600"
+                      aria-label={`Remove ${scenario.label}`}
+                    >
+                      <X className="w-2.5 h-2.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            {comparison.variants.map((scenario, i) => (
+              <ScenarioDiffSummary
+                key={scenario.label}
+                scenario={scenario}
+                color={SCENARIO_COLORS[(i + 1) % SCENARIO_COLORS.length]}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { SensitivityAnalysis, SensitivityBound, SensitivityOutcome } from "@/types/catlife";
+
+interface SensitivityTornadoChartProps {
+  analysis: SensitivityAnalysis;
+  maxRows?: number;
+}
+
+type Metric = keyof SensitivityOutcome;
+
+const METRICS: { id: Metric; label: string; unit: string }[] = [
+  { id: "averageHealthScore", label: "Health score", unit: "" },
+  { id: "weightAt10Kg", label: "Weight at 10y", unit: "kg" },
+  { id: "weightAt15Kg", label: "Weight at 15y", unit: "kg" },
+];
+
+function formatDelta(value: number, unit: string): string {
+  return `${value > 0 ? "+" : ""}${value}${unit}`;
+}
+
+export function SensitivityTornadoChart({ analysis, maxRows = 8 }: SensitivityTornadoChartProps) {
+  const [metric, setMetric] = useState<Metric>("averageHealthScore");
+  const { unit } = METRICS.find(m => m.id === metric)!;
+
+  // Widest swing on top, the tornado shape
+  const rows = useMemo(() => {
+    const value = (bound: SensitivityBound) => bound.delta[metric] ?? 0;
+    return analysis.entries
+      .map(entry => ({ entry, swing: Math.abs(value(entry.high) - value(entry.low)) }))
+      .filter(row => row.swing > 0)
+      .sort((a, b) => b.swing - a.swing)
+      .slice(0, maxRows)
+      .map(row => row.entry);
+  }, [analysis, metric, maxRows]);
+
+  const scale = Math.max(
+    0.01,
+    ...rows.flatMap(entry => [Math.abs(entry.low.delta[metric] ?? 0), Math.abs(entry.high.delta[metric] ?? 0)])
+  );
+
+  const renderBar = (bound: SensitivityBound, className: string) => {
+    const delta = bound.delta[metric] ?? 0;
+    const width = `${(Math.abs(delta) / scale) * 100}%`;
+    const title = `${bound.valueLabel}: ${formatDelta(delta, unit)}`;
+    return (
+      <div className="flex items-center h-2" title={title}>
+        <div className="flex-1 flex justify-end">
+          {delta < 0 && <div className={`h-1.5 rounded-l ${className}`} style={{ width }} />}
+        </div>
+        <div className="w-px h-2 bg-gray-300" />
+        <div className="flex-1">
+          {delta > 0 && <div className={`h-1.5 rounded-r ${className}`} style={{ width }} />}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-1.5">
+        {METRICS.map(({ id, label }) => {
+          const available = analysis.baseline[id] !== null;
+          return (
+            <button
+              key={id}
+              disabled={!available}
+              onClick={() => setMetric(id)}
+              className={`flex-1 py-0.5 rounded text-[9px] font-medium ${
+                metric === id ? "bg-amber-500 text-white" : available ? "bg-amber-50 text-amber-700 hover:bg-amber-100" : "bg-gray-50 text-gray-300"
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-[10px] text-gray-500">No single change moves this outcome.</p>
+      ) : (
+        <div className="space-y-1.5">
+          {rows.map(entry => (
+            <div key={entry.input} className="flex items-center gap-2">
+              <div className="w-20 text-[10px] text-gray-700 leading-tight">
+                {entry.label}
+                <span className="block text-[8px] text-gray-400">now {entry.currentLabel}</span>
+              </div>
+              <div className="flex-1">
+                {renderBar(entry.low, "bg-sky-400")}
+                {renderBar(entry.high, "bg-amber-500")}
+              </div>
+              <div className="w-24 text-[8px] text-gray-500 leading-tight">
+                <span className="block">{entry.low.valueLabel}: {formatDelta(entry.low.delta[metric] ?? 0, unit)}</span>
+                <span className="block">{entry.high.valueLabel}: {formatDelta(entry.high.delta[metric] ?? 0, unit)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-1.5 text-[9px] text-gray-500">
+        Each input nudged on its own: <span className="text-sky-600">blue</span> is the lower or first option,{" "}
+        <span className="text-amber-600">amber</span> the higher or second. Bars to the right raise the{" "}
+        {metric === "averageHealthScore" ? "average health score" : "weight"}.
+      </p>
+    </div>
+  );
+}
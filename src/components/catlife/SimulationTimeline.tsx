@@ -15,7 +15,8 @@ import {
   Minus,
   Sparkles,
   Calendar,
-  Activity
+  Activity,
+  GitCompare
 } from "lucide-react";
 import type {
   CatProfile,
@@ -27,12 +28,23 @@ import type {
   EnhancedSimulationPoint,
   HealthTrajectory,
   ProgressiveRecommendation,
+  EnsembleResult,
+  SensitivityAnalysis,
+  SurvivalPoint,
+  WeighIn,
 } from "@/types/catlife";
+import { WeightUncertaintyChart } from "./WeightUncertaintyChart";
+import { ScenarioComparisonView } from "./ScenarioComparisonView";
+import { HealthScoreBreakdown } from "./HealthScoreBreakdown";
+import { WeighInChart } from "./WeighInChart";
+import { SensitivityTornadoChart } from "./SensitivityTornadoChart";
 
 interface SimulationTimelineProps {
   catProfile: CatProfile;
   careRoutine: CareRoutine;
+  seed?: number; // Replay a specific run (e.g. from a shared link)
   onComplete?: (result: SimulationResult | EnhancedSimulationResult) => void;
+  onWeighInsChange?: (weighIns: WeighIn[]) => void; // Keep logged weigh-ins on the profile
 }
 
 // Preset year buttons for quick navigation
@@ -46,14 +58,47 @@ const YEAR_PRESETS = [
   { year: 20, label: "20y" },
 ];
 
-type TabType = "timeline" | "trajectory" | "recommendations";
+// Best to worst, for stacked status bars
+const STATUS_ORDER: HealthStatus[] = ["thriving", "ok", "risky", "unhealthy"];
+
+type TabType = "timeline" | "trajectory" | "recommendations" | "compare";
+
+/**
+ * Survival odds at an age, interpolated between the projection's yearly points
+ */
+function survivalAt(points: SurvivalPoint[] | undefined, ageMonths: number): number {
+  if (!points || points.length === 0) return 1;
+  const nextIndex = points.findIndex((p) => p.ageMonths >= ageMonths);
+  if (nextIndex === -1) return points[points.length - 1].probability;
+  if (nextIndex === 0) return points[0].probability;
+  const prev = points[nextIndex - 1];
+  const next = points[nextIndex];
+  const t = (ageMonths - prev.ageMonths) / (next.ageMonths - prev.ageMonths);
+  return prev.probability + (next.probability - prev.probability) * t;
+}
+
+/**
+ * The first point of each year of age; on weekly or quarterly steps birthdays can fall between points
+ */
+function birthdayPoints<T extends { ageMonths: number }>(points: T[]): T[] {
+  return points.filter((point, index) =>
+    index === 0
+      ? point.ageMonths % 12 === 0
+      : Math.floor(point.ageMonths / 12) > Math.floor(points[index - 1].ageMonths / 12)
+  );
+}
 
 export function SimulationTimeline({
   catProfile,
   careRoutine,
+  seed,
   onComplete,
+  onWeighInsChange,
 }: SimulationTimelineProps) {
   const [simulation, setSimulation] = useState<EnhancedSimulationResult | SimulationResult | null>(null);
+  const [ensemble, setEnsemble] = useState<EnsembleResult | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityAnalysis | null>(null); // Loaded by the Care Plan tab
+  const [isLoadingSensitivity, setIsLoadingSensitivity] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -61,11 +106,33 @@ export function SimulationTimeline({
   const [selectedAlert, setSelectedAlert] = useState<SimulationAlert | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>("timeline");
+  const [followCarePlan, setFollowCarePlan] = useState(false);
+  const [weighIns, setWeighIns] = useState<WeighIn[]>(catProfile.weighIns ?? []);
+  const [newWeighIn, setNewWeighIn] = useState({ date: new Date().toISOString().slice(0, 10), weightKg: "", atVet: false });
+
+  // The profile as simulated, with the weigh-ins logged here
+  const simulatedProfile = useMemo(
+    () => (weighIns.length > 0 ? { ...catProfile, weighIns } : catProfile),
+    [catProfile, weighIns]
+  );
 
   const startAge = useMemo(() => {
     return ((catProfile.ageYears ?? 1) * 12) + (catProfile.ageMonths ?? 0);
   }, [catProfile.ageYears, catProfile.ageMonths]);
 
+  // The timeline scales to whatever age range the simulation covers
+  const endAge = simulation ? simulation.points[simulation.points.length - 1].ageMonths : startAge;
+
+  // Presets within the range, plus the final year for long horizons
+  const yearPresets = useMemo(() => {
+    const lastYear = Math.floor(endAge / 12);
+    const presets = YEAR_PRESETS.filter(({ year }) => year <= lastYear);
+    if (lastYear > 0 && !presets.some(({ year }) => year === lastYear)) {
+      presets.push({ year: lastYear, label: `${lastYear}y` });
+    }
+    return presets;
+  }, [endAge]);
+
   // Check if we have enhanced simulation
   const isEnhanced = simulation && "isEnhanced" in simulation && simulation.isEnhanced;
   const enhancedSim = isEnhanced ? (simulation as EnhancedSimulationResult) : null;
@@ -81,17 +148,17 @@ export function SimulationTimeline({
     if (!isPlaying || !simulation) return;
     const interval = setInterval(() => {
       setCurrentAgeMonths(prev => {
-        if (prev >= 240) {
+        if (prev >= endAge) {
           setIsPlaying(false);
           return prev;
         }
-        return prev + 12; // Advance 1 year at a time
+        return Math.min(prev + 12, endAge); // Advance 1 year at a time
       });
     }, 2000);
     return () => clearInterval(interval);
-  }, [isPlaying, simulation]);
+  }, [isPlaying, simulation, endAge]);
 
-  const runSimulation = async () => {
+  const runSimulation = async (followPlan: boolean = followCarePlan, profile: CatProfile = simulatedProfile) => {
     setIsLoading(true);
     setError(null);
     try {
@@ -99,12 +166,23 @@ export function SimulationTimeline({
       const response = await fetch("/api/catlife/simulate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ catProfile, careRoutine, enhanced: true }),
+        // Retries keep the previous seed so the curve doesn't change under the user
+        body: JSON.stringify({
+          catProfile: profile,
+          careRoutine,
+          enhanced: true,
+          seed: seed ?? simulation?.seed,
+          followCarePlan: followPlan,
+          includeCarePlans: true, // The Care Plan tab's advice comes from the optimizer
+        }),
       });
       const data = await response.json();
       if (data.success && data.simulation) {
         setSimulation(data.simulation);
         onComplete?.(data.simulation);
+        fetchEnsemble(data.simulation.seed, followPlan, profile);
+        setSensitivity(null);
+        if (activeTab === "recommendations") fetchSensitivity(data.simulation.seed, followPlan, profile);
 
         // Check if simulation has GPT-generated notes (not just local enhancement)
         // Local enhancement sets isEnhanced but doesn't add GPT notes
@@ -127,11 +205,50 @@ export function SimulationTimeline({
     }
   };
 
+  // Spread across many seeded runs; the single run above stays the one on the timeline
+  const fetchEnsemble = async (baseSeed: number | undefined, followPlan: boolean, profile: CatProfile) => {
+    try {
+      const response = await fetch("/api/catlife/simulate-ensemble", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ catProfile: profile, careRoutine, seed: baseSeed, followCarePlan: followPlan }),
+      });
+      const data = await response.json();
+      if (data.success && data.ensemble) {
+        setEnsemble(data.ensemble);
+      }
+    } catch (err) {
+      console.error("Ensemble error:", err);
+      // The band is optional; keep showing the single run
+    }
+  };
+
+  // A dozen re-runs of the simulation, so only fetched once the Care Plan tab is opened
+  const fetchSensitivity = async (runSeed: number, followPlan: boolean, profile: CatProfile) => {
+    setIsLoadingSensitivity(true);
+    try {
+      const response = await fetch("/api/catlife/sensitivity", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ catProfile: profile, careRoutine, seed: runSeed, followCarePlan: followPlan }),
+      });
+      const data = await response.json();
+      if (data.success && data.sensitivity) {
+        setSensitivity(data.sensitivity);
+      }
+    } catch (err) {
+      console.error("Sensitivity error:", err);
+      // The chart is optional; the rest of the tab doesn't depend on it
+    } finally {
+      setIsLoadingSensitivity(false);
+    }
+  };
+
   const enhanceWithGPT = async (baseSimulation: SimulationResult) => {
     setIsEnhancing(true);
     try {
       // Get year milestones only
-      const yearMilestones = baseSimulation.points.filter(p => p.ageMonths % 12 === 0);
+      const yearMilestones = birthdayPoints(baseSimulation.points);
       
       // Build trajectory from base simulation
       const trajectory = analyzeTrajectoryLocally(baseSimulation.points);
@@ -191,7 +308,7 @@ export function SimulationTimeline({
       thriving: 4, ok: 3, risky: 2, unhealthy: 1
     };
     
-    const yearlyPoints = points.filter(p => p.ageMonths % 12 === 0);
+    const yearlyPoints = birthdayPoints(points);
     const avgScore = yearlyPoints.reduce((sum, p) => sum + statusScores[p.healthStatus], 0) / yearlyPoints.length;
     
     const midpoint = Math.floor(yearlyPoints.length / 2);
@@ -205,8 +322,8 @@ export function SimulationTimeline({
     if (secondHalfAvg > firstHalfAvg + 0.3) trend = "improving";
     else if (secondHalfAvg < firstHalfAvg - 0.3) trend = "declining";
 
-    const year10Point = yearlyPoints.find(p => p.ageMonths === 120);
-    const year15Point = yearlyPoints.find(p => p.ageMonths === 180);
+    const year10Point = yearlyPoints.find(p => Math.floor(p.ageMonths / 12) === 10);
+    const year15Point = yearlyPoints.find(p => Math.floor(p.ageMonths / 12) === 15);
 
     return {
       trend,
@@ -225,6 +342,39 @@ export function SimulationTimeline({
            points.find((p) => p.ageMonths >= currentAgeMonths);
   }, [simulation, currentAgeMonths, isEnhanced, enhancedSim]);
 
+  // Scheduled routine changes that take effect during the current year
+  const currentYearRoutineChanges = useMemo(() => {
+    if (!simulation) return [];
+    const year = Math.floor(currentAgeMonths / 12);
+    return simulation.points
+      .filter((p) => Math.floor(p.ageMonths / 12) === year)
+      .flatMap((p) => p.routineChanges ?? []);
+  }, [simulation, currentAgeMonths]);
+
+  // Scores a year before the selected age, for the Health tab's change arrows
+  const previousYearScores = useMemo(() => {
+    if (!simulation || currentAgeMonths - 12 < simulation.points[0].ageMonths) return undefined;
+    return simulation.points.find((p) => p.ageMonths >= currentAgeMonths - 12)?.healthScores;
+  }, [simulation, currentAgeMonths]);
+
+  const currentEnsemblePoint = useMemo(() => {
+    if (!ensemble) return null;
+    return ensemble.points.find((p) => p.ageMonths === currentAgeMonths) ||
+           ensemble.points.find((p) => p.ageMonths >= currentAgeMonths);
+  }, [ensemble, currentAgeMonths]);
+
+  // Where the weigh-ins moved the forecast two years out
+  const forecastShift = useMemo(() => {
+    const calibration = simulation?.weightCalibration;
+    if (!simulation || !calibration?.previousForecast) return null;
+    const ageMonths = Math.min(startAge + 24, simulation.points[simulation.points.length - 1].ageMonths);
+    const after = simulation.points.find((p) => p.ageMonths >= ageMonths)?.weightKgEstimate;
+    const before = calibration.previousForecast.find((p) => p.ageMonths >= ageMonths)?.weightKg;
+    return after !== undefined && before !== undefined ? { ageMonths, before, after } : null;
+  }, [simulation, startAge]);
+
+  const currentSurvival = survivalAt(simulation?.survival?.points, currentAgeMonths);
+
   const getStatusColor = (status: HealthStatus) => {
     switch (status) {
       case "thriving": return "bg-green-500";
@@ -261,14 +411,32 @@ export function SimulationTimeline({
     }
   };
 
+  // Each weigh-in recalibrates the projection from the measurements so far
+  const updateWeighIns = (next: WeighIn[]) => {
+    const sorted = [...next].sort((a, b) => a.date.localeCompare(b.date));
+    setWeighIns(sorted);
+    onWeighInsChange?.(sorted);
+    runSimulation(followCarePlan, sorted.length > 0 ? { ...catProfile, weighIns: sorted } : catProfile);
+  };
+
+  const addWeighIn = () => {
+    const weightKg = parseFloat(newWeighIn.weightKg);
+    if (!newWeighIn.date || !Number.isFinite(weightKg) || weightKg <= 0 || weightKg > 15) return;
+    updateWeighIns([
+      ...weighIns,
+      { date: newWeighIn.date, weightKg, ...(newWeighIn.atVet ? { atVet: true } : {}) },
+    ]);
+    setNewWeighIn(prev => ({ ...prev, weightKg: "" }));
+  };
+
   const jumpToYear = (year: number) => {
     const targetMonths = Math.max(startAge, year * 12);
-    setCurrentAgeMonths(Math.min(targetMonths, 240));
+    setCurrentAgeMonths(Math.min(targetMonths, endAge));
     setIsPlaying(false);
   };
 
   const togglePlay = () => {
-    if (currentAgeMonths >= 240) {
+    if (currentAgeMonths >= endAge) {
       setCurrentAgeMonths(startAge);
     }
     setIsPlaying(!isPlaying);
@@ -288,7 +456,7 @@ export function SimulationTimeline({
       <div className="h-full flex flex-col items-center justify-center p-4 bg-red-50 rounded-xl text-center">
         <AlertCircle className="w-10 h-10 text-red-500 mb-3" />
         <p className="text-red-700 font-medium text-sm">{error}</p>
-        <button onClick={runSimulation} className="mt-3 px-4 py-2 bg-red-600 text-white rounded-full text-sm hover:bg-red-700">
+        <button onClick={() => runSimulation()} className="mt-3 px-4 py-2 bg-red-600 text-white rounded-full text-sm hover:bg-red-700">
           Try Again
         </button>
       </div>
@@ -308,10 +476,16 @@ export function SimulationTimeline({
           { id: "timeline" as TabType, label: "Timeline", icon: Activity },
           { id: "trajectory" as TabType, label: "Health", icon: Heart },
           { id: "recommendations" as TabType, label: "Care Plan", icon: Calendar },
+          { id: "compare" as TabType, label: "What If", icon: GitCompare },
         ].map(({ id, label, icon: Icon }) => (
           <button
             key={id}
-            onClick={() => setActiveTab(id)}
+            onClick={() => {
+              setActiveTab(id);
+              if (id === "recommendations" && !sensitivity && !isLoadingSensitivity && simulation.seed !== undefined) {
+                fetchSensitivity(simulation.seed, followCarePlan, simulatedProfile);
+              }
+            }}
             className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-2 rounded-md text-[10px] font-medium transition-all ${
               activeTab === id
                 ? "bg-amber-500 text-white shadow-sm"
@@ -346,7 +520,7 @@ export function SimulationTimeline({
               <motion.div
                 key={currentAgeMonths}
                 initial={{ opacity: 0, scale: 0.95 }}
-                animate={{ opacity: 1, scale: 1 }}
+                animate={{ opacity: 0.55 + 0.45 * currentSurvival, scale: 1 }}
                 className={`mt-2 p-2.5 rounded-xl border-2 ${getStatusBgColor(currentPoint.healthStatus)}`}
               >
                 <div className="flex items-center justify-between">
@@ -356,7 +530,15 @@ export function SimulationTimeline({
                     </div>
                     <div>
                       <p className="font-bold text-sm capitalize">{currentPoint.healthStatus}</p>
-                      <p className="text-[10px] opacity-80">{currentPoint.weightKgEstimate}kg</p>
+                      <p className="text-[10px] opacity-80">
+                        {currentPoint.weightKgEstimate}kg
+                        {currentPoint.expectedWeightKg !== undefined && (
+                          <span className="opacity-70"> (growth curve ~{currentPoint.expectedWeightKg}kg)</span>
+                        )}
+                        {currentEnsemblePoint && (
+                          <span className="opacity-70"> (likely {currentEnsemblePoint.weightP10}-{currentEnsemblePoint.weightP90}kg)</span>
+                        )}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center justify-center gap-1.5">
@@ -378,7 +560,32 @@ export function SimulationTimeline({
                 {currentPoint.notes && (
                   <p className="mt-1.5 text-[10px] opacity-90 leading-relaxed">{currentPoint.notes}</p>
                 )}
+
+                {/* Routine changes from the followed care plan */}
+                {currentYearRoutineChanges.length > 0 && (
+                  <div className="mt-1.5 flex flex-wrap gap-1">
+                    {currentYearRoutineChanges.map((change) => (
+                      <span key={change.label} className="text-[8px] bg-white/60 px-1.5 py-0.5 rounded-full">
+                        Routine change: {change.label}
+                      </span>
+                    ))}
+                  </div>
+                )}
                 
+                {/* Known conditions and where their course stands this month */}
+                {currentPoint.conditions && currentPoint.conditions.length > 0 && (
+                  <div className="mt-1.5 flex flex-wrap gap-1">
+                    {currentPoint.conditions.map((condition) => (
+                      <span
+                        key={condition.conditionId}
+                        className={`text-[8px] px-1.5 py-0.5 rounded-full ${condition.managed ? "bg-white/60" : "bg-red-100 text-red-700"}`}
+                      >
+                        {condition.name}: {condition.stage}{condition.managed ? "" : " (unmanaged)"}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
                 {/* Enhanced advice if available */}
                 {enhancedPoint?.enhancedNote?.ageAppropriateAdvice && enhancedPoint.enhancedNote.ageAppropriateAdvice.length > 0 && (
                   <div className="mt-2 pt-2 border-t border-current/10">
@@ -410,7 +617,7 @@ export function SimulationTimeline({
           {/* Year Quick Jump Buttons */}
           <div className="flex-shrink-0 mb-2">
             <div className="flex gap-1 justify-center flex-wrap">
-              {YEAR_PRESETS.map(({ year, label }) => {
+              {yearPresets.map(({ year, label }) => {
                 const isActive = currentYear === year;
                 const isPast = year * 12 < startAge;
                 return (
@@ -439,13 +646,17 @@ export function SimulationTimeline({
               {simulation.points.map((point, index) => {
                 if (index === 0) return null;
                 const prevPoint = simulation.points[index - 1];
-                const width = ((point.ageMonths - prevPoint.ageMonths) / 240) * 100;
-                const left = (prevPoint.ageMonths / 240) * 100;
+                const width = ((point.ageMonths - prevPoint.ageMonths) / endAge) * 100;
+                const left = (prevPoint.ageMonths / endAge) * 100;
                 return (
                   <div
                     key={point.ageMonths}
-                    className={`absolute h-full ${getStatusColor(point.healthStatus)} opacity-80`}
-                    style={{ left: `${left}%`, width: `${width}%` }}
+                    className={`absolute h-full ${getStatusColor(point.healthStatus)}`}
+                    style={{
+                      left: `${left}%`,
+                      width: `${width}%`,
+                      opacity: 0.25 + 0.55 * survivalAt(simulation.survival?.points, point.ageMonths),
+                    }}
                   />
                 );
               })}
@@ -454,14 +665,14 @@ export function SimulationTimeline({
             {/* Progress indicator */}
             <motion.div
               className="absolute top-0 h-2 bg-white/50 rounded-full"
-              style={{ left: 0, width: `${(currentAgeMonths / 240) * 100}%` }}
-              animate={{ width: `${(currentAgeMonths / 240) * 100}%` }}
+              style={{ left: 0, width: `${(currentAgeMonths / endAge) * 100}%` }}
+              animate={{ width: `${(currentAgeMonths / endAge) * 100}%` }}
             />
             
             {/* Thumb */}
             <motion.div
               className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 pointer-events-none"
-              style={{ left: `${(currentAgeMonths / 240) * 100}%` }}
+              style={{ left: `${(currentAgeMonths / endAge) * 100}%` }}
             >
               <div className="w-4 h-4 bg-white rounded-full shadow-lg border-2 border-amber-500" />
             </motion.div>
@@ -470,7 +681,7 @@ export function SimulationTimeline({
             <input
               type="range"
               min={startAge}
-              max={240}
+              max={endAge}
               value={currentAgeMonths}
               onChange={(e) => {
                 setCurrentAgeMonths(parseInt(e.target.value));
@@ -495,6 +706,131 @@ export function SimulationTimeline({
             ))}
           </div>
 
+          {/* Lifespan projection, shown gently: colors fade with the odds of reaching each age */}
+          {simulation.survival && (
+            <p className="flex-shrink-0 mb-2 text-center text-[9px] text-gray-500">
+              Colors fade as the years get less certain. About half of cats in {catProfile.name}&apos;s situation
+              reach {Math.round(simulation.survival.medianLifespanMonths / 6) / 2} years
+              (typical for the breed: {simulation.survival.breedLifeExpectancyYears.min}-{simulation.survival.breedLifeExpectancyYears.max}).
+            </p>
+          )}
+
+          {/* Uncertainty Band */}
+          {ensemble && (
+            <div className="flex-shrink-0 mb-2 p-2 bg-white rounded-lg border border-amber-100">
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="font-semibold text-amber-900 text-xs">Weight Range</h4>
+                <span className="text-[9px] text-gray-500">80% of {ensemble.runs} simulated futures</span>
+              </div>
+              <WeightUncertaintyChart
+                ensemble={ensemble.points}
+                run={simulation.points}
+                currentAgeMonths={currentAgeMonths}
+                idealWeight={enhancedSim?.breedProfile?.idealWeight}
+              />
+              {currentEnsemblePoint && (
+                <div className="mt-1">
+                  <div className="flex h-1.5 rounded-full overflow-hidden bg-gray-100">
+                    {STATUS_ORDER.map((status) => (
+                      <div
+                        key={status}
+                        className={getStatusColor(status)}
+                        style={{ width: `${currentEnsemblePoint.statusProbabilities[status] * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                  <p className="mt-0.5 text-[9px] text-gray-500 text-center">
+                    At {currentYear}y: {STATUS_ORDER
+                      .filter((status) => currentEnsemblePoint.statusProbabilities[status] > 0)
+                      .map((status) => `${Math.round(currentEnsemblePoint.statusProbabilities[status] * 100)}% ${status}`)
+                      .join(" · ")}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Weigh-ins: observed against the projection */}
+          <div className="flex-shrink-0 mb-2 p-2 bg-white rounded-lg border border-amber-100">
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="font-semibold text-amber-900 text-xs">Weigh-ins</h4>
+              {simulation.weightCalibration && (
+                <span className="text-[9px] text-gray-500">
+                  Trend {simulation.weightCalibration.driftKgPerMonth >= 0 ? "+" : ""}
+                  {Math.round(simulation.weightCalibration.driftKgPerMonth * 1000)} g/month
+                  (±{Math.round(simulation.weightCalibration.driftUncertaintyKgPerMonth * 1000)})
+                </span>
+              )}
+            </div>
+
+            {simulation.weightCalibration ? (
+              <>
+                <WeighInChart calibration={simulation.weightCalibration} run={simulation.points} />
+                <p className="mt-0.5 text-[9px] text-gray-500 text-center">
+                  Dots are weigh-ins; the solid line is the projection from them, dashed is the forecast from the stated weight alone.
+                  {forecastShift && (
+                    <> At {Math.round(forecastShift.ageMonths / 6) / 2}y the forecast moved from {forecastShift.before}kg to {forecastShift.after}kg.</>
+                  )}
+                </p>
+              </>
+            ) : (
+              <p className="text-[9px] text-gray-500">
+                Log a few weigh-ins and the projection will follow {catProfile.name}&apos;s actual trend instead of one stated weight.
+              </p>
+            )}
+
+            {weighIns.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {weighIns.map((weighIn, index) => (
+                  <span key={`${weighIn.date}-${index}`} className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-amber-50 rounded text-[9px] text-amber-900">
+                    {weighIn.date}: {weighIn.weightKg}kg{weighIn.atVet ? " (vet)" : ""}
+                    <button
+                      onClick={() => updateWeighIns(weighIns.filter((_, i) => i !== index))}
+                      className="text-amber-500 hover:text-amber-700"
+                      aria-label={`Remove weigh-in from ${weighIn.date}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-1 mt-1.5 text-[10px]">
+              <input
+                type="date"
+                value={newWeighIn.date}
+                max={new Date().toISOString().slice(0, 10)}
+                onChange={(e) => setNewWeighIn(prev => ({ ...prev, date: e.target.value }))}
+                className="flex-1 min-w-0 px-1 py-0.5 border border-amber-200 rounded"
+              />
+              <input
+                type="number"
+                step="0.05"
+                min="0.1"
+                max="15"
+                placeholder="kg"
+                value={newWeighIn.weightKg}
+                onChange={(e) => setNewWeighIn(prev => ({ ...prev, weightKg: e.target.value }))}
+                className="w-14 px-1 py-0.5 border border-amber-200 rounded"
+              />
+              <label className="flex items-center gap-0.5 text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={newWeighIn.atVet}
+                  onChange={(e) => setNewWeighIn(prev => ({ ...prev, atVet: e.target.checked }))}
+                />
+                vet
+              </label>
+              <button
+                onClick={addWeighIn}
+                className="px-2 py-0.5 bg-amber-500 text-white rounded hover:bg-amber-600"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
           {/* Key Milestones */}
           <div>
             <h4 className="font-semibold text-amber-900 text-xs flex items-center justify-start gap-1 mb-1.5">
@@ -607,6 +943,24 @@ export function SimulationTimeline({
             </div>
           </div>
 
+          {/* Per-system breakdown at the selected age */}
+          {currentPoint?.healthScores && (
+            <div className="p-3 bg-white rounded-xl border border-amber-100">
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="font-semibold text-amber-900 text-xs">Health Breakdown</h4>
+                <span className={`text-[9px] px-1.5 py-0.5 rounded-full capitalize ${getStatusBgColor(currentPoint.healthStatus)}`}>
+                  {currentPoint.healthStatus}
+                </span>
+              </div>
+              <HealthScoreBreakdown
+                scores={currentPoint.healthScores}
+                ageYears={currentYear}
+                previous={previousYearScores}
+              />
+              <p className="mt-1.5 text-[9px] text-gray-400">Move the timeline slider to see another age.</p>
+            </div>
+          )}
+
           {/* Risk Factors */}
           {enhancedSim.trajectory.riskFactors.length > 0 && (
             <div className="p-2 bg-red-50 rounded-lg border border-red-200">
@@ -668,6 +1022,25 @@ export function SimulationTimeline({
             <p className="text-[11px] text-amber-800">{simulation.summary}</p>
           </div>
 
+          {/* Follow the progressive plan inside the simulation */}
+          <button
+            onClick={() => {
+              const next = !followCarePlan;
+              setFollowCarePlan(next);
+              runSimulation(next);
+            }}
+            className={`w-full p-2 rounded-lg border-2 text-left text-[10px] transition-all ${
+              followCarePlan ? "border-amber-500 bg-amber-50" : "border-gray-200 bg-white hover:border-amber-200"
+            }`}
+          >
+            <p className="font-semibold text-amber-900">
+              {followCarePlan ? "✓ Simulating the progressive care plan" : "Simulate following the progressive care plan"}
+            </p>
+            <p className="text-gray-500">
+              Twice-yearly vet visits from 7, senior food from 10, and a weight-loss routine if weight climbs too high.
+            </p>
+          </button>
+
           {/* Key Recommendations */}
           <div>
             <h4 className="font-semibold text-amber-900 text-xs mb-2">Key Recommendations</h4>
@@ -683,6 +1056,19 @@ export function SimulationTimeline({
             </div>
           </div>
 
+          {/* What matters most: each input nudged on its own */}
+          {isLoadingSensitivity && !sensitivity && (
+            <div className="flex items-center justify-center gap-2 py-2 text-[10px] text-amber-600">
+              <Loader2 className="w-3 h-3 animate-spin" /> Working out what matters most...
+            </div>
+          )}
+          {sensitivity && sensitivity.entries.length > 0 && (
+            <div className="p-2 bg-white rounded-lg border">
+              <h4 className="font-semibold text-amber-900 text-xs mb-1.5">What Matters Most for {catProfile.name}</h4>
+              <SensitivityTornadoChart analysis={sensitivity} />
+            </div>
+          )}
+
           {/* Progressive Timeline */}
           {enhancedSim?.progressiveTimeline && enhancedSim.progressiveTimeline.length > 0 && (
             <div>
@@ -724,14 +1110,24 @@ export function SimulationTimeline({
         </div>
       )}
 
+      {/* What If Tab - kept mounted so added scenarios survive tab switches */}
+      <div className={activeTab === "compare" ? "" : "hidden"}>
+        <ScenarioComparisonView catProfile={simulatedProfile} careRoutine={careRoutine} seed={simulation.seed} />
+      </div>
+
       {/* Non-enhanced fallback message */}
-      {activeTab !== "timeline" && !isEnhanced && !isEnhancing && (
+      {(activeTab === "trajectory" || activeTab === "recommendations") && !isEnhanced && !isEnhancing && (
         <div className="p-3 bg-gray-50 rounded-lg text-center">
           <p className="text-[10px] text-gray-500">
             Enhanced analysis is being loaded...
           </p>
         </div>
       )}
+
+      {/* Seed for support / reproducing this exact run */}
+      {simulation.seed !== undefined && (
+        <p className="mt-2 text-center text-[8px] text-gray-400">Simulation #{simulation.seed}</p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { SimulationPoint, WeightCalibration } from "@/types/catlife";
+
+interface WeighInChartProps {
+  calibration: WeightCalibration;
+  run: SimulationPoint[]; // The recalibrated projection
+  horizonMonths?: number; // How far past the latest weigh-in to draw
+}
+
+const WIDTH = 300;
+const HEIGHT = 110;
+const PADDING = { top: 8, right: 8, bottom: 16, left: 26 };
+
+export function WeighInChart({ calibration, run, horizonMonths = 24 }: WeighInChartProps) {
+  const chart = useMemo(() => {
+    const { observations, previousForecast } = calibration;
+    if (observations.length === 0 || run.length === 0) return null;
+
+    const minAge = Math.floor(observations[0].ageMonths);
+    const maxAge = Math.min(run[run.length - 1].ageMonths, Math.ceil(calibration.anchorAgeMonths) + horizonMonths);
+    const projection = run.filter(p => p.ageMonths <= maxAge).map(p => ({ ageMonths: p.ageMonths, weight: p.weightKgEstimate }));
+    const previous = (previousForecast ?? []).filter(p => p.ageMonths <= maxAge).map(p => ({ ageMonths: p.ageMonths, weight: p.weightKg }));
+    const weights = [
+      ...observations.flatMap(o => [o.weightKg, o.fittedKg]),
+      ...projection.map(p => p.weight),
+      ...previous.map(p => p.weight),
+    ];
+    const minWeight = Math.max(0, Math.floor((Math.min(...weights) - 0.2) * 2) / 2);
+    const maxWeight = Math.ceil((Math.max(...weights) + 0.2) * 2) / 2;
+
+    const x = (ageMonths: number) =>
+      PADDING.left + ((ageMonths - minAge) / Math.max(1, maxAge - minAge)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (weightKg: number) =>
+      PADDING.top + (1 - (weightKg - minWeight) / (maxWeight - minWeight)) * (HEIGHT - PADDING.top - PADDING.bottom);
+    const line = (points: { ageMonths: number; weight: number }[]) =>
+      points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.ageMonths).toFixed(1)},${y(p.weight).toFixed(1)}`).join(" ");
+
+    // The fit runs through the weigh-ins and joins the projection where it starts
+    const fitted = [
+      ...observations.map(o => ({ ageMonths: o.ageMonths, weight: o.fittedKg })),
+      ...(projection.length > 0 ? [projection[0]] : []),
+    ];
+
+    const firstYear = Math.ceil(minAge / 12);
+    const lastYear = Math.floor(maxAge / 12);
+    const yearTicks: number[] = [];
+    for (let year = firstYear; year <= lastYear; year++) yearTicks.push(year);
+
+    return {
+      x,
+      y,
+      minWeight,
+      maxWeight,
+      yearTicks,
+      fitted: fitted.length > 1 ? line(fitted) : null,
+      projection: projection.length > 1 ? line(projection) : null,
+      previous: previous.length > 1 ? line(previous) : null,
+    };
+  }, [calibration, run, horizonMonths]);
+
+  if (!chart) return null;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Weigh-ins against the projected weight">
+      {/* Axes */}
+      {[chart.minWeight, chart.maxWeight].map(weight => (
+        <text key={weight} x={PADDING.left - 3} y={chart.y(weight) + 3} textAnchor="end" className="fill-gray-400 text-[7px]">
+          {weight}kg
+        </text>
+      ))}
+      {chart.yearTicks.map(year => (
+        <g key={year}>
+          <line
+            x1={chart.x(year * 12)}
+            x2={chart.x(year * 12)}
+            y1={PADDING.top}
+            y2={HEIGHT - PADDING.bottom}
+            className="stroke-gray-100"
+            strokeWidth={0.5}
+          />
+          <text x={chart.x(year * 12)} y={HEIGHT - 5} textAnchor="middle" className="fill-gray-400 text-[7px]">
+            {year}y
+          </text>
+        </g>
+      ))}
+
+      {/* Forecast before the weigh-ins, the fitted trend and the recalibrated projection */}
+      {chart.previous && (
+        <path d={chart.previous} fill="none" className="stroke-gray-400" strokeWidth={1} strokeDasharray="3 2" />
+      )}
+      {chart.fitted && <path d={chart.fitted} fill="none" className="stroke-amber-500" strokeWidth={1} />}
+      {chart.projection && <path d={chart.projection} fill="none" className="stroke-amber-900" strokeWidth={1} />}
+
+      {/* Weigh-ins */}
+      {calibration.observations.map(o => (
+        <circle key={`${o.date}-${o.weightKg}`} cx={chart.x(o.ageMonths)} cy={chart.y(o.weightKg)} r={2} className="fill-amber-600">
+          <title>{`${o.date}: ${o.weightKg}kg`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
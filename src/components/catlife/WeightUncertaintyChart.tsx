@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { EnsemblePoint, SimulationPoint } from "@/types/catlife";
+
+interface WeightUncertaintyChartProps {
+  ensemble: EnsemblePoint[];
+  run?: SimulationPoint[]; // The single run shown on the timeline, drawn over the band
+  currentAgeMonths: number;
+  idealWeight?: { min: number; max: number };
+}
+
+const WIDTH = 300;
+const HEIGHT = 110;
+const PADDING = { top: 8, right: 8, bottom: 16, left: 26 };
+
+export function WeightUncertaintyChart({
+  ensemble,
+  run,
+  currentAgeMonths,
+  idealWeight,
+}: WeightUncertaintyChartProps) {
+  const chart = useMemo(() => {
+    if (ensemble.length < 2) return null;
+
+    const minAge = ensemble[0].ageMonths;
+    const maxAge = ensemble[ensemble.length - 1].ageMonths;
+    const weights = [
+      ...ensemble.flatMap(p => [p.weightP10, p.weightP90]),
+      ...(run ?? []).map(p => p.weightKgEstimate),
+      ...(idealWeight ? [idealWeight.min, idealWeight.max] : []),
+    ];
+    const minWeight = Math.max(0, Math.floor(Math.min(...weights) - 0.5));
+    const maxWeight = Math.ceil(Math.max(...weights) + 0.5);
+
+    const x = (ageMonths: number) =>
+      PADDING.left + ((ageMonths - minAge) / Math.max(1, maxAge - minAge)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (weightKg: number) =>
+      PADDING.top + (1 - (weightKg - minWeight) / (maxWeight - minWeight)) * (HEIGHT - PADDING.top - PADDING.bottom);
+    const line = (points: { ageMonths: number; weight: number }[]) =>
+      points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.ageMonths).toFixed(1)},${y(p.weight).toFixed(1)}`).join(" ");
+
+    const upper = ensemble.map(p => ({ ageMonths: p.ageMonths, weight: p.weightP90 }));
+    const lower = ensemble.map(p => ({ ageMonths: p.ageMonths, weight: p.weightP10 })).reverse();
+
+    // Whole-year gridlines, thinned out so labels don't collide
+    const firstYear = Math.ceil(minAge / 12);
+    const lastYear = Math.floor(maxAge / 12);
+    const yearStep = lastYear - firstYear > 10 ? 5 : 2;
+    const yearTicks: number[] = [];
+    for (let year = firstYear; year <= lastYear; year++) {
+      if (year % yearStep === 0) yearTicks.push(year);
+    }
+
+    return {
+      x,
+      y,
+      minAge,
+      maxAge,
+      minWeight,
+      maxWeight,
+      yearTicks,
+      band: `${line(upper)} ${line(lower).replace(/^M/, "L")} Z`,
+      median: line(ensemble.map(p => ({ ageMonths: p.ageMonths, weight: p.weightP50 }))),
+      run: run && run.length > 1 ? line(run.map(p => ({ ageMonths: p.ageMonths, weight: p.weightKgEstimate }))) : null,
+    };
+  }, [ensemble, run, idealWeight]);
+
+  if (!chart) return null;
+
+  const markerAge = Math.min(Math.max(currentAgeMonths, chart.minAge), chart.maxAge);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Projected weight range by age">
+      {/* Ideal weight */}
+      {idealWeight && (
+        <rect
+          x={PADDING.left}
+          y={chart.y(idealWeight.max)}
+          width={WIDTH - PADDING.left - PADDING.right}
+          height={Math.max(0, chart.y(idealWeight.min) - chart.y(idealWeight.max))}
+          className="fill-green-100"
+        />
+      )}
+
+      {/* Axes */}
+      {[chart.minWeight, chart.maxWeight].map(weight => (
+        <text key={weight} x={PADDING.left - 3} y={chart.y(weight) + 3} textAnchor="end" className="fill-gray-400 text-[7px]">
+          {weight}kg
+        </text>
+      ))}
+      {chart.yearTicks.map(year => (
+        <g key={year}>
+          <line
+            x1={chart.x(year * 12)}
+            x2={chart.x(year * 12)}
+            y1={PADDING.top}
+            y2={HEIGHT - PADDING.bottom}
+            className="stroke-gray-100"
+            strokeWidth={0.5}
+          />
+          <text x={chart.x(year * 12)} y={HEIGHT - 5} textAnchor="middle" className="fill-gray-400 text-[7px]">
+            {year}y
+          </text>
+        </g>
+      ))}
+
+      {/* 10th-90th percentile band, median and the single run */}
+      <path d={chart.band} className="fill-amber-300/40" />
+      <path d={chart.median} fill="none" className="stroke-amber-600" strokeWidth={1} strokeDasharray="3 2" />
+      {chart.run && <path d={chart.run} fill="none" className="stroke-amber-900" strokeWidth={0.75} opacity={0.6} />}
+
+      {/* Current age */}
+      <line
+        x1={chart.x(markerAge)}
+        x2={chart.x(markerAge)}
+        y1={PADDING.top}
+        y2={HEIGHT - PADDING.bottom}
+        className="stroke-amber-500"
+        strokeWidth={1}
+      />
+    </svg>
+  );
+}
@@ -4,6 +4,8 @@ export { PhotoUpload } from "./PhotoUpload";
 export { PixelAvatar } from "./PixelAvatar";
 export { SimulationTimeline } from "./SimulationTimeline";
 export { ReminderSetup } from "./ReminderSetup";
+export { ReminderPreferences } from "./ReminderPreferences";
+export { ReminderConfirmation } from "./ReminderConfirmation";
 export { ModeSelector } from "./ModeSelector";
 export { MultiPhotoUpload } from "./MultiPhotoUpload";
 export { QuickSetupForm } from "./QuickSetupForm";
@@ -0,0 +1,9 @@
+// Next.js server startup hook
+// Starts the in-process reminder worker when CATLIFE_REMINDER_WORKER=in-process
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.CATLIFE_REMINDER_WORKER === "in-process") {
+    const { startReminderWorker } = await import("@/lib/catlife/reminder-scheduler");
+    startReminderWorker();
+  }
+}
@@ -0,0 +1,79 @@
+// CatLife - Coat color tests
+// Free-text coat descriptions to palettes, and the fallbacks when there's no description
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PhotoAnalysis } from "@/types/catlife";
+import { buildCatColors, parseCoatDescription, resolveCatColors } from "../coat-colors";
+
+describe("parseCoatDescription", () => {
+  it("reads colors in order of mention with their pattern", () => {
+    assert.deepEqual(parseCoatDescription("gray and white tuxedo"), {
+      colors: ["gray"],
+      pattern: "tuxedo",
+      hasWhite: true,
+      eyeColor: null,
+      tone: null,
+    });
+    assert.deepEqual(parseCoatDescription("black smoke")?.colors, ["black"]);
+    assert.equal(parseCoatDescription("black smoke")?.pattern, "smoke");
+  });
+
+  it("fills in the usual color for a pattern named alone", () => {
+    assert.deepEqual(parseCoatDescription("seal point")?.colors, ["seal"]);
+    assert.deepEqual(parseCoatDescription("calico")?.colors, ["orange", "black"]);
+  });
+
+  it("dilutes colors", () => {
+    assert.deepEqual(parseCoatDescription("dilute calico")?.colors, ["cream", "blue"]);
+  });
+
+  it("treats a warm and a cool color without a pattern word as a tortie", () => {
+    assert.equal(parseCoatDescription("black and orange")?.pattern, "tortoiseshell");
+    assert.equal(parseCoatDescription("black, orange and white")?.pattern, "calico");
+  });
+
+  it("keeps eye colors out of the fur", () => {
+    const coat = parseCoatDescription("solid black with gold eyes");
+    assert.deepEqual(coat?.colors, ["black"]);
+    assert.equal(coat?.eyeColor, "#E0A526");
+  });
+
+  it("returns null without a color or pattern word", () => {
+    assert.equal(parseCoatDescription("very fluffy and friendly"), null);
+  });
+});
+
+describe("buildCatColors", () => {
+  it("keeps a colorpoint body pale with the named color on the points", () => {
+    const colors = buildCatColors(parseCoatDescription("seal point")!);
+    assert.equal(colors.primaryFur, "#F3E5CF");
+    assert.equal(colors.stripeColor, "#4A3426");
+    assert.equal(colors.eyeColor, "#4FA3E0");
+  });
+
+  it("darkens the nose and ears of dark cats", () => {
+    assert.equal(buildCatColors(parseCoatDescription("solid black")!).noseColor, "#5B4A4A");
+    assert.equal(buildCatColors(parseCoatDescription("orange tabby")!).noseColor, "#E8A0A0");
+  });
+});
+
+describe("resolveCatColors", () => {
+  it("prefers the description, then the photo, then the breed", () => {
+    const photo: PhotoAnalysis = {
+      photoBodyCondition: "ideal",
+      photoComment: "",
+      photoConfidence: 0.8,
+      estimatedColor: "orange",
+      estimatedPattern: "tabby",
+    };
+    assert.equal(resolveCatColors({ breed: "Siamese" }, photo, "black smoke").description, "black smoke");
+    assert.equal(resolveCatColors({ breed: "Siamese" }, photo).description, "orange tabby");
+    assert.equal(resolveCatColors({ breed: "Siamese" }).description, "seal point, blue eyes");
+  });
+
+  it("picks the same common coat for the same cat every time", () => {
+    const first = resolveCatColors({ name: "Mochi", breed: "Domestic Shorthair" });
+    assert.deepEqual(resolveCatColors({ name: "Mochi", breed: "Domestic Shorthair" }), first);
+  });
+});
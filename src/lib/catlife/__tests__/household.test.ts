@@ -0,0 +1,41 @@
+// CatLife - Household simulation tests
+// Cats that move in later: their timeline and their pull on the shared bowls start when they arrive
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_CAT_PROFILE, DEFAULT_CARE_ROUTINE, type CareRoutine, type Household } from "@/types/catlife";
+import { simulateHousehold } from "../household";
+
+const freeFed: CareRoutine = { ...DEFAULT_CARE_ROUTINE, foodType: "dry", foodAmountOzPerDay: 3, feedingFrequency: 4 };
+
+function household(joinsInMonths: number): Household {
+  return {
+    litterBoxes: 3,
+    cats: [
+      { catProfile: { ...DEFAULT_CAT_PROFILE, name: "Tank", ageYears: 4, weightKg: 6 }, careRoutine: freeFed },
+      {
+        catProfile: { ...DEFAULT_CAT_PROFILE, name: "Pip", ageYears: 2, weightKg: 4 },
+        careRoutine: { ...freeFed, foodAmountOzPerDay: 2.5 },
+        joinsInMonths,
+      },
+    ],
+  };
+}
+
+describe("simulateHousehold", () => {
+  it("starts a late arrival's timeline at the age it moves in", () => {
+    const result = simulateHousehold(household(12), { seed: 7 });
+    const pip = result.cats[1];
+    assert.equal(pip.points[0].ageMonths, 36);
+    assert.equal(pip.foodShare, 0.92);
+  });
+
+  it("leaves the bowls to the resident cats until the newcomer arrives", () => {
+    const early = simulateHousehold(household(12), { seed: 7 }).cats[0].points;
+    const late = simulateHousehold(household(24), { seed: 7 }).cats[0].points;
+
+    const beforeArrival = (points: typeof early) => points.filter(p => p.ageMonths < 48 + 12);
+    assert.deepEqual(beforeArrival(early), beforeArrival(late));
+    assert.notDeepEqual(early, late);
+  });
+});
@@ -0,0 +1,72 @@
+// CatLife - Intake engine tests
+// Multi-turn exchanges through the rule-based coach, applying each turn's updates like the chat UI does
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CareRoutine, CatProfile, ChatMessage, ChatResponse } from "@/types/catlife";
+import { runRuleBasedIntake } from "../intake-engine";
+
+interface Conversation {
+  catProfile: Partial<CatProfile>;
+  careRoutine: Partial<CareRoutine>;
+  messages: ChatMessage[];
+}
+
+/** Send one user message and fold the reply and its updates into the conversation */
+function say(conversation: Conversation, content: string): ChatResponse {
+  conversation.messages.push({ role: "user", content });
+  const response = runRuleBasedIntake(conversation);
+  for (const [key, data] of Object.entries(response.updates.catProfile ?? {})) {
+    conversation.catProfile = { ...conversation.catProfile, [key]: data.value };
+  }
+  for (const [key, data] of Object.entries(response.updates.careRoutine ?? {})) {
+    conversation.careRoutine = { ...conversation.careRoutine, [key]: data.value };
+  }
+  conversation.messages.push({ role: "assistant", content: response.assistantMessage });
+  return response;
+}
+
+/** An adult cat whose profile is filled in up to the weight question */
+function atWeightQuestion(catProfile: Partial<CatProfile>): Conversation {
+  return {
+    catProfile: { sex: "male", neutered: true, indoorOutdoor: "indoor", ...catProfile },
+    careRoutine: {},
+    messages: [
+      { role: "assistant", content: `About how much does ${catProfile.name} weigh? Pounds or kilograms both work.` },
+    ],
+  };
+}
+
+describe("weight clarification", () => {
+  it("re-asks instead of reading a food measure as the weight", () => {
+    const chat = atWeightQuestion({ name: "Bruno", breed: "Maine Coon", ageYears: 4, ageMonths: 0 });
+
+    const bare = say(chat, "14");
+    assert.equal(bare.nextAction, "ask_clarification");
+    assert.equal(chat.catProfile.weightKg, 6.4);
+
+    const misread = say(chat, "half a cup of kibble");
+    assert.equal(misread.nextAction, "ask_clarification");
+    assert.match(misread.assistantMessage, /Bruno's weight: 6\.4 kg/);
+    assert.deepEqual(misread.updates, {});
+    assert.equal(chat.catProfile.weightKg, 6.4);
+
+    const confirmed = say(chat, "yes");
+    assert.equal(confirmed.nextAction, "ask_question");
+    assert.match(confirmed.assistantMessage, /dry kibble, wet food/);
+    assert.equal(chat.careRoutine.foodAmountOzPerDay, undefined);
+  });
+
+  it("only takes a bare number that fits the cat's breed and age", () => {
+    const adult = atWeightQuestion({ name: "Bruno", breed: "Maine Coon", ageYears: 4, ageMonths: 0 });
+    assert.equal(say(adult, "2").updates.catProfile?.weightKg, undefined);
+
+    const kitten = atWeightQuestion({ name: "Pip", breed: "Domestic Shorthair", ageYears: 0, ageMonths: 3 });
+    assert.equal(say(kitten, "1.5").updates.catProfile?.weightKg?.value, 1.5);
+  });
+
+  it("still takes a weight with units outside the usual range", () => {
+    const chat = atWeightQuestion({ name: "Bruno", breed: "Maine Coon", ageYears: 4, ageMonths: 0 });
+    assert.equal(say(chat, "he's 3 kg after being sick").updates.catProfile?.weightKg?.value, 3);
+  });
+});
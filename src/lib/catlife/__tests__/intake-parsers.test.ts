@@ -0,0 +1,108 @@
+// CatLife - Intake parser tests
+// Edge cases of the free-text parsers: units, ranges, number words and answers that must not parse
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseAge,
+  parseFeedingFrequency,
+  parseFoodAmount,
+  parseName,
+  parseNeutered,
+  parsePlayMinutes,
+  parseTreats,
+  parseVetVisits,
+  parseWeight,
+} from "../intake-parsers";
+
+describe("parseName", () => {
+  it("reads explicit and bare names", () => {
+    assert.equal(parseName("Her name is Mochi", "strict")?.value, "Mochi");
+    assert.equal(parseName("mochi", "pending")?.value, "Mochi");
+  });
+
+  it("ignores bare words outside the name question", () => {
+    assert.equal(parseName("mochi", "strict"), null);
+  });
+});
+
+describe("parseAge", () => {
+  it("combines years, half years and months", () => {
+    assert.deepEqual(parseAge("2 and a half years old", "strict")?.value, { ageYears: 2, ageMonths: 6 });
+    assert.deepEqual(parseAge("18 months", "pending")?.value, { ageYears: 1, ageMonths: 6 });
+  });
+
+  it("doesn't read visit or feeding counts as an age", () => {
+    assert.equal(parseAge("we go to the vet every 6 months", "strict"), null);
+    assert.equal(parseAge("twice a year", "strict"), null);
+  });
+
+  it("maps life stages and rejects impossible bare ages", () => {
+    assert.deepEqual(parseAge("she's a senior", "pending")?.value, { ageYears: 12, ageMonths: 0 });
+    assert.equal(parseAge("45", "pending"), null);
+  });
+});
+
+describe("parseWeight", () => {
+  it("converts pounds and averages ranges", () => {
+    assert.equal(parseWeight("about 10 lbs", "strict")?.value.weightKg, 4.5);
+    assert.equal(parseWeight("4-5 kg", "strict")?.value.weightKg, 4.5);
+  });
+
+  it("gives ranges and hedged answers less confidence than exact ones", () => {
+    const exact = parseWeight("4.5 kg", "strict")!;
+    assert.ok(parseWeight("4-5 kg", "strict")!.confidence < exact.confidence);
+    assert.ok(parseWeight("about 4.5 kg", "strict")!.confidence < exact.confidence);
+  });
+
+  it("treats large bare numbers as pounds and rejects implausible weights", () => {
+    assert.equal(parseWeight("11", "pending")?.value.weightKg, 5);
+    assert.equal(parseWeight("40 kg", "strict"), null);
+  });
+
+  it("notes a vet-measured weight", () => {
+    assert.equal(parseWeight("the vet said 4.2 kg", "strict")?.value.weightSource, "vet_recent");
+  });
+});
+
+describe("parseFoodAmount", () => {
+  it("reads cans, grams and cups", () => {
+    assert.equal(parseFoodAmount("two 3 oz cans", "strict")?.value, 6);
+    assert.equal(parseFoodAmount("80g", "strict")?.value, 2.8);
+    assert.equal(parseFoodAmount("half a cup of kibble", "strict")?.value, 2.3);
+  });
+
+  it("multiplies per-meal amounts by meals, but not for free feeding", () => {
+    assert.equal(parseFoodAmount("2 oz per meal", "strict", 2)?.value, 4);
+    assert.equal(parseFoodAmount("2 oz per meal", "strict", 4)?.value, 2);
+  });
+});
+
+describe("parseFeedingFrequency", () => {
+  it("maps free feeding to 4", () => {
+    assert.equal(parseFeedingFrequency("she's free fed", "strict")?.value, 4);
+    assert.equal(parseFeedingFrequency("the bowl is always full", "strict")?.value, 4);
+  });
+
+  it("counts meals without confusing weekly or yearly counts", () => {
+    assert.equal(parseFeedingFrequency("twice a day", "strict")?.value, 2);
+    assert.equal(parseFeedingFrequency("3 meals", "strict")?.value, 3);
+    assert.equal(parseFeedingFrequency("twice a week", "strict"), null);
+  });
+});
+
+describe("routine answers", () => {
+  it("reads treats, play and vet visits", () => {
+    assert.equal(parseTreats("no treats", "strict")?.value, 0);
+    assert.equal(parseTreats("a handful of treats", "strict")?.value, 5);
+    assert.equal(parsePlayMinutes("half an hour", "strict")?.value, 30);
+    assert.equal(parsePlayMinutes("10-20 minutes", "strict")?.value, 15);
+    assert.equal(parseVetVisits("every 6 months", "pending")?.value, 2);
+    assert.equal(parseVetVisits("only when sick", "pending")?.value, 0);
+  });
+
+  it("handles negated neuter answers", () => {
+    assert.equal(parseNeutered("he's not neutered yet", "strict")?.value, false);
+    assert.equal(parseNeutered("spayed", "strict")?.value, true);
+  });
+});
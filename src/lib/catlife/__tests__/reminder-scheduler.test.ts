@@ -0,0 +1,246 @@
+// CatLife - Reminder scheduler tests
+// Due calculation and dispatch against a temp-file store, a fake clock and a fake sender
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { ReminderChannel } from "@/types/catlife";
+import { getDueReminders, runReminderTick, zonedTimeToUtc, type ReminderSender } from "../reminder-scheduler";
+import { createFileReminderStore, type ReminderStore, type StoredReminder } from "../reminder-store";
+
+// ============================================
+// FIXTURES
+// ============================================
+
+function reminder(overrides: Partial<StoredReminder> = {}): StoredReminder {
+  return {
+    id: "r1",
+    catName: "Mochi",
+    contactType: "email",
+    contactValue: "owner@example.com",
+    channels: { feed: true, play: false, litter: false, vet: false },
+    schedule: { feedTimes: ["08:00", "18:00"] },
+    timezone: "UTC",
+    enabled: true,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function clockAt(iso: string) {
+  return { now: () => new Date(iso) };
+}
+
+/** Records every send; fails the channels listed in `failing` */
+function fakeSender(failing: ReminderChannel[] = []) {
+  const sent: string[] = [];
+  const send: ReminderSender = async (settings, channel) => {
+    if (failing.includes(channel)) return { success: false, channel: settings.contactType, error: "provider down" };
+    sent.push(`${settings.catName}:${channel}`);
+    return { success: true, channel: settings.contactType };
+  };
+  return { send, sent };
+}
+
+let dir: string;
+let fileCount = 0;
+
+/** A fresh store file holding the given reminders */
+async function storeWith(...reminders: StoredReminder[]) {
+  const filePath = path.join(dir, `reminders-${++fileCount}.json`);
+  await writeFile(filePath, JSON.stringify(reminders), "utf8");
+  return createFileReminderStore(filePath);
+}
+
+/** Tick every `everyMinutes` from `fromIso` to `toIso`, as cron would */
+async function tickThrough(
+  options: { store: ReminderStore; send: ReminderSender },
+  fromIso: string,
+  toIso: string,
+  everyMinutes = 15
+) {
+  const end = new Date(toIso).getTime();
+  for (let now = new Date(fromIso).getTime(); now <= end; now += everyMinutes * 60_000) {
+    await runReminderTick({ ...options, clock: { now: () => new Date(now) } });
+  }
+}
+
+before(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "catlife-reminders-"));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// ============================================
+// DUE CALCULATION
+// ============================================
+
+describe("getDueReminders", () => {
+  it("sends nothing for a disabled reminder", () => {
+    assert.deepEqual(getDueReminders(reminder({ enabled: false }), new Date("2026-05-01T08:05:00Z")), []);
+  });
+
+  it("converts slots from the subscriber's timezone", () => {
+    const tokyo = reminder({ timezone: "Asia/Tokyo" });
+    assert.deepEqual(getDueReminders(tokyo, new Date("2026-05-01T23:10:00Z")), [
+      { channel: "feed", slot: new Date("2026-05-01T23:00:00Z") },
+    ]);
+  });
+
+  it("collapses missed slots to the latest one", () => {
+    const due = getDueReminders(reminder(), new Date("2026-05-01T18:30:00Z"), 24 * 60);
+    assert.deepEqual(due, [{ channel: "feed", slot: new Date("2026-05-01T18:00:00Z") }]);
+  });
+
+  it("skips daily slots older than the catch-up window", () => {
+    assert.equal(getDueReminders(reminder(), new Date("2026-05-01T10:01:00Z")).length, 0);
+    assert.equal(getDueReminders(reminder(), new Date("2026-05-01T10:01:00Z"), 180).length, 1);
+  });
+
+  it("skips a slot already sent", () => {
+    const sent = reminder({ lastSentByChannel: { feed: new Date("2026-05-01T08:00:00Z") } });
+    assert.deepEqual(getDueReminders(sent, new Date("2026-05-01T08:30:00Z")), []);
+  });
+
+  it("counts vet reminders in months from sign-up, clamping short months", () => {
+    const vet = reminder({
+      channels: { feed: false, play: false, litter: false, vet: true },
+      schedule: { vetIntervalMonths: 1 },
+      createdAt: new Date("2026-01-31T12:00:00Z"),
+    });
+    assert.deepEqual(getDueReminders(vet, new Date("2026-03-01T00:00:00Z")), [
+      { channel: "vet", slot: new Date("2026-02-28T10:00:00Z") },
+    ]);
+  });
+
+  it("falls back to UTC for an unknown timezone", () => {
+    const due = getDueReminders(reminder({ timezone: "Mars/Olympus" }), new Date("2026-05-01T08:05:00Z"));
+    assert.deepEqual(due, [{ channel: "feed", slot: new Date("2026-05-01T08:00:00Z") }]);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("applies the offset in force on that date", () => {
+    const winter = zonedTimeToUtc({ year: 2026, month: 1, day: 15 }, "08:00", "America/New_York");
+    const summer = zonedTimeToUtc({ year: 2026, month: 7, day: 15 }, "08:00", "America/New_York");
+    assert.equal(winter.toISOString(), "2026-01-15T13:00:00.000Z");
+    assert.equal(summer.toISOString(), "2026-07-15T12:00:00.000Z");
+  });
+});
+
+// ============================================
+// DISPATCH
+// ============================================
+
+describe("runReminderTick", () => {
+  it("sends a due reminder and records it", async () => {
+    const store = await storeWith(reminder());
+    const { send, sent } = fakeSender();
+
+    const result = await runReminderTick({ store, send, clock: clockAt("2026-05-01T08:05:00Z") });
+
+    assert.deepEqual(sent, ["Mochi:feed"]);
+    assert.equal(result.sent.length, 1);
+    const stored = await store.get("r1");
+    assert.deepEqual(stored?.lastSentByChannel?.feed, new Date("2026-05-01T08:00:00Z"));
+    assert.deepEqual(stored?.lastSentAt, new Date("2026-05-01T08:05:00Z"));
+  });
+
+  it("reports without sending on a dry run", async () => {
+    const store = await storeWith(reminder());
+    const { send, sent } = fakeSender();
+
+    const result = await runReminderTick({ store, send, clock: clockAt("2026-05-01T08:05:00Z"), dryRun: true });
+
+    assert.equal(result.due.length, 1);
+    assert.deepEqual(sent, []);
+    assert.equal((await store.get("r1"))?.lastSentByChannel, undefined);
+  });
+
+  it("releases the claim when a send fails so the next tick retries", async () => {
+    const store = await storeWith(reminder());
+    const clock = clockAt("2026-05-01T08:05:00Z");
+
+    const failed = await runReminderTick({ store, clock, send: fakeSender(["feed"]).send });
+    assert.equal(failed.failed[0]?.error, "provider down");
+    assert.equal((await store.get("r1"))?.lastSentByChannel?.feed, undefined);
+
+    const { send, sent } = fakeSender();
+    await runReminderTick({ store, clock, send });
+    assert.deepEqual(sent, ["Mochi:feed"]);
+  });
+});
+
+// ============================================
+// DAYLIGHT SAVING
+// ============================================
+
+describe("daylight saving changes", () => {
+  const newYork = (feedTime: string) => reminder({ timezone: "America/New_York", schedule: { feedTimes: [feedTime] } });
+
+  it("sends a slot skipped by spring-forward once, just after the gap", async () => {
+    // 2026-03-08: New York clocks jump from 02:00 EST to 03:00 EDT, so 02:30 never happens
+    const store = await storeWith(newYork("02:30"));
+    const { send, sent } = fakeSender();
+
+    await tickThrough({ store, send }, "2026-03-08T05:00:00Z", "2026-03-08T12:00:00Z");
+
+    assert.deepEqual(sent, ["Mochi:feed"]);
+    assert.deepEqual((await store.get("r1"))?.lastSentByChannel?.feed, new Date("2026-03-08T07:30:00Z"));
+  });
+
+  it("sends a slot repeated by fall-back once, at its first occurrence", async () => {
+    // 2026-11-01: New York clocks fall back from 02:00 EDT to 01:00 EST, so 01:30 happens twice
+    const store = await storeWith(newYork("01:30"));
+    const { send, sent } = fakeSender();
+
+    await tickThrough({ store, send }, "2026-11-01T04:00:00Z", "2026-11-01T10:00:00Z");
+
+    assert.deepEqual(sent, ["Mochi:feed"]);
+    assert.deepEqual((await store.get("r1"))?.lastSentByChannel?.feed, new Date("2026-11-01T05:30:00Z"));
+  });
+
+  it("keeps the local time on the days after a change", async () => {
+    const store = await storeWith(newYork("08:00"));
+    const { send, sent } = fakeSender();
+
+    await tickThrough({ store, send }, "2026-03-07T12:00:00Z", "2026-03-09T14:00:00Z", 60);
+
+    assert.equal(sent.length, 3);
+    assert.deepEqual((await store.get("r1"))?.lastSentByChannel?.feed, new Date("2026-03-09T12:00:00Z"));
+  });
+});
+
+// ============================================
+// SEND ONCE
+// ============================================
+
+describe("send-once guarantee", () => {
+  it("doesn't resend when the same minute is ticked again", async () => {
+    const store = await storeWith(reminder());
+    const { send, sent } = fakeSender();
+
+    await tickThrough({ store, send }, "2026-05-01T08:00:00Z", "2026-05-01T10:00:00Z", 1);
+
+    assert.deepEqual(sent, ["Mochi:feed"]);
+  });
+
+  it("sends once when overlapping ticks in separate processes share the file", async () => {
+    const filePath = path.join(dir, "shared.json");
+    await writeFile(filePath, JSON.stringify([reminder({ channels: { feed: true, play: true, litter: true, vet: false } })]), "utf8");
+    const { send, sent } = fakeSender();
+    const clock = clockAt("2026-05-01T19:05:00Z");
+
+    // Each store stands in for a separate process: only the lock file is shared
+    await Promise.all(
+      Array.from({ length: 4 }, () => runReminderTick({ store: createFileReminderStore(filePath), send, clock }))
+    );
+
+    assert.deepEqual(sent.sort(), ["Mochi:feed", "Mochi:litter", "Mochi:play"]);
+  });
+});
@@ -0,0 +1,103 @@
+// CatLife - Reminder store tests
+// The file lock that serializes writes between processes sharing one store file,
+// and pending changes that only apply once the contact confirms them
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { access, mkdtemp, rm, utimes, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { createFileReminderStore } from "../reminder-store";
+
+const request = (catName: string) => ({
+  catName,
+  contactType: "email" as const,
+  contactValue: "owner@example.com",
+  channels: { feed: true, play: false, litter: false, vet: false },
+});
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "catlife-store-"));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("file reminder store", () => {
+  it("keeps every write when separate stores share a file", async () => {
+    const filePath = path.join(dir, "concurrent.json");
+    const names = Array.from({ length: 8 }, (_, i) => `Cat ${i}`);
+
+    // Separate store instances don't share the in-process queue, only the lock file
+    await Promise.all(names.map(name => createFileReminderStore(filePath).upsert(request(name))));
+
+    const stored = await createFileReminderStore(filePath).list();
+    assert.deepEqual(stored.map(r => r.catName).sort(), names);
+    await assert.rejects(access(`${filePath}.lock`), "lock file left behind");
+  });
+
+  it("claims a slot for only one of several stores", async () => {
+    const filePath = path.join(dir, "claims.json");
+    const { reminder } = await createFileReminderStore(filePath).upsert(request("Mochi"));
+    const slot = new Date("2026-05-01T08:00:00Z");
+
+    const claims = await Promise.all(
+      Array.from({ length: 5 }, () => createFileReminderStore(filePath).claimSendSlot(reminder.id, "feed", slot))
+    );
+
+    assert.equal(claims.filter(Boolean).length, 1);
+  });
+
+  it("waits for a held lock, then breaks it once stale", async () => {
+    const filePath = path.join(dir, "stale.json");
+    const lockPath = `${filePath}.lock`;
+    await writeFile(lockPath, "99999", "utf8");
+    const store = createFileReminderStore(filePath);
+
+    let done = false;
+    const pending = store.upsert(request("Mochi")).then(() => (done = true));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(done, false);
+
+    // Age the lock as if its holder had crashed a minute ago
+    const minuteAgo = new Date(Date.now() - 60_000);
+    await utimes(lockPath, minuteAgo, minuteAgo);
+    await pending;
+
+    assert.equal((await store.list()).length, 1);
+  });
+});
+
+describe("pending changes", () => {
+  it("creates reminders switched off until the setup is confirmed", async () => {
+    const store = createFileReminderStore(path.join(dir, "setup.json"));
+    const { reminder, created } = await store.upsert(request("Mochi"));
+    assert.equal(created, true);
+    assert.equal(reminder.enabled, false);
+    assert.ok(reminder.pendingChange);
+
+    const confirmed = await store.applyPendingChange(reminder.id, reminder.pendingChange.requestedAt);
+    assert.equal(confirmed?.enabled, true);
+    assert.equal(confirmed?.pendingChange, undefined);
+  });
+
+  it("moves to a new contact only once confirmed, and not from a replaced request", async () => {
+    const store = createFileReminderStore(path.join(dir, "contact.json"));
+    const { reminder } = await store.upsert(request("Mochi"));
+    await store.applyPendingChange(reminder.id, reminder.pendingChange!.requestedAt);
+
+    const first = await store.requestContactChange(reminder.id, "email", "first@example.com");
+    const stale = first!.pendingChange!.requestedAt;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await store.requestContactChange(reminder.id, "email", "second@example.com");
+    assert.equal(second?.contactValue, "owner@example.com");
+
+    assert.equal(await store.applyPendingChange(reminder.id, stale), null);
+    const moved = await store.applyPendingChange(reminder.id, second!.pendingChange!.requestedAt);
+    assert.equal(moved?.contactValue, "second@example.com");
+    assert.equal(moved?.enabled, true);
+  });
+});
@@ -0,0 +1,179 @@
+// CatLife - Simulation golden-seed tests
+// Fixed seeds must keep producing the same trajectories; a model change that moves them should update these on purpose
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_CAT_PROFILE, DEFAULT_CARE_ROUTINE, type CareRoutine, type CatProfile } from "@/types/catlife";
+import { runSimulation } from "../simulation";
+import { getProgressiveRoutineSchedule } from "../simulation-enhancer";
+import { runEnsemble } from "../simulation-ensemble";
+
+const mochi: CatProfile = {
+  ...DEFAULT_CAT_PROFILE,
+  name: "Mochi",
+  ageYears: 3,
+  ageMonths: 0,
+  sex: "female",
+  neutered: true,
+  breed: "Domestic Shorthair",
+  indoorOutdoor: "indoor",
+  weightKg: 4.5,
+};
+
+const mochiRoutine: CareRoutine = {
+  ...DEFAULT_CARE_ROUTINE,
+  foodType: "dry",
+  foodAmountOzPerDay: 2.5,
+  feedingFrequency: 2,
+  treatsPerDay: 2,
+  playMinutesPerDay: 15,
+  vetVisitsPerYear: 1,
+  litterCleaningFrequency: "daily",
+};
+
+const tank: CatProfile = { ...mochi, name: "Tank", ageYears: 5, sex: "male", weightKg: 7 };
+
+const tankRoutine: CareRoutine = {
+  ...mochiRoutine,
+  foodAmountOzPerDay: 4,
+  feedingFrequency: 4,
+  treatsPerDay: 8,
+  playMinutesPerDay: 5,
+  vetVisitsPerYear: 0,
+  litterCleaningFrequency: "weekly",
+};
+
+function pointAt(points: { ageMonths: number }[], ageMonths: number) {
+  const point = points.find(p => p.ageMonths === ageMonths);
+  assert.ok(point, `no point at ${ageMonths} months`);
+  return point;
+}
+
+describe("runSimulation", () => {
+  it("replays a healthy cat exactly from its seed", () => {
+    const result = runSimulation({ catProfile: mochi, careRoutine: mochiRoutine, startAgeMonths: 36, seed: 42 });
+
+    assert.equal(result.seed, 42);
+    assert.equal(result.points.length, 253);
+    assert.equal(result.points[result.points.length - 1].ageMonths, 288);
+    assert.deepEqual(
+      [36, 60, 120, 180].map(age => {
+        const point = result.points.find(p => p.ageMonths === age)!;
+        return [point.weightKgEstimate, point.healthStatus];
+      }),
+      [[4.51, "thriving"], [4.46, "thriving"], [5.05, "thriving"], [4.81, "thriving"]]
+    );
+    assert.deepEqual(result.alerts.map(a => a.id), ["milestone-84", "milestone-120", "milestone-180"]);
+  });
+
+  it("replays an at-risk cat's weight gain and alerts", () => {
+    const result = runSimulation({ catProfile: tank, careRoutine: tankRoutine, startAgeMonths: 60, seed: 7 });
+
+    assert.deepEqual(
+      [60, 96, 120, 156].map(age => {
+        const point = result.points.find(p => p.ageMonths === age)!;
+        return [point.weightKgEstimate, point.healthStatus];
+      }),
+      [[7.2, "unhealthy"], [9.11, "unhealthy"], [9.11, "unhealthy"], [9.15, "unhealthy"]]
+    );
+    assert.deepEqual(result.alerts.map(a => a.id), [
+      "urinary-male-60",
+      "litter-60",
+      "free-feeding-60",
+      "alert-unhealthy-60",
+      "alert-weight-60",
+      "milestone-84",
+      "alert-vet-120",
+      "milestone-120",
+      "milestone-180",
+    ]);
+  });
+
+  it("gives identical results for the same seed and different ones for another", () => {
+    const config = { catProfile: mochi, careRoutine: mochiRoutine, startAgeMonths: 36 };
+    assert.deepEqual(runSimulation({ ...config, seed: 5 }), runSimulation({ ...config, seed: 5 }));
+    assert.notDeepEqual(runSimulation({ ...config, seed: 5 }).points, runSimulation({ ...config, seed: 6 }).points);
+  });
+
+  it("credits care plans only with months the cat is likely to live", () => {
+    // With no vet visits on record no month counts as thriving, so the plan's gain is the cat's whole outlook
+    const result = runSimulation({
+      catProfile: mochi,
+      careRoutine: DEFAULT_CARE_ROUTINE,
+      startAgeMonths: 36,
+      seed: 42,
+      includeCarePlans: true,
+    });
+    const plan = result.carePlans?.[result.carePlans.length - 1];
+    assert.ok(plan && result.survival);
+
+    assert.equal(plan.description, "See the vet once a year");
+    assert.equal(plan.thrivingMonthsGained, 150);
+    assert.ok(plan.thrivingMonthsGained < result.survival.medianLifespanMonths - 36);
+    assert.match(result.summary, /about 12\.5 more years thriving/);
+  });
+
+  it("only searches for care plans when asked", () => {
+    const config = { catProfile: tank, careRoutine: tankRoutine, startAgeMonths: 60, seed: 7 };
+    assert.equal(runSimulation(config).carePlans, undefined);
+    assert.ok((runSimulation({ ...config, includeCarePlans: true }).carePlans ?? []).length > 0);
+  });
+
+  it("lays points on the requested step grid", () => {
+    const config = { catProfile: tank, careRoutine: tankRoutine, startAgeMonths: 60, seed: 7 };
+
+    const weekly = runSimulation({ ...config, stepSize: "weekly", endAgeMonths: 72 });
+    assert.equal(pointAt(weekly.points, 72).ageMonths, 72); // 52 weeks land on a whole year
+    assert.equal(weekly.points[weekly.points.length - 1].ageMonths, 84); // at least two years ahead
+
+    const quarterly = runSimulation({ ...config, stepSize: "quarterly" });
+    assert.equal(quarterly.points[1].ageMonths, 63);
+  });
+
+  it("caps long weekly runs at the point limit", () => {
+    const result = runSimulation({
+      catProfile: { ...mochi, ageYears: 1 },
+      careRoutine: mochiRoutine,
+      startAgeMonths: 12,
+      endAgeMonths: 360,
+      stepSize: "weekly",
+      seed: 1,
+    });
+    assert.equal(result.points.length, 520);
+  });
+});
+
+describe("runEnsemble", () => {
+  it("replays the percentile band from its base seed", () => {
+    const ensemble = runEnsemble({ catProfile: mochi, careRoutine: mochiRoutine, startAgeMonths: 36, seed: 42 }, 20);
+
+    assert.equal(ensemble.runs, 20);
+    assert.equal(ensemble.seed, 42);
+    assert.equal(ensemble.points.length, 253);
+
+    const at60 = ensemble.points.find(p => p.ageMonths === 60)!;
+    assert.deepEqual([at60.weightP10, at60.weightP50, at60.weightP90], [4.47, 4.5, 4.52]);
+    const at120 = ensemble.points.find(p => p.ageMonths === 120)!;
+    assert.deepEqual([at120.weightP10, at120.weightP50, at120.weightP90], [5.04, 5.06, 5.07]);
+    assert.deepEqual(at120.statusProbabilities, { thriving: 1, ok: 0, risky: 0, unhealthy: 0 });
+  });
+
+  it("keeps every percentile band ordered", () => {
+    const ensemble = runEnsemble({ catProfile: tank, careRoutine: tankRoutine, startAgeMonths: 60, seed: 3 }, 10);
+    for (const point of ensemble.points) {
+      assert.ok(point.weightP10 <= point.weightP50 && point.weightP50 <= point.weightP90, `band out of order at ${point.ageMonths}`);
+    }
+  });
+});
+
+describe("getProgressiveRoutineSchedule", () => {
+  it("cuts a known food amount for senior food", () => {
+    const seniorFood = getProgressiveRoutineSchedule(mochi, mochiRoutine).find(c => c.label === "Switch to senior food");
+    assert.deepEqual(seniorFood?.careRoutine, { foodAmountOzPerDay: 2.25 });
+  });
+
+  it("leaves an unknown food amount unknown", () => {
+    const schedule = getProgressiveRoutineSchedule(mochi, { ...mochiRoutine, foodAmountOzPerDay: null });
+    assert.ok(schedule.every(change => !("foodAmountOzPerDay" in change.careRoutine)));
+  });
+});
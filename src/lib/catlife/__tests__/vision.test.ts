@@ -0,0 +1,29 @@
+// CatLife - Vision tests
+// The local pixel fallback and the body-condition mismatch check it feeds
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyMismatchCheck } from "../vision";
+import { analyzePixels } from "../vision-local";
+
+/** A white frame with a black square filling ~45% of it: the roundest, clearest silhouette */
+function squareCat(size = 100) {
+  const data = new Uint8Array(size * size * 4).fill(255);
+  for (let y = 17; y < 84; y++) {
+    for (let x = 17; x < 84; x++) {
+      data.set([0, 0, 0, 255], (y * size + x) * 4);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+describe("local vision fallback", () => {
+  it("never questions the owner from a silhouette alone", () => {
+    const analysis = analyzePixels(squareCat());
+    assert.equal(analysis.photoBodyCondition, "overweight");
+    assert.ok(analysis.photoConfidence < 0.4, `confidence ${analysis.photoConfidence}`);
+
+    const checked = applyMismatchCheck(analysis, { bodyCondition: "underweight" });
+    assert.equal(checked.mismatchDetected, false);
+  });
+});
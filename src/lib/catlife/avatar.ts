@@ -0,0 +1,204 @@
+// CatLife - Pixel Avatar Generator
+// Deterministic, offline pixel-art sprites built from the cat's profile and photo analysis
+
+import type { BodyCondition, CatColors, CatProfile, PhotoAnalysis } from "@/types/catlife";
+import { resolveCatColors, shadeColor } from "./coat-colors";
+import { createRandom, hashString } from "./random";
+
+// ============================================
+// TYPES
+// ============================================
+
+type BodyShape = "slim" | "normal" | "chubby";
+
+// ============================================
+// SPRITE TEMPLATES
+// ============================================
+// Legend:
+//   .  transparent     o  outline       f  fur
+//   i  inner ear       e  eye           k  pupil
+//   n  nose            m  muzzle        c  chest
+//   p  paw             t  tail
+
+const SPRITE_SIZE = 20;
+
+const HEAD_ROWS = [
+  "...o........o.......",
+  "..oio......oio......",
+  "..oiio....oiio......",
+  "..offfoooofffo......",
+  ".offffffffffffo.....",
+  ".offeeffffeeffo.....",
+  ".offekffffkeffo.....",
+  ".offffmnnmffffo.....",
+  ".offfmmoommfffo.....",
+  "..offmmmmmmffo......",
+];
+
+const BODY_ROWS: Record<BodyShape, string[]> = {
+  slim: [
+    "...offccccffo...o...",
+    "...offccccffo..oto..",
+    "...offccccffo..oto..",
+    "...offccccffo..oto..",
+    "...offccccffo..oto..",
+    "...offccccffo..oto..",
+    "...offccccffootto...",
+    "...oppoccoppoto.....",
+    "...oooooooooooo.....",
+    "....................",
+  ],
+  normal: [
+    "..offfccccfffo...o..",
+    "..offfccccfffo..oto.",
+    ".offffccccffffo.oto.",
+    ".offffccccffffo.oto.",
+    ".offffccccffffo.oto.",
+    ".offffccccffffootto.",
+    ".offffccccffffotto..",
+    ".opppoccccopppooo...",
+    ".oooooooooooooo.....",
+    "....................",
+  ],
+  chubby: [
+    "..offfccccfffo...o..",
+    ".offffccccffffo.oto.",
+    "offfffccccfffffooto.",
+    "offfffccccfffffooto.",
+    "offfffccccfffffooto.",
+    "offfffccccfffffotto.",
+    "offfffccccfffffotto.",
+    "oppppoccccoppppooo..",
+    "oooooooooooooooo....",
+    "....................",
+  ],
+};
+
+// ============================================
+// COLORS
+// ============================================
+
+const OUTLINE_COLOR = "#1F2937";
+const PUPIL_COLOR = "#111827";
+
+// ============================================
+// RENDERING
+// ============================================
+
+function getBodyShape(catProfile: Partial<CatProfile>, photoAnalysis?: PhotoAnalysis | null): BodyShape {
+  const condition: BodyCondition =
+    catProfile.bodyCondition && catProfile.bodyCondition !== "unknown"
+      ? catProfile.bodyCondition
+      : photoAnalysis?.photoBodyCondition ?? "ideal";
+  if (condition === "overweight") return "chubby";
+  if (condition === "underweight") return "slim";
+  return "normal";
+}
+
+/**
+ * Fill each template cell with a color according to the coat pattern
+ */
+function paintSprite(rows: string[], colors: CatColors, random: () => number): (string | null)[][] {
+  const stripeColor = colors.stripeColor ?? shadeColor(colors.primaryFur, 0.35);
+  const isCalico = colors.pattern === "calico";
+  const patchBase = isCalico ? colors.secondaryFur : colors.primaryFur;
+  const patchColors = isCalico
+    ? [colors.primaryFur, stripeColor]
+    : [stripeColor, shadeColor(stripeColor, 0.3)];
+
+  // Tortie/calico patches are seeded blobs so they stay put between renders
+  const patches = Array.from({ length: isCalico ? 4 : 7 }, (_, i) => ({
+    row: Math.floor(random() * SPRITE_SIZE),
+    col: Math.floor(random() * 16),
+    radius: 1.5 + random() * 2,
+    color: patchColors[i % patchColors.length],
+  }));
+  const patchAt = (row: number, col: number) =>
+    patches.find(p => (p.row - row) ** 2 + (p.col - col) ** 2 <= p.radius ** 2)?.color ?? null;
+
+  const isHead = (row: number) => row < HEAD_ROWS.length;
+  const isStripe = (row: number, col: number, cell: string) => {
+    if (cell === "t") return row % 2 === 0;
+    if (isHead(row)) {
+      // Forehead "M" and cheek marks
+      return (row === 3 && (col === 4 || col === 11)) || (row === 4 && (col === 7 || col === 8)) || (row === 7 && (col === 2 || col === 13));
+    }
+    return row % 2 === 1;
+  };
+
+  return rows.map((line, row) =>
+    line.split("").map((cell, col) => {
+      switch (cell) {
+        case ".": return null;
+        case "o": return OUTLINE_COLOR;
+        case "i": return colors.pattern === "colorpoint" ? stripeColor : colors.innerEarColor;
+        case "e": return colors.eyeColor;
+        case "k": return PUPIL_COLOR;
+        case "n": return colors.noseColor;
+      }
+
+      switch (colors.pattern) {
+        case "colorpoint":
+          if (cell === "m" || cell === "p" || cell === "t" || row <= 3) return stripeColor;
+          return cell === "c" ? colors.secondaryFur : colors.primaryFur;
+        case "tuxedo":
+        case "bicolor":
+          if (cell === "m" || cell === "c" || cell === "p") return colors.secondaryFur;
+          return colors.primaryFur;
+        case "calico":
+          if (cell === "c" || cell === "p" || cell === "m") return patchBase;
+          return patchAt(row, col) ?? patchBase;
+        case "tortoiseshell":
+          return patchAt(row, col) ?? patchBase;
+        case "tabby":
+          if (cell === "m" || cell === "c") return colors.secondaryFur;
+          return isStripe(row, col, cell) ? stripeColor : colors.primaryFur;
+        case "smoke":
+          return cell === "c" ? colors.secondaryFur : colors.primaryFur;
+        default:
+          return colors.primaryFur;
+      }
+    })
+  );
+}
+
+/**
+ * Serialize painted pixels to SVG, merging horizontal runs of the same color
+ */
+function toSvg(pixels: (string | null)[][]): string {
+  const rects: string[] = [];
+  pixels.forEach((line, y) => {
+    let x = 0;
+    while (x < line.length) {
+      const color = line[x];
+      let run = 1;
+      while (x + run < line.length && line[x + run] === color) run++;
+      if (color) rects.push(`<rect x="${x}" y="${y}" width="${run}" height="1" fill="${color}"/>`);
+      x += run;
+    }
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SPRITE_SIZE} ${SPRITE_SIZE}" width="256" height="256" shape-rendering="crispEdges">${rects.join("")}</svg>`;
+}
+
+/**
+ * Build a pixel-art avatar as an SVG data URL.
+ * Identical profile + photo analysis always yields the identical image.
+ */
+export function generatePixelAvatar(
+  catProfile: Partial<CatProfile>,
+  photoAnalysis?: PhotoAnalysis | null
+): string {
+  const seed = hashString(JSON.stringify([
+    catProfile.name ?? "",
+    catProfile.breed ?? "",
+    photoAnalysis?.estimatedColor ?? "",
+    photoAnalysis?.estimatedPattern ?? "",
+  ]));
+  const random = createRandom(seed);
+
+  const { colors } = resolveCatColors(catProfile, photoAnalysis);
+  const rows = [...HEAD_ROWS, ...BODY_ROWS[getBodyShape(catProfile, photoAnalysis)]];
+  const svg = toSvg(paintSprite(rows, colors, random));
+
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
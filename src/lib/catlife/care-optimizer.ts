@@ -0,0 +1,283 @@
+// CatLife - Care Routine Optimizer
+// Searches nearby care routines for the lowest-effort changes that add months in "thriving"
+
+import type {
+  CarePlan,
+  CatProfile,
+  CarePlanChange,
+  CareRoutine,
+  FoodType,
+  OptimizableCareField,
+  SimulationConfig,
+  SimulationPoint,
+} from "@/types/catlife";
+import { monthsPerPoint } from "./simulation-steps";
+import { survivalAtPoints } from "./survival-model";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Runs the monthly model for a config; must be deterministic for a given seed */
+export type TrajectorySimulator = (config: SimulationConfig) => SimulationPoint[];
+
+export interface CareOptimizerOptions {
+  maxPlans?: number;
+  /** Most routine fields one plan may change */
+  maxChangedFields?: number;
+}
+
+/** Ideal adult weight range (kg), which sets the weight part of the survival odds */
+type WeightRange = { min: number; max: number };
+
+interface Candidate {
+  careRoutine: CareRoutine;
+  changes: CarePlanChange[];
+  effort: number;
+  thrivingMonths: number;
+}
+
+// ============================================
+// SEARCH SPACE
+// ============================================
+
+/**
+ * Starting points for unanswered routine questions. Food is a typical label portion;
+ * once a plan sets it, the energy model uses that amount instead of feeding to maintenance.
+ */
+const ASSUMED_VALUES = {
+  treatsPerDay: 2,
+  playMinutesPerDay: 15,
+  foodAmountOzPerDay: 3.5,
+  vetVisitsPerYear: 0,
+};
+
+/** Realistic bounds: nobody is told to play 3 hours a day or see the vet monthly */
+const BOUNDS = {
+  playMinutesPerDay: { max: 60 },
+  foodAmountOzPerDay: { min: 1, max: 8 },
+  vetVisitsPerYear: { max: 4 },
+};
+
+/** Effort per unit of change, tuned so "10 min more play" ~ "half an oz less food" ~ "4 fewer treats" */
+const EFFORT = {
+  treatPerDay: 0.25,
+  playMinute: 0.1,
+  foodOz: 2,
+  vetVisit: 1,
+  foodType: { wet: 1.5, mixed: 1 } as Partial<Record<FoodType, number>>,
+};
+
+const DEFAULT_MAX_PLANS = 3;
+const DEFAULT_MAX_CHANGED_FIELDS = 3;
+/** Partial plans kept between search rounds */
+const BEAM_WIDTH = 16;
+/** Gains smaller than this are within the model's noise */
+const MIN_GAIN_MONTHS = 3;
+
+function roundToQuarter(value: number): number {
+  return Math.round(value * 4) / 4;
+}
+
+/**
+ * Every single-field change worth trying from a routine, with its effort.
+ * Treats only go down and play/vet only go up; food moves either way for under- or overweight cats.
+ */
+function singleChanges(routine: CareRoutine): { change: CarePlanChange; effort: number }[] {
+  const options: { change: CarePlanChange; effort: number }[] = [];
+
+  const treats = routine.treatsPerDay ?? ASSUMED_VALUES.treatsPerDay;
+  new Set([treats - 1, treats - 2, treats - 3, treats - 4, treats - 6, 2, 1, 0]).forEach(to => {
+    if (to >= 0 && to < treats) {
+      options.push({
+        change: { field: "treatsPerDay", from: routine.treatsPerDay, to },
+        effort: (treats - to) * EFFORT.treatPerDay,
+      });
+    }
+  });
+
+  const play = routine.playMinutesPerDay ?? ASSUMED_VALUES.playMinutesPerDay;
+  [5, 10, 15, 20, 30].forEach(extra => {
+    const to = Math.min(BOUNDS.playMinutesPerDay.max, play + extra);
+    if (to > play && !options.some(o => o.change.field === "playMinutesPerDay" && o.change.to === to)) {
+      options.push({
+        change: { field: "playMinutesPerDay", from: routine.playMinutesPerDay, to },
+        effort: (to - play) * EFFORT.playMinute,
+      });
+    }
+  });
+
+  const food = routine.foodAmountOzPerDay ?? ASSUMED_VALUES.foodAmountOzPerDay;
+  [-1, -0.75, -0.5, -0.25, 0.25, 0.5, 0.75, 1].forEach(delta => {
+    const to = roundToQuarter(food + delta);
+    if (to >= BOUNDS.foodAmountOzPerDay.min && to <= BOUNDS.foodAmountOzPerDay.max && to !== food) {
+      options.push({
+        change: { field: "foodAmountOzPerDay", from: routine.foodAmountOzPerDay, to },
+        effort: Math.abs(to - food) * EFFORT.foodOz,
+      });
+    }
+  });
+
+  (Object.keys(EFFORT.foodType) as FoodType[]).forEach(to => {
+    if (routine.foodType !== to) {
+      options.push({ change: { field: "foodType", from: routine.foodType, to }, effort: EFFORT.foodType[to] ?? 1 });
+    }
+  });
+
+  const vet = routine.vetVisitsPerYear ?? ASSUMED_VALUES.vetVisitsPerYear;
+  [1, 2].forEach(extra => {
+    const to = vet + extra;
+    if (to <= BOUNDS.vetVisitsPerYear.max) {
+      options.push({ change: { field: "vetVisitsPerYear", from: routine.vetVisitsPerYear, to }, effort: extra * EFFORT.vetVisit });
+    }
+  });
+
+  return options;
+}
+
+function applyChange(routine: CareRoutine, change: CarePlanChange): CareRoutine {
+  return { ...routine, [change.field]: change.to };
+}
+
+/** 3 -> "3.0", 3.75 -> "3.75" */
+function formatOz(oz: number): string {
+  return Number.isInteger(oz * 2) ? oz.toFixed(1) : oz.toFixed(2);
+}
+
+function routineKey(changes: CarePlanChange[]): string {
+  return changes
+    .map(c => `${c.field}=${c.to}`)
+    .sort()
+    .join("&");
+}
+
+// ============================================
+// DESCRIPTIONS
+// ============================================
+
+const FOOD_TYPE_PHRASES: Partial<Record<FoodType, string>> = {
+  wet: "switch to wet food",
+  mixed: "mix in wet food",
+};
+
+function describeChange(change: CarePlanChange): string {
+  switch (change.field) {
+    case "treatsPerDay":
+      return change.to === 0 ? "stop treats" : `cut treats to ${change.to}/day`;
+    case "playMinutesPerDay":
+      return `play ${change.to} min/day`;
+    case "foodAmountOzPerDay": {
+      const from = (change.from as number | null) ?? ASSUMED_VALUES.foodAmountOzPerDay;
+      return `${(change.to as number) < from ? "drop" : "raise"} food to ${formatOz(change.to as number)} oz/day`;
+    }
+    case "foodType":
+      return FOOD_TYPE_PHRASES[change.to as FoodType] ?? `switch to ${change.to} food`;
+    case "vetVisitsPerYear":
+      return change.to === 1 ? "see the vet once a year" : `see the vet ${change.to}x a year`;
+  }
+}
+
+/**
+ * "Drop food to 3.0 oz/day and play 20 min/day"
+ */
+export function describeCarePlan(changes: CarePlanChange[]): string {
+  const order: OptimizableCareField[] = ["foodAmountOzPerDay", "foodType", "treatsPerDay", "playMinutesPerDay", "vetVisitsPerYear"];
+  const phrases = [...changes]
+    .sort((a, b) => order.indexOf(a.field) - order.indexOf(b.field))
+    .map(describeChange);
+  const text = phrases.length > 1
+    ? `${phrases.slice(0, -1).join(", ")} and ${phrases[phrases.length - 1]}`
+    : phrases[0] ?? "";
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Expected months spent thriving, whatever the step size: each point counts by the
+ * chance the cat lives to see it, so years past its likely lifespan add little
+ */
+function countThriving(points: SimulationPoint[], catProfile: CatProfile, idealRange: WeightRange): number {
+  const alive = survivalAtPoints(catProfile, points, idealRange);
+  const thriving = points.reduce((sum, point, index) => sum + (point.healthStatus === "thriving" ? alive[index] : 0), 0);
+  return Math.round(thriving * monthsPerPoint(points));
+}
+
+/**
+ * Beam search over nearby routines, each scored by running the simulator on the
+ * config's seed (so every candidate sees the same noise as the baseline).
+ * Returns the Pareto front of effort vs. expected thriving months, lowest effort first:
+ * the first plan is the smallest worthwhile change, the last the biggest payoff.
+ */
+export function optimizeCareRoutine(
+  config: SimulationConfig,
+  simulate: TrajectorySimulator,
+  idealRange: WeightRange,
+  options: CareOptimizerOptions = {}
+): CarePlan[] {
+  const maxPlans = options.maxPlans ?? DEFAULT_MAX_PLANS;
+  const maxChangedFields = options.maxChangedFields ?? DEFAULT_MAX_CHANGED_FIELDS;
+  const score = (points: SimulationPoint[]) => countThriving(points, config.catProfile, idealRange);
+  const baselineThriving = score(simulate(config));
+
+  const base = config.careRoutine;
+  const baselineCareRoutine = config.baselineCareRoutine ?? base;
+  const baseChanges = singleChanges(base);
+  const seen = new Set<string>();
+  const evaluated: Candidate[] = [];
+  let beam: Candidate[] = [{ careRoutine: base, changes: [], effort: 0, thrivingMonths: baselineThriving }];
+
+  for (let depth = 0; depth < maxChangedFields; depth++) {
+    const next: Candidate[] = [];
+    for (const candidate of beam) {
+      const usedFields = new Set(candidate.changes.map(c => c.field));
+      for (const { change, effort } of baseChanges) {
+        if (usedFields.has(change.field)) continue;
+        const changes = [...candidate.changes, change];
+        const key = routineKey(changes);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const careRoutine = applyChange(candidate.careRoutine, change);
+        next.push({
+          careRoutine,
+          changes,
+          effort: candidate.effort + effort,
+          thrivingMonths: score(simulate({ ...config, careRoutine, baselineCareRoutine })),
+        });
+      }
+    }
+
+    evaluated.push(...next);
+    beam = next
+      .sort((a, b) => b.thrivingMonths - a.thrivingMonths || a.effort - b.effort)
+      .slice(0, BEAM_WIDTH);
+    if (beam.length === 0) break;
+  }
+
+  // Pareto front: walking up in effort, keep only plans that beat every cheaper one
+  const front: Candidate[] = [];
+  evaluated
+    .filter(c => c.thrivingMonths - baselineThriving >= MIN_GAIN_MONTHS)
+    .sort((a, b) => a.effort - b.effort || b.thrivingMonths - a.thrivingMonths)
+    .forEach(candidate => {
+      const best = front[front.length - 1];
+      if (!best || candidate.thrivingMonths > best.thrivingMonths) front.push(candidate);
+    });
+
+  // Always keep the biggest payoff; fill the rest with the cheapest options
+  const selected = front.length > maxPlans
+    ? [...front.slice(0, maxPlans - 1), front[front.length - 1]]
+    : front;
+
+  return selected.map(candidate => ({
+    description: describeCarePlan(candidate.changes),
+    changes: candidate.changes,
+    careRoutine: candidate.careRoutine,
+    effort: Math.round(candidate.effort * 100) / 100,
+    thrivingMonths: candidate.thrivingMonths,
+    thrivingMonthsGained: candidate.thrivingMonths - baselineThriving,
+  }));
+}
@@ -0,0 +1,332 @@
+// CatLife - Coat Colors
+// Parses free-text coat descriptions ("gray and white tuxedo", "seal point") into CatColors palettes
+
+import type { CatColors, CatProfile, CoatPattern, PhotoAnalysis } from "@/types/catlife";
+import { createRandom, hashString } from "./random";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FurColorName =
+  | "black"
+  | "blue"
+  | "gray"
+  | "silver"
+  | "white"
+  | "orange"
+  | "cream"
+  | "brown"
+  | "chocolate"
+  | "seal"
+  | "cinnamon"
+  | "lilac"
+  | "fawn"
+  | "golden";
+
+export interface ParsedCoat {
+  /** Fur colors in the order they were mentioned */
+  colors: FurColorName[];
+  pattern: CoatPattern;
+  hasWhite: boolean;
+  eyeColor: string | null;
+  tone: "light" | "dark" | null;
+}
+
+// ============================================
+// VOCABULARY
+// ============================================
+
+const COLOR_VOCABULARY: { name: FurColorName; aliases: string[]; hex: string; dilute: FurColorName }[] = [
+  { name: "black", aliases: ["black", "ebony", "jet"], hex: "#2D2A32", dilute: "blue" },
+  { name: "blue", aliases: ["blue", "slate"], hex: "#7D8BA3", dilute: "blue" },
+  { name: "gray", aliases: ["gray", "grey", "charcoal"], hex: "#9CA3AF", dilute: "silver" },
+  { name: "silver", aliases: ["silver", "chinchilla"], hex: "#C9CED6", dilute: "silver" },
+  { name: "white", aliases: ["white", "snow"], hex: "#F5F5F4", dilute: "white" },
+  { name: "orange", aliases: ["orange", "ginger", "red", "marmalade", "flame"], hex: "#E8A756", dilute: "cream" },
+  { name: "cream", aliases: ["cream", "buff", "beige", "apricot"], hex: "#F1D3A1", dilute: "cream" },
+  { name: "brown", aliases: ["brown", "ruddy", "bronze", "sable"], hex: "#8B5A2B", dilute: "lilac" },
+  { name: "chocolate", aliases: ["chocolate", "chestnut", "havana"], hex: "#6B4226", dilute: "lilac" },
+  { name: "seal", aliases: ["seal"], hex: "#4A3426", dilute: "blue" },
+  { name: "cinnamon", aliases: ["cinnamon", "sorrel"], hex: "#A0522D", dilute: "fawn" },
+  { name: "lilac", aliases: ["lilac", "lavender", "frost"], hex: "#C4B5C9", dilute: "lilac" },
+  { name: "fawn", aliases: ["fawn"], hex: "#D8C0A8", dilute: "fawn" },
+  { name: "golden", aliases: ["golden", "gold"], hex: "#D9A441", dilute: "cream" },
+];
+
+const EYE_VOCABULARY: { aliases: string[]; hex: string }[] = [
+  { aliases: ["green", "emerald"], hex: "#7CB342" },
+  { aliases: ["blue", "sapphire", "odd"], hex: "#4FA3E0" },
+  { aliases: ["yellow"], hex: "#E6C229" },
+  { aliases: ["gold", "golden"], hex: "#E0A526" },
+  { aliases: ["amber", "orange"], hex: "#D98E2B" },
+  { aliases: ["copper"], hex: "#C46A2B" },
+  { aliases: ["hazel"], hex: "#A8943C" },
+];
+
+/** Pattern keywords, checked in priority order */
+const PATTERN_VOCABULARY: { pattern: CoatPattern; keywords: RegExp }[] = [
+  { pattern: "calico", keywords: /\b(calico|tricolou?r|tri-colou?r)\b/ },
+  { pattern: "tortoiseshell", keywords: /\b(tortoiseshell|tortie|torbie|tortico)\b/ },
+  { pattern: "colorpoint", keywords: /\b(points?|pointed|colou?rpoint)\b/ },
+  { pattern: "tuxedo", keywords: /\b(tuxedo|tux)\b/ },
+  { pattern: "smoke", keywords: /\b(smoke|smokey|smoky|shaded)\b/ },
+  { pattern: "tabby", keywords: /\b(tabby|striped|stripes|stripy|mackerel|classic|spotted|ticked|marbled|lynx|bengal)\b/ },
+  { pattern: "bicolor", keywords: /\b(bicolou?r|bi-colou?r|van|mitted|harlequin|and white|with white|white (paws|socks|chest|belly|bib))\b/ },
+  { pattern: "solid", keywords: /\b(solid|self)\b/ },
+];
+
+const WARM_COLORS: FurColorName[] = ["orange", "cream", "golden"];
+const COOL_COLORS: FurColorName[] = ["black", "blue", "chocolate", "lilac", "seal", "gray"];
+
+/** Fallback colors when a description names a pattern but no color */
+const PATTERN_DEFAULT_COLORS: Record<CoatPattern, FurColorName[]> = {
+  solid: ["gray"],
+  tabby: ["brown"],
+  tuxedo: ["black"],
+  bicolor: ["black"],
+  calico: ["orange", "black"],
+  tortoiseshell: ["black", "orange"],
+  colorpoint: ["seal"],
+  smoke: ["black"],
+};
+
+const COLORPOINT_BODY = "#F3E5CF";
+const DEFAULT_NOSE = "#E8A0A0";
+const DARK_NOSE = "#5B4A4A";
+const DEFAULT_INNER_EAR = "#FFD4D4";
+const DARK_INNER_EAR = "#C99A9A";
+
+/** Breeds whose usual coat we can assume when there's no photo or description */
+const BREED_COAT_HINTS: { match: string[]; description: string }[] = [
+  { match: ["siamese", "himalayan", "birman", "balinese"], description: "seal point, blue eyes" },
+  { match: ["ragdoll"], description: "seal point with white mitts, blue eyes" },
+  { match: ["tonkinese"], description: "chocolate point, blue eyes" },
+  { match: ["russian blue", "nebelung"], description: "solid blue, green eyes" },
+  { match: ["korat"], description: "solid silver blue, green eyes" },
+  { match: ["chartreux", "british shorthair"], description: "solid blue, copper eyes" },
+  { match: ["bombay"], description: "solid black, copper eyes" },
+  { match: ["bengal"], description: "golden spotted tabby, green eyes" },
+  { match: ["abyssinian"], description: "ruddy ticked tabby, gold eyes" },
+  { match: ["maine coon", "norwegian forest", "american shorthair"], description: "brown classic tabby, gold eyes" },
+  { match: ["sphynx"], description: "solid cream, green eyes" },
+  { match: ["scottish fold"], description: "blue and white, copper eyes" },
+];
+
+/** Common household coats, picked from the cat's name when nothing else is known */
+const DEFAULT_DESCRIPTIONS = [
+  "orange tabby",
+  "gray tabby",
+  "black and white tuxedo",
+  "brown tabby",
+  "solid black",
+  "calico",
+  "gray and white",
+  "tortoiseshell",
+];
+
+// ============================================
+// COLOR HELPERS
+// ============================================
+
+/**
+ * Darken a hex color by a fraction (0-1); negative amounts lighten
+ */
+export function shadeColor(hex: string, amount: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  const channel = (shift: number) => {
+    const c = (value >> shift) & 0xff;
+    const shaded = amount >= 0 ? c * (1 - amount) : c + (255 - c) * -amount;
+    return Math.max(0, Math.min(255, Math.round(shaded)));
+  };
+  return `#${[16, 8, 0].map(s => channel(s).toString(16).padStart(2, "0")).join("")}`.toUpperCase();
+}
+
+export function getFurHex(color: FurColorName): string {
+  return COLOR_VOCABULARY.find(c => c.name === color)?.hex ?? COLOR_VOCABULARY[0].hex;
+}
+
+function isDark(hex: string): boolean {
+  const value = parseInt(hex.slice(1), 16);
+  const luminance = 0.2126 * ((value >> 16) & 0xff) + 0.7152 * ((value >> 8) & 0xff) + 0.0722 * (value & 0xff);
+  return luminance < 110;
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parse a free-text coat description.
+ * Returns null when no known color or pattern word is present.
+ */
+export function parseCoatDescription(description: string): ParsedCoat | null {
+  let text = ` ${description.toLowerCase().replace(/[^a-z\s-]/g, " ").replace(/\s+/g, " ")} `;
+
+  // Eye colors first so "gold eyes" or "blue-eyed" don't count as fur
+  let eyeColor: string | null = null;
+  const eyeMatch = text.match(/\b([a-z]+)(?: |-)(?:eyes|eyed)\b/);
+  if (eyeMatch) {
+    eyeColor = EYE_VOCABULARY.find(e => e.aliases.includes(eyeMatch[1]))?.hex ?? null;
+    text = text.replace(eyeMatch[0], " ");
+  }
+
+  const pattern = PATTERN_VOCABULARY.find(p => p.keywords.test(text))?.pattern ?? null;
+  const isDilute = /\b(dilute|diluted|muted)\b/.test(text);
+  const tone = /\b(light|pale|soft)\b/.test(text) ? "light" : /\b(dark|deep|rich)\b/.test(text) ? "dark" : null;
+
+  // Collect colors in order of mention
+  const mentions: { name: FurColorName; index: number }[] = [];
+  for (const entry of COLOR_VOCABULARY) {
+    for (const alias of entry.aliases) {
+      const match = new RegExp(`\\b${alias}\\b`).exec(text);
+      if (match) mentions.push({ name: entry.name, index: match.index });
+    }
+  }
+  // "silver blue" and "blue gray" describe one color, keep the first word
+  const named = mentions
+    .sort((a, b) => a.index - b.index)
+    .map(m => m.name)
+    .filter((name, i, all) => all.indexOf(name) === i);
+
+  let colors: FurColorName[] = named.filter(name => name !== "white");
+
+  if (!pattern && colors.length === 0) {
+    if (!named.includes("white")) return null;
+    return { colors: ["white"], pattern: "solid", hasWhite: false, eyeColor, tone };
+  }
+
+  const hasWhite = named.includes("white") || pattern === "tuxedo" || pattern === "bicolor" || pattern === "calico";
+  let resolvedPattern: CoatPattern = pattern ?? (hasWhite ? "bicolor" : "solid");
+
+  // "blue cream" or "black and orange" without a pattern word is a tortie; with white, a calico
+  if ((!pattern || pattern === "bicolor") && colors.some(c => WARM_COLORS.includes(c)) && colors.some(c => COOL_COLORS.includes(c))) {
+    resolvedPattern = named.includes("white") ? "calico" : "tortoiseshell";
+  }
+
+  if (colors.length === 0) colors = [...PATTERN_DEFAULT_COLORS[resolvedPattern]];
+  if (isDilute) {
+    colors = colors.map(c => COLOR_VOCABULARY.find(entry => entry.name === c)?.dilute ?? c);
+  }
+
+  return { colors, pattern: resolvedPattern, hasWhite, eyeColor, tone };
+}
+
+// ============================================
+// PALETTE BUILDING
+// ============================================
+
+function defaultEyeColor(coat: ParsedCoat): string {
+  if (coat.pattern === "colorpoint") return "#4FA3E0";
+  const primary = coat.colors[0];
+  if (primary === "white") return "#4FA3E0";
+  if (primary === "blue" || primary === "black" || primary === "silver") return "#E0A526";
+  if (primary === "orange" || primary === "cream" || primary === "golden") return "#D98E2B";
+  return "#7CB342";
+}
+
+/**
+ * Turn a parsed coat into the full palette AnimatedCat and the avatar use
+ */
+export function buildCatColors(coat: ParsedCoat): CatColors {
+  const adjust = (hex: string) =>
+    coat.tone === "light" ? shadeColor(hex, -0.25) : coat.tone === "dark" ? shadeColor(hex, 0.25) : hex;
+
+  const first = adjust(getFurHex(coat.colors[0]));
+  const second = coat.colors[1] ? adjust(getFurHex(coat.colors[1])) : null;
+  const white = getFurHex("white");
+
+  let primaryFur = first;
+  let secondaryFur = coat.hasWhite ? white : shadeColor(first, -0.35);
+  let stripeColor: string | null = null;
+
+  switch (coat.pattern) {
+    case "tabby":
+      stripeColor = second ?? shadeColor(first, 0.4);
+      break;
+    case "calico": {
+      // Warm patch as the main fur, dark patch carried in stripeColor
+      const warm = coat.colors.find(c => WARM_COLORS.includes(c)) ?? "orange";
+      const cool = coat.colors.find(c => !WARM_COLORS.includes(c)) ?? "black";
+      primaryFur = adjust(getFurHex(warm));
+      secondaryFur = white;
+      stripeColor = adjust(getFurHex(cool));
+      break;
+    }
+    case "tortoiseshell": {
+      const warm = coat.colors.find(c => WARM_COLORS.includes(c)) ?? "orange";
+      const cool = coat.colors.find(c => !WARM_COLORS.includes(c)) ?? "black";
+      primaryFur = adjust(getFurHex(cool));
+      secondaryFur = coat.hasWhite ? white : adjust(getFurHex(warm));
+      stripeColor = adjust(getFurHex(warm));
+      break;
+    }
+    case "colorpoint":
+      // The named color is the point color; the body stays pale
+      primaryFur = COLORPOINT_BODY;
+      secondaryFur = coat.hasWhite ? white : shadeColor(COLORPOINT_BODY, -0.4);
+      stripeColor = first;
+      break;
+    case "smoke":
+      secondaryFur = getFurHex("silver");
+      break;
+    case "tuxedo":
+    case "bicolor":
+      secondaryFur = white;
+      break;
+  }
+
+  const darkFace = isDark(primaryFur) && coat.pattern !== "colorpoint";
+  return {
+    primaryFur,
+    secondaryFur,
+    stripeColor,
+    noseColor: darkFace ? DARK_NOSE : DEFAULT_NOSE,
+    innerEarColor: darkFace ? DARK_INNER_EAR : DEFAULT_INNER_EAR,
+    eyeColor: coat.eyeColor ?? defaultEyeColor(coat),
+    pattern: coat.pattern,
+  };
+}
+
+/**
+ * Pick the best available coat description: explicit text, then the photo
+ * analysis, then breed hints, then a common coat chosen from the cat's name
+ */
+export function resolveCoatDescription(
+  catProfile: Partial<CatProfile>,
+  photoAnalysis?: PhotoAnalysis | null,
+  coatDescription?: string | null
+): string {
+  const candidates = [
+    coatDescription ?? "",
+    [photoAnalysis?.estimatedColor, photoAnalysis?.estimatedPattern].filter(Boolean).join(" "),
+  ];
+  const described = candidates.find(text => text.trim() && parseCoatDescription(text));
+  if (described) return described.trim();
+
+  const breed = (catProfile.breed ?? "").toLowerCase();
+  const hint = BREED_COAT_HINTS.find(h => h.match.some(name => breed.includes(name)));
+  if (hint) return hint.description;
+
+  const random = createRandom(hashString(`${catProfile.name ?? ""}|${catProfile.breed ?? ""}`));
+  return DEFAULT_DESCRIPTIONS[Math.floor(random() * DEFAULT_DESCRIPTIONS.length)];
+}
+
+/**
+ * Resolve a full palette for a cat. Always returns colors.
+ */
+export function resolveCatColors(
+  catProfile: Partial<CatProfile>,
+  photoAnalysis?: PhotoAnalysis | null,
+  coatDescription?: string | null
+): { colors: CatColors; description: string } {
+  const description = resolveCoatDescription(catProfile, photoAnalysis, coatDescription);
+  const coat = parseCoatDescription(description) ?? {
+    colors: ["orange"],
+    pattern: "tabby",
+    hasWhite: false,
+    eyeColor: null,
+    tone: null,
+  };
+  return { colors: buildCatColors(coat), description };
+}
@@ -0,0 +1,371 @@
+// CatLife - Condition Catalog
+// Staged progression models for common chronic conditions, driven by whether care keeps them managed
+
+import type { ConditionId, ConditionSnapshot, HealthStatus } from "@/types/catlife";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Values that differ between a managed and an unmanaged condition */
+interface ByManagement<T> {
+  managed: T;
+  unmanaged: T;
+}
+
+interface StageTransition {
+  toStage: number; // index into the condition's stages
+  afterMonths: number; // typical time spent in the current stage first
+}
+
+interface ConditionStage {
+  label: string;
+  /** Lowercase phrases in an owner's description that place the cat at this stage */
+  keywords: string[];
+  /** Best health status a cat can have at this stage */
+  status: ByManagement<HealthStatus>;
+  /** Fraction of body weight gained (+) or lost (-) per month from the condition itself */
+  monthlyWeightChange: ByManagement<number>;
+  /** Extra deaths per cat-year at this stage, added to the age-related hazard (see survival-model) */
+  annualExcessMortality: ByManagement<number>;
+  /** Where the condition heads next; null stays put */
+  next: ByManagement<StageTransition | null>;
+}
+
+interface ConditionDefinition {
+  id: ConditionId;
+  name: string;
+  /** Lowercase phrases that identify the condition in knownConditions */
+  aliases: string[];
+  /** Vet visits per year at or above which the condition counts as managed */
+  managedVetVisitsPerYear: number;
+  managementAdvice: string;
+  stages: ConditionStage[];
+  /** Stage assumed when the description doesn't name one */
+  defaultStage: number;
+}
+
+/**
+ * One condition's state while a simulation runs
+ */
+export interface ConditionProgress {
+  definition: ConditionDefinition;
+  stage: number;
+  /** Fraction (0-1) of the way through the current stage toward its next transition */
+  progress: number;
+  /** The stage the progress is counting toward, so a switch in direction restarts the clock */
+  heading: number | null;
+}
+
+// ============================================
+// CATALOG
+// ============================================
+
+/**
+ * Stage timings are typical values from the veterinary literature, not predictions for one cat:
+ * CKD follows IRIS staging (International Renal Interest Society, 2023),
+ * HCM follows ACVIM consensus staging (2020), and diabetes remission rates
+ * follow ISFM consensus guidelines (2015). Excess mortality is set so the median
+ * survival at each stage lands near published figures (e.g. Boyd 2008 for CKD,
+ * Fox 2018 REVEAL for HCM).
+ */
+export const CONDITION_CATALOG: ConditionDefinition[] = [
+  {
+    id: "ckd",
+    name: "Chronic kidney disease",
+    aliases: ["ckd", "kidney", "renal", "crf"],
+    managedVetVisitsPerYear: 2,
+    managementAdvice: "Kidney diet, plenty of water (wet food helps), and bloodwork and blood pressure checks every 3-6 months.",
+    defaultStage: 1,
+    stages: [
+      {
+        label: "IRIS stage 1",
+        keywords: ["stage 1", "iris 1", "early"],
+        status: { managed: "ok", unmanaged: "ok" },
+        monthlyWeightChange: { managed: 0, unmanaged: 0 },
+        annualExcessMortality: { managed: 0.02, unmanaged: 0.04 },
+        next: { managed: { toStage: 1, afterMonths: 48 }, unmanaged: { toStage: 1, afterMonths: 24 } },
+      },
+      {
+        label: "IRIS stage 2",
+        keywords: ["stage 2", "iris 2"],
+        status: { managed: "ok", unmanaged: "risky" },
+        monthlyWeightChange: { managed: -0.003, unmanaged: -0.01 },
+        annualExcessMortality: { managed: 0.1, unmanaged: 0.2 },
+        next: { managed: { toStage: 2, afterMonths: 36 }, unmanaged: { toStage: 2, afterMonths: 18 } },
+      },
+      {
+        label: "IRIS stage 3",
+        keywords: ["stage 3", "iris 3", "moderate"],
+        status: { managed: "risky", unmanaged: "unhealthy" },
+        monthlyWeightChange: { managed: -0.01, unmanaged: -0.02 },
+        annualExcessMortality: { managed: 0.25, unmanaged: 0.5 },
+        next: { managed: { toStage: 3, afterMonths: 24 }, unmanaged: { toStage: 3, afterMonths: 10 } },
+      },
+      {
+        label: "IRIS stage 4",
+        keywords: ["stage 4", "iris 4", "end stage", "end-stage", "severe"],
+        status: { managed: "unhealthy", unmanaged: "unhealthy" },
+        monthlyWeightChange: { managed: -0.02, unmanaged: -0.03 },
+        annualExcessMortality: { managed: 1.5, unmanaged: 3 },
+        next: { managed: null, unmanaged: null },
+      },
+    ],
+  },
+  {
+    id: "diabetes",
+    name: "Diabetes",
+    aliases: ["diabet"],
+    managedVetVisitsPerYear: 2,
+    managementAdvice: "Insulin as prescribed, a low-carbohydrate wet diet, and glucose checks with the vet every few months.",
+    defaultStage: 0,
+    stages: [
+      {
+        label: "Unregulated",
+        keywords: ["unregulated", "uncontrolled", "newly diagnosed", "new diagnosis"],
+        status: { managed: "risky", unmanaged: "risky" },
+        monthlyWeightChange: { managed: -0.01, unmanaged: -0.025 },
+        annualExcessMortality: { managed: 0.2, unmanaged: 0.4 },
+        next: { managed: { toStage: 1, afterMonths: 2 }, unmanaged: { toStage: 3, afterMonths: 6 } },
+      },
+      {
+        label: "Regulated on insulin",
+        keywords: ["regulated", "controlled", "insulin"],
+        status: { managed: "ok", unmanaged: "risky" },
+        monthlyWeightChange: { managed: 0.003, unmanaged: -0.01 },
+        annualExcessMortality: { managed: 0.08, unmanaged: 0.25 },
+        // Only about a third of regulated cats reach remission, so the typical course stays regulated
+        next: { managed: null, unmanaged: { toStage: 0, afterMonths: 2 } },
+      },
+      {
+        label: "In remission",
+        keywords: ["remission"],
+        status: { managed: "thriving", unmanaged: "ok" },
+        monthlyWeightChange: { managed: 0, unmanaged: 0 },
+        annualExcessMortality: { managed: 0.02, unmanaged: 0.05 },
+        next: { managed: null, unmanaged: { toStage: 0, afterMonths: 24 } },
+      },
+      {
+        label: "Complicated (ketoacidosis risk)",
+        keywords: ["ketoacidosis", "dka", "complicated"],
+        status: { managed: "unhealthy", unmanaged: "unhealthy" },
+        monthlyWeightChange: { managed: -0.02, unmanaged: -0.04 },
+        annualExcessMortality: { managed: 1.5, unmanaged: 4 },
+        next: { managed: { toStage: 0, afterMonths: 1 }, unmanaged: null },
+      },
+    ],
+  },
+  {
+    id: "hyperthyroidism",
+    name: "Hyperthyroidism",
+    aliases: ["hyperthyroid", "overactive thyroid"],
+    managedVetVisitsPerYear: 2,
+    managementAdvice: "Methimazole, an iodine-restricted diet or radioiodine treatment, with thyroid and kidney bloodwork every 6 months.",
+    defaultStage: 0,
+    stages: [
+      {
+        label: "Active",
+        keywords: ["untreated", "uncontrolled", "active", "newly diagnosed"],
+        status: { managed: "ok", unmanaged: "risky" },
+        monthlyWeightChange: { managed: -0.01, unmanaged: -0.02 },
+        annualExcessMortality: { managed: 0.1, unmanaged: 0.25 },
+        next: { managed: { toStage: 1, afterMonths: 2 }, unmanaged: { toStage: 2, afterMonths: 12 } },
+      },
+      {
+        label: "Controlled",
+        keywords: ["controlled", "treated", "methimazole", "radioiodine", "i-131"],
+        status: { managed: "ok", unmanaged: "ok" },
+        monthlyWeightChange: { managed: 0.005, unmanaged: -0.005 },
+        annualExcessMortality: { managed: 0.04, unmanaged: 0.1 },
+        next: { managed: null, unmanaged: { toStage: 0, afterMonths: 3 } },
+      },
+      {
+        label: "With heart complications",
+        keywords: ["thyrotoxic", "heart"],
+        status: { managed: "risky", unmanaged: "unhealthy" },
+        monthlyWeightChange: { managed: -0.01, unmanaged: -0.03 },
+        annualExcessMortality: { managed: 0.4, unmanaged: 1 },
+        next: { managed: { toStage: 1, afterMonths: 6 }, unmanaged: null },
+      },
+    ],
+  },
+  {
+    id: "hcm",
+    name: "Hypertrophic cardiomyopathy",
+    aliases: ["hcm", "cardiomyopathy", "heart disease"],
+    managedVetVisitsPerYear: 2,
+    managementAdvice: "Echocardiograms every 6-12 months, prescribed heart medication, and watching resting breathing rate at home.",
+    defaultStage: 0,
+    stages: [
+      {
+        label: "Stage B1 (mild)",
+        keywords: ["stage b1", "b1", "mild"],
+        status: { managed: "ok", unmanaged: "ok" },
+        monthlyWeightChange: { managed: 0, unmanaged: 0 },
+        annualExcessMortality: { managed: 0.02, unmanaged: 0.03 },
+        next: { managed: { toStage: 1, afterMonths: 48 }, unmanaged: { toStage: 1, afterMonths: 36 } },
+      },
+      {
+        label: "Stage B2 (enlarged atrium)",
+        keywords: ["stage b2", "b2", "enlarged"],
+        status: { managed: "ok", unmanaged: "risky" },
+        monthlyWeightChange: { managed: 0, unmanaged: 0 },
+        annualExcessMortality: { managed: 0.08, unmanaged: 0.15 },
+        next: { managed: { toStage: 2, afterMonths: 36 }, unmanaged: { toStage: 2, afterMonths: 18 } },
+      },
+      {
+        label: "Stage C (heart failure)",
+        keywords: ["stage c", "heart failure", "chf"],
+        status: { managed: "risky", unmanaged: "unhealthy" },
+        monthlyWeightChange: { managed: -0.01, unmanaged: -0.02 },
+        annualExcessMortality: { managed: 0.5, unmanaged: 1.2 },
+        next: { managed: { toStage: 3, afterMonths: 18 }, unmanaged: { toStage: 3, afterMonths: 6 } },
+      },
+      {
+        label: "Stage D (refractory)",
+        keywords: ["stage d", "refractory", "end stage", "end-stage"],
+        status: { managed: "unhealthy", unmanaged: "unhealthy" },
+        monthlyWeightChange: { managed: -0.02, unmanaged: -0.03 },
+        annualExcessMortality: { managed: 2, unmanaged: 4 },
+        next: { managed: null, unmanaged: null },
+      },
+    ],
+  },
+];
+
+const STATUS_RANK: Record<HealthStatus, number> = { thriving: 0, ok: 1, risky: 2, unhealthy: 3 };
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Look up a free-text condition ("CKD stage 2", "diabetic, on insulin") in the catalog.
+ * Returns null for conditions the catalog doesn't model.
+ */
+export function findCondition(description: string): { definition: ConditionDefinition; stage: number } | null {
+  const text = description.toLowerCase();
+  const definition = CONDITION_CATALOG.find(c => c.aliases.some(alias => text.includes(alias)));
+  if (!definition) return null;
+
+  // Earlier stages list their more specific phrases ("unregulated") before later ones ("regulated")
+  const stage = definition.stages.findIndex(s => s.keywords.some(keyword => text.includes(keyword)));
+  return { definition, stage: stage >= 0 ? stage : definition.defaultStage };
+}
+
+/**
+ * Catalogued conditions to track through a simulation (one per condition) and
+ * the free-text ones the catalog doesn't model
+ */
+export function initConditionProgress(knownConditions: string[]): {
+  tracked: ConditionProgress[];
+  unrecognized: string[];
+} {
+  const tracked: ConditionProgress[] = [];
+  const unrecognized: string[] = [];
+
+  knownConditions.forEach(description => {
+    const match = findCondition(description);
+    if (!match) {
+      unrecognized.push(description);
+    } else if (!tracked.some(t => t.definition.id === match.definition.id)) {
+      tracked.push({ definition: match.definition, stage: match.stage, progress: 0, heading: null });
+    }
+  });
+
+  return { tracked, unrecognized };
+}
+
+// ============================================
+// PROGRESSION
+// ============================================
+
+export function isConditionManaged(condition: ConditionProgress, vetVisitsPerYear: number | null): boolean {
+  return (vetVisitsPerYear ?? 0) >= condition.definition.managedVetVisitsPerYear;
+}
+
+function currentStage(condition: ConditionProgress): ConditionStage {
+  return condition.definition.stages[condition.stage];
+}
+
+/**
+ * Combined monthly weight change (fraction of body weight) from every tracked condition
+ */
+export function conditionWeightChange(conditions: ConditionProgress[], vetVisitsPerYear: number | null): number {
+  return conditions.reduce((total, condition) => {
+    const key = isConditionManaged(condition, vetVisitsPerYear) ? "managed" : "unmanaged";
+    return total + currentStage(condition).monthlyWeightChange[key];
+  }, 0);
+}
+
+/**
+ * Cap a status at the best each condition's current stage allows
+ */
+export function applyConditionStatus(
+  status: HealthStatus,
+  conditions: ConditionProgress[],
+  vetVisitsPerYear: number | null
+): HealthStatus {
+  return conditions.reduce((worst, condition) => {
+    const key = isConditionManaged(condition, vetVisitsPerYear) ? "managed" : "unmanaged";
+    const cap = currentStage(condition).status[key];
+    return STATUS_RANK[cap] > STATUS_RANK[worst] ? cap : worst;
+  }, status);
+}
+
+/**
+ * Move every condition `months` (one simulation step) along its course, in place
+ */
+export function advanceConditions(
+  conditions: ConditionProgress[],
+  vetVisitsPerYear: number | null,
+  months: number = 1
+): void {
+  conditions.forEach(condition => {
+    const key = isConditionManaged(condition, vetVisitsPerYear) ? "managed" : "unmanaged";
+    const transition = currentStage(condition).next[key];
+    if (!transition) {
+      condition.progress = 0;
+      condition.heading = null;
+      return;
+    }
+
+    if (condition.heading !== transition.toStage) {
+      condition.progress = 0;
+      condition.heading = transition.toStage;
+    }
+    condition.progress += months / transition.afterMonths;
+
+    if (condition.progress >= 1) {
+      condition.stage = transition.toStage;
+      condition.progress = 0;
+      condition.heading = null;
+    }
+  });
+}
+
+export function snapshotConditions(
+  conditions: ConditionProgress[],
+  vetVisitsPerYear: number | null
+): ConditionSnapshot[] {
+  return conditions.map(condition => ({
+    conditionId: condition.definition.id,
+    name: condition.definition.name,
+    stage: currentStage(condition).label,
+    managed: isConditionManaged(condition, vetVisitsPerYear),
+  }));
+}
+
+/**
+ * Extra annual mortality from the conditions in a point's snapshots
+ */
+export function conditionExcessMortality(snapshots: ConditionSnapshot[]): number {
+  return snapshots.reduce((total, snapshot) => {
+    const stage = getConditionDefinition(snapshot.conditionId)?.stages.find(s => s.label === snapshot.stage);
+    return total + (stage?.annualExcessMortality[snapshot.managed ? "managed" : "unmanaged"] ?? 0);
+  }, 0);
+}
+
+export function getConditionDefinition(id: ConditionId): ConditionDefinition | undefined {
+  return CONDITION_CATALOG.find(c => c.id === id);
+}
@@ -0,0 +1,193 @@
+// CatLife - Energy Balance Model
+// kcal eaten vs. kcal burned, converted to monthly weight change; every coefficient lives in ENERGY_MODEL
+
+import type { CatProfile, CareRoutine, FoodType, IndoorOutdoor } from "@/types/catlife";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EnergyBalanceInput {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  ageMonths: number;
+  weightKg: number;
+  /** Middle of the breed's ideal range; used when the food amount is unknown */
+  idealWeightKg: number;
+  /** This cat's energy needs relative to the population average (see calibrateIndividualFactor) */
+  individualFactor?: number;
+}
+
+export interface EnergyBalance {
+  intakeKcal: number; // per day
+  expenditureKcal: number; // per day
+  surplusKcal: number; // per day; negative is a deficit
+  weightChangeKg: number; // per month
+}
+
+type MerLifeStage = "adult" | "mature" | "senior" | "geriatric";
+
+// ============================================
+// MODEL PARAMETERS
+// ============================================
+
+/**
+ * Every number the weight model uses, with where it comes from.
+ * Factors follow the NRC (2006) Nutrient Requirements of Dogs and Cats and the
+ * AAHA (2021) Nutrition and Weight Management Guidelines for Dogs and Cats.
+ */
+export const ENERGY_MODEL = {
+  /** Resting energy requirement: RER = 70 × bodyweight(kg)^0.75 kcal/day */
+  rer: { coefficient: 70, exponent: 0.75 },
+
+  /**
+   * Maintenance energy requirement: MER = RER × factor.
+   * Neutering lowers needs by roughly 20-30%. Needs dip in middle age as activity and
+   * lean mass decline, then rise again past ~15 as digestion becomes less efficient.
+   */
+  merFactors: {
+    adult: { neutered: 1.2, intact: 1.4 }, // 1-7 years
+    mature: { neutered: 1.1, intact: 1.3 }, // 7-11 years
+    senior: { neutered: 1.1, intact: 1.2 }, // 11-15 years
+    geriatric: { neutered: 1.3, intact: 1.4 }, // 15+ years
+  } as Record<MerLifeStage, { neutered: number; intact: number }>,
+  /** Upper age (months) of each MER life stage; geriatric is everything after senior */
+  merStageEndMonths: { adult: 84, mature: 132, senior: 180 },
+
+  /** Roaming burns more than apartment life; indoor is the baseline the MER factors describe */
+  lifestyleFactors: { indoor: 1.0, mixed: 1.1, outdoor: 1.2 } as Record<IndoorOutdoor, number>,
+
+  /**
+   * Energy density as fed, kcal per ounce (28.35 g).
+   * Typical label values: dry 3.5-4.2 kcal/g, wet 0.8-1.2 kcal/g, raw 1.2-2.0 kcal/g.
+   * "mixed" assumes half dry, half wet by weight.
+   */
+  foodKcalPerOz: { dry: 108, wet: 30, mixed: 69, raw: 45, other: 70 } as Record<FoodType, number>,
+  /** Used when the food type is unknown */
+  defaultFoodType: "mixed" as FoodType,
+
+  /** Typical commercial cat treat is 1-5 kcal */
+  treatKcal: 3,
+  /** Used when the treat count is unknown */
+  defaultTreatsPerDay: 2,
+
+  /**
+   * Interactive play beyond what the MER factor already assumes (about 15 min/day).
+   * Vigorous play runs at ~3× the resting rate, i.e. ~0.1 kcal per metabolic kg per minute extra.
+   */
+  baselinePlayMinutes: 15,
+  playKcalPerMinutePerMetabolicKg: 0.1,
+  /** Used when play time is unknown */
+  defaultPlayMinutes: 15,
+
+  /** Free-fed cats graze and get topped up: intake runs ~10% above what owners estimate */
+  freeFeedingIntakeFactor: 1.1,
+
+  /** Energy stored or released per kg of weight change (mostly fat; ~7,000 kcal/kg in feline weight-loss plans) */
+  kcalPerKgWeightChange: 7000,
+
+  /**
+   * Individual cats' needs vary about ±25% around the population MER (NRC 2006).
+   * An adult's stated weight on its current routine tells us where in that range it sits.
+   */
+  individualFactorRange: { min: 0.75, max: 1.25 },
+
+  daysPerMonth: 30.44,
+};
+
+// ============================================
+// ENERGY OUT
+// ============================================
+
+function getMerLifeStage(ageMonths: number): MerLifeStage {
+  const { merStageEndMonths } = ENERGY_MODEL;
+  if (ageMonths < merStageEndMonths.adult) return "adult";
+  if (ageMonths < merStageEndMonths.mature) return "mature";
+  if (ageMonths < merStageEndMonths.senior) return "senior";
+  return "geriatric";
+}
+
+/**
+ * RER = 70 × kg^0.75
+ */
+export function restingEnergyRequirement(weightKg: number): number {
+  return ENERGY_MODEL.rer.coefficient * Math.pow(weightKg, ENERGY_MODEL.rer.exponent);
+}
+
+/**
+ * kcal/day burned at this weight and age, before individual variation.
+ * Unknown neuter status counts as neutered (most pet cats are).
+ */
+function populationExpenditure(input: EnergyBalanceInput): number {
+  const { catProfile, careRoutine, ageMonths, weightKg } = input;
+  const stageFactors = ENERGY_MODEL.merFactors[getMerLifeStage(ageMonths)];
+  const merFactor = catProfile.neutered === false ? stageFactors.intact : stageFactors.neutered;
+  const lifestyle = ENERGY_MODEL.lifestyleFactors[catProfile.indoorOutdoor ?? "indoor"];
+
+  const extraPlayMinutes = (careRoutine.playMinutesPerDay ?? ENERGY_MODEL.defaultPlayMinutes) - ENERGY_MODEL.baselinePlayMinutes;
+  const metabolicWeight = Math.pow(weightKg, ENERGY_MODEL.rer.exponent);
+  const playKcal = extraPlayMinutes * ENERGY_MODEL.playKcalPerMinutePerMetabolicKg * metabolicWeight;
+
+  return restingEnergyRequirement(weightKg) * merFactor * lifestyle + playKcal;
+}
+
+// ============================================
+// ENERGY IN
+// ============================================
+
+/**
+ * kcal/day eaten. An unknown food amount is assumed to be fed for
+ * maintenance at the breed's ideal weight.
+ */
+function dailyIntake(input: EnergyBalanceInput): number {
+  const { careRoutine } = input;
+  const foodType = careRoutine.foodType ?? ENERGY_MODEL.defaultFoodType;
+
+  const foodKcal = careRoutine.foodAmountOzPerDay !== null
+    ? careRoutine.foodAmountOzPerDay * ENERGY_MODEL.foodKcalPerOz[foodType]
+    : populationExpenditure({ ...input, weightKg: input.idealWeightKg });
+  const mealKcal = careRoutine.feedingFrequency === 4
+    ? foodKcal * ENERGY_MODEL.freeFeedingIntakeFactor
+    : foodKcal;
+
+  return mealKcal + (careRoutine.treatsPerDay ?? ENERGY_MODEL.defaultTreatsPerDay) * ENERGY_MODEL.treatKcal;
+}
+
+// ============================================
+// BALANCE
+// ============================================
+
+/**
+ * Daily kcal in and out, and the monthly weight change the difference adds up to
+ */
+export function calculateEnergyBalance(input: EnergyBalanceInput): EnergyBalance {
+  const intakeKcal = dailyIntake(input);
+  const expenditureKcal = populationExpenditure(input) * (input.individualFactor ?? 1);
+  const surplusKcal = intakeKcal - expenditureKcal;
+
+  return {
+    intakeKcal,
+    expenditureKcal,
+    surplusKcal,
+    weightChangeKg: (surplusKcal * ENERGY_MODEL.daysPerMonth) / ENERGY_MODEL.kcalPerKgWeightChange,
+  };
+}
+
+/**
+ * How this cat's needs compare to the population average, inferred from an adult
+ * holding its stated weight on its current routine (or, with weigh-ins, drifting at
+ * the measured rate). Clamped to the documented individual range, so a badly over-
+ * or under-fed cat still drifts.
+ * Kittens and cats without a stated weight get the population average.
+ */
+export function calibrateIndividualFactor(
+  input: EnergyBalanceInput,
+  weightKnown: boolean,
+  driftKgPerMonth: number = 0
+): number {
+  if (!weightKnown || input.ageMonths < 12) return 1;
+  const { min, max } = ENERGY_MODEL.individualFactorRange;
+  const surplusKcal = (driftKgPerMonth * ENERGY_MODEL.kcalPerKgWeightChange) / ENERGY_MODEL.daysPerMonth;
+  const neededFactor = (dailyIntake(input) - surplusKcal) / populationExpenditure(input);
+  return Math.min(max, Math.max(min, neededFactor));
+}
@@ -0,0 +1,104 @@
+// CatLife - Growth Curves
+// Expected weight by age for growing cats, by size category with overrides for slow-maturing breeds
+
+import { findBreedProfile, type SizeCategory } from "./breed-health-data";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GrowthCurve {
+  adultWeightKg: number;
+  birthWeightKg: number;
+  /** Age (months) at which the cat reaches its adult weight */
+  maturityMonths: number;
+  /** Share of adult weight reached by the end of the first year */
+  firstYearFraction: number;
+}
+
+export type GrowthAssessment = "under" | "on-track" | "over";
+
+// ============================================
+// MODEL PARAMETERS
+// ============================================
+
+/**
+ * Kittens follow a Gompertz curve through their first year (fast early growth that
+ * tapers off), then large breeds keep filling out more slowly until they mature.
+ */
+export const GROWTH_MODEL = {
+  birthWeightKg: { small: 0.09, medium: 0.1, large: 0.12 } as Record<SizeCategory, number>,
+  maturityMonths: { small: 10, medium: 12, large: 30 } as Record<SizeCategory, number>,
+  firstYearFraction: { small: 1, medium: 1, large: 0.8 } as Record<SizeCategory, number>,
+
+  /** Breeds known to keep growing well past their first year */
+  breedOverrides: {
+    "Maine Coon": { maturityMonths: 54, firstYearFraction: 0.65 }, // grows until 4-5
+    "Norwegian Forest Cat": { maturityMonths: 54, firstYearFraction: 0.7 },
+    Ragdoll: { maturityMonths: 48, firstYearFraction: 0.7 },
+    Ragamuffin: { maturityMonths: 48, firstYearFraction: 0.7 },
+    "British Shorthair": { maturityMonths: 36, firstYearFraction: 0.8 },
+    Chartreux: { maturityMonths: 36, firstYearFraction: 0.8 },
+  } as Record<string, { maturityMonths: number; firstYearFraction: number }>,
+
+  /** Share of the first-year target reached when the Gompertz phase ends */
+  firstYearCompletion: 0.99,
+
+  /** Weight vs. expected weight outside these ratios is flagged as under- or over-growth */
+  growthFlagThresholds: { under: 0.85, over: 1.15 },
+};
+
+// ============================================
+// CURVES
+// ============================================
+
+/**
+ * Growth curve for a breed whose adult weight is `adultWeightKg`
+ */
+export function getGrowthCurve(breed: string | null, adultWeightKg: number): GrowthCurve {
+  const profile = findBreedProfile(breed);
+  const sizeCategory: SizeCategory = profile?.sizeCategory ?? "medium";
+  const override = profile ? GROWTH_MODEL.breedOverrides[profile.breed] : undefined;
+
+  return {
+    adultWeightKg,
+    birthWeightKg: GROWTH_MODEL.birthWeightKg[sizeCategory],
+    maturityMonths: override?.maturityMonths ?? GROWTH_MODEL.maturityMonths[sizeCategory],
+    firstYearFraction: override?.firstYearFraction ?? GROWTH_MODEL.firstYearFraction[sizeCategory],
+  };
+}
+
+/**
+ * Typical weight at an age on this curve
+ */
+export function expectedWeightKg(curve: GrowthCurve, ageMonths: number): number {
+  if (ageMonths >= curve.maturityMonths) return curve.adultWeightKg;
+
+  // Gompertz phase: W(t) = A × e^(-B × e^(-kt)), from birth weight to the first-year target
+  const firstPhaseEnd = Math.min(curve.maturityMonths, 12);
+  const firstYearTarget = curve.adultWeightKg * curve.firstYearFraction;
+  const b = Math.log(firstYearTarget / curve.birthWeightKg);
+  const k = Math.log(b / -Math.log(GROWTH_MODEL.firstYearCompletion)) / firstPhaseEnd;
+  const gompertz = (t: number) => firstYearTarget * Math.exp(-b * Math.exp(-k * t));
+
+  if (ageMonths <= firstPhaseEnd) return gompertz(Math.max(0, ageMonths));
+
+  // Filling out: ease from the first-year weight to adult weight
+  const start = gompertz(firstPhaseEnd);
+  const progress = (ageMonths - firstPhaseEnd) / (curve.maturityMonths - firstPhaseEnd);
+  return start + (curve.adultWeightKg - start) * (1 - (1 - progress) ** 2);
+}
+
+export function isGrowing(curve: GrowthCurve, ageMonths: number): boolean {
+  return ageMonths < curve.maturityMonths;
+}
+
+/**
+ * Compare a growing cat's weight with the curve
+ */
+export function assessGrowth(weightKg: number, expectedKg: number): GrowthAssessment {
+  const ratio = weightKg / expectedKg;
+  if (ratio < GROWTH_MODEL.growthFlagThresholds.under) return "under";
+  if (ratio > GROWTH_MODEL.growthFlagThresholds.over) return "over";
+  return "on-track";
+}
@@ -0,0 +1,229 @@
+// CatLife - Health Scores
+// Breaks a simulated month into per-system scores (weight, renal, cardiac, ...) and a composite
+
+import type {
+  CatProfile,
+  CareRoutine,
+  ConditionSnapshot,
+  HealthDimension,
+  HealthScores,
+  HouseholdSetting,
+} from "@/types/catlife";
+import type { BreedHealthProfile, RiskLevel } from "./breed-health-data";
+import { getConditionDefinition } from "./condition-catalog";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface HealthScoreInput {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  ageMonths: number;
+  weightKg: number;
+  /** Ideal-range middle for grown cats, growth-curve weight for growing ones */
+  referenceWeightKg: number;
+  conditions: ConditionSnapshot[];
+  breedProfile: BreedHealthProfile | null;
+  /** Set when the cat shares its home with other cats */
+  household?: HouseholdPressure | null;
+}
+
+/** What sharing a home costs one cat at one point */
+export interface HouseholdPressure {
+  /** Boxes short of one per cat plus one */
+  missingLitterBoxes: number;
+  /** 1 when a cat has just moved in, fading to 0 as the household settles */
+  arrivalStress: number;
+}
+
+// ============================================
+// SCORING PARAMETERS
+// ============================================
+
+export const HEALTH_DIMENSIONS: HealthDimension[] = ["weight", "renal", "cardiac", "dental", "mobility", "urinary", "enrichment"];
+
+/** Which breed health risks count against which system */
+const BREED_RISK_PATTERNS: Record<HealthDimension, RegExp | null> = {
+  weight: null, // the weight score already reflects the cat's actual weight
+  renal: /kidney|renal|pkd|^amyloidosis$/i,
+  cardiac: /cardiomyopathy|hcm|dcm|heart/i,
+  dental: /dental/i,
+  mobility: /hip|patellar|arthritis|osteochondro|myopathy|spinal|manx/i,
+  urinary: /bladder|urinary/i,
+  enrichment: /hyperesthesia/i,
+};
+
+const BREED_RISK_PENALTY: Record<RiskLevel, number> = { high: 12, moderate: 6, low: 3 };
+
+/** Points lost per year of age once each system starts to age */
+const AGE_DECLINE: Record<Exclude<HealthDimension, "weight" | "enrichment">, { fromYears: number; perYear: number }> = {
+  renal: { fromYears: 7, perYear: 3 },
+  cardiac: { fromYears: 8, perYear: 2 },
+  dental: { fromYears: 3, perYear: 2.5 }, // most cats show dental disease by 3
+  mobility: { fromYears: 8, perYear: 3 },
+  urinary: { fromYears: 10, perYear: 1 },
+};
+
+/** Points lost per stage of each catalogued condition, by the system it hits */
+const CONDITION_PENALTIES: { conditionId: ConditionSnapshot["conditionId"]; dimension: HealthDimension; byStage: number[] }[] = [
+  { conditionId: "ckd", dimension: "renal", byStage: [15, 30, 50, 70] },
+  { conditionId: "hcm", dimension: "cardiac", byStage: [10, 25, 50, 70] },
+  { conditionId: "hyperthyroidism", dimension: "cardiac", byStage: [10, 5, 35] },
+  { conditionId: "diabetes", dimension: "urinary", byStage: [20, 10, 0, 30] },
+];
+
+/** Cats hold urine or go elsewhere when the box is dirty */
+const LITTER_PENALTY = {
+  urinary: { daily: 0, every_2_days: 4, weekly: 10, unknown: 0 },
+  enrichment: { daily: 0, every_2_days: 3, weekly: 10, unknown: 0 },
+};
+
+/**
+ * Too few boxes means queues, ambushes at the box and holding urine. A new cat means
+ * months of tension, and stress is the main trigger of idiopathic cystitis.
+ */
+export const HOUSEHOLD_STRESS = {
+  settlingMonths: 6,
+  perMissingLitterBox: { urinary: 4, enrichment: 5 },
+  maxMissingLitterBoxes: 3,
+  arrival: { urinary: 10, enrichment: 15 },
+};
+
+/** Composite = blend of the average and the weakest system, so one failing system isn't averaged away */
+const COMPOSITE_MIN_WEIGHT = 0.4;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+function ageDecline(dimension: keyof typeof AGE_DECLINE, ageYears: number): number {
+  const { fromYears, perYear } = AGE_DECLINE[dimension];
+  return Math.max(0, ageYears - fromYears) * perYear;
+}
+
+function breedRiskPenalty(dimension: HealthDimension, breedProfile: BreedHealthProfile | null, ageYears: number): number {
+  const pattern = BREED_RISK_PATTERNS[dimension];
+  if (!breedProfile || !pattern) return 0;
+  return breedProfile.healthRisks
+    .filter(risk => pattern.test(risk.condition) && ageYears >= risk.typicalOnsetYears)
+    .reduce((total, risk) => total + BREED_RISK_PENALTY[risk.riskLevel], 0);
+}
+
+function conditionPenalty(dimension: HealthDimension, conditions: ConditionSnapshot[]): number {
+  return conditions.reduce((total, snapshot) => {
+    const penalty = CONDITION_PENALTIES.find(p => p.conditionId === snapshot.conditionId && p.dimension === dimension);
+    if (!penalty) return total;
+    const stageIndex = getConditionDefinition(snapshot.conditionId)?.stages.findIndex(s => s.label === snapshot.stage) ?? -1;
+    const points = penalty.byStage[stageIndex] ?? 0;
+    // Management roughly halves the day-to-day burden of a stage
+    return total + (snapshot.managed ? points / 2 : points);
+  }, 0);
+}
+
+/**
+ * Shared-box and new-arrival pressure `monthsFromStart` into a run; null before the cat moves in
+ */
+export function householdPressure(setting: HouseholdSetting, monthsFromStart: number): HouseholdPressure | null {
+  if (monthsFromStart < setting.joinsAtMonth) return null;
+  const arrivals = [setting.joinsAtMonth, ...setting.housemateJoinMonths].filter(month => month <= monthsFromStart);
+  const arrivalStress = Math.max(
+    0,
+    ...arrivals.map(month => 1 - (monthsFromStart - month) / HOUSEHOLD_STRESS.settlingMonths)
+  );
+  return {
+    missingLitterBoxes: Math.max(0, arrivals.length + 1 - setting.litterBoxes),
+    arrivalStress,
+  };
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Score every body system for one simulated month
+ */
+export function scoreHealth(input: HealthScoreInput): HealthScores {
+  const { catProfile, careRoutine, ageMonths, weightKg, referenceWeightKg, conditions, breedProfile, household } = input;
+  const ageYears = ageMonths / 12;
+  const deviation = (weightKg - referenceWeightKg) / referenceWeightKg;
+  const overweight = Math.max(0, deviation);
+  const vetVisits = careRoutine.vetVisitsPerYear ?? 0;
+  const play = careRoutine.playMinutesPerDay ?? 15;
+  const foodType = careRoutine.foodType;
+  const litter = careRoutine.litterCleaningFrequency ?? "unknown";
+  const penalties = (dimension: HealthDimension) =>
+    breedRiskPenalty(dimension, breedProfile, ageYears) + conditionPenalty(dimension, conditions);
+  const missingBoxes = Math.min(household?.missingLitterBoxes ?? 0, HOUSEHOLD_STRESS.maxMissingLitterBoxes);
+  const arrivalStress = household?.arrivalStress ?? 0;
+
+  // Within 5% of the reference is perfect; 45% off is zero
+  const weight = 100 - Math.max(0, Math.abs(deviation) - 0.05) * 250;
+
+  const renal = 100
+    - ageDecline("renal", ageYears)
+    - (foodType === "dry" ? 5 : 0) // less water with an all-dry diet
+    - (vetVisits >= 1 ? 0 : ageYears >= 7 ? 5 : 0) // no senior bloodwork to catch it early
+    - penalties("renal");
+
+  const cardiac = 100
+    - ageDecline("cardiac", ageYears)
+    - overweight * 40
+    - penalties("cardiac");
+
+  // Yearly dental checks catch disease before it hurts; a daily treat habit doesn't help
+  const dental = 100
+    - ageDecline("dental", ageYears) * (vetVisits >= 1 ? 0.5 : 1)
+    - ((careRoutine.treatsPerDay ?? 2) > 5 ? 5 : 0)
+    - penalties("dental");
+
+  const mobility = 100
+    - ageDecline("mobility", ageYears)
+    - overweight * 80
+    + (play >= 20 ? 5 : play < 10 ? -5 : 0)
+    - penalties("mobility");
+
+  const urinary = 100
+    - ageDecline("urinary", ageYears)
+    - (foodType === "dry" ? 15 : foodType === "mixed" ? 5 : 0)
+    - overweight * 40
+    - (catProfile.indoorOutdoor === "indoor" && play < 15 ? 5 : 0)
+    - (catProfile.sex === "male" ? 5 : 0) // a narrower urethra makes males the ones that block
+    - LITTER_PENALTY.urinary[litter]
+    - missingBoxes * HOUSEHOLD_STRESS.perMissingLitterBox.urinary
+    - arrivalStress * HOUSEHOLD_STRESS.arrival.urinary
+    - penalties("urinary");
+
+  // Play is most of a house cat's enrichment; outdoor access covers part of it.
+  // Intact adults spray, yowl and roam, and a dirty or crowded box leads to house-soiling.
+  const playScore = play >= 30 ? 95 : play >= 15 ? 75 + ((play - 15) / 15) * 20 : 40 + (play / 15) * 35;
+  const enrichment = playScore
+    + (catProfile.indoorOutdoor === "outdoor" || catProfile.indoorOutdoor === "mixed" ? 5 : 0)
+    - (catProfile.neutered === false && ageYears >= 0.5 ? 10 : 0)
+    - LITTER_PENALTY.enrichment[litter]
+    - missingBoxes * HOUSEHOLD_STRESS.perMissingLitterBox.enrichment
+    - arrivalStress * HOUSEHOLD_STRESS.arrival.enrichment
+    - penalties("enrichment");
+
+  const scores = {
+    weight: clampScore(weight),
+    renal: clampScore(renal),
+    cardiac: clampScore(cardiac),
+    dental: clampScore(dental),
+    mobility: clampScore(mobility),
+    urinary: clampScore(urinary),
+    enrichment: clampScore(enrichment),
+  };
+  const values = HEALTH_DIMENSIONS.map(d => scores[d]);
+  const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    ...scores,
+    composite: clampScore(average * (1 - COMPOSITE_MIN_WEIGHT) + Math.min(...values) * COMPOSITE_MIN_WEIGHT),
+  };
+}
@@ -0,0 +1,293 @@
+// CatLife - Household Simulation
+// Several cats sharing bowls and litter boxes: a timeline for each cat, plus alerts for the home as a whole
+
+import type {
+  Household,
+  HouseholdAlert,
+  HouseholdCat,
+  HouseholdCatResult,
+  HouseholdFoodShare,
+  HouseholdResult,
+  HouseholdSetting,
+  SimulationStepSize,
+} from "@/types/catlife";
+import { ENERGY_MODEL } from "./energy-balance";
+import { HOUSEHOLD_STRESS } from "./health-scores";
+import { randomSeed } from "./random";
+import { simulatePoints } from "./simulation";
+import { deriveRunSeeds } from "./simulation-ensemble";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const MAX_HOUSEHOLD_CATS = 6;
+export const MAX_LITTER_BOXES = 12;
+
+/**
+ * Free-fed cats sharing bowls don't each eat their own portion. Owners portion by size,
+ * so the pool splits roughly like the portions, tilted toward whoever guards the bowl:
+ * usually the biggest adult, while seniors tend to give way.
+ */
+export const HOUSEHOLD_MODEL = {
+  dominantCatFactor: 1.15,
+  seniorFactor: 0.85,
+  seniorFromMonths: 120,
+  /** No cat eats less than half or more than one and a half times its portion */
+  shareRange: { min: 0.5, max: 1.5 },
+  /** Shares at least this far from 1 get an alert */
+  alertShareDeviation: 0.1,
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** A free-fed cat with a known portion, eating from the shared bowls */
+interface BowlSharer {
+  index: number;
+  joinsAtMonth: number;
+  portionKcal: number;
+  bowlFactor: number;
+}
+
+function startAgeMonths(cat: HouseholdCat): number {
+  return ((cat.catProfile.ageYears ?? 1) * 12) + (cat.catProfile.ageMonths ?? 0);
+}
+
+function catName(cat: HouseholdCat, index: number): string {
+  return cat.catProfile.name || `Cat ${index + 1}`;
+}
+
+/** Cats with no arrival date moved in long enough ago to have settled */
+function joinsAtMonth(cat: HouseholdCat): number {
+  return cat.joinsInMonths ?? -HOUSEHOLD_STRESS.settlingMonths;
+}
+
+/** A cat that hasn't moved in yet is simulated from the month it does, at the age it will be then */
+function runStartMonth(cat: HouseholdCat): number {
+  return Math.max(0, joinsAtMonth(cat));
+}
+
+function listNames(names: string[]): string {
+  return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+function formatMonths(months: number): string {
+  return months === 1 ? "1 month" : `${months} months`;
+}
+
+/**
+ * The run's start and every later arrival: the months when the household changes
+ */
+function changeMonths(joinMonths: number[]): number[] {
+  return [...new Set([0, ...joinMonths.filter(month => month > 0)])].sort((a, b) => a - b);
+}
+
+function findBowlSharers(cats: HouseholdCat[]): BowlSharer[] {
+  const sharers = cats
+    .map((cat, index) => ({ cat, index }))
+    .filter(({ cat }) => cat.careRoutine.feedingFrequency === 4 && cat.careRoutine.foodAmountOzPerDay !== null);
+
+  // The heaviest grown cat guards the bowl; a late arrival is judged at the age it moves in
+  const ageOnJoining = (cat: HouseholdCat) => startAgeMonths(cat) + runStartMonth(cat);
+  const adults = sharers.filter(({ cat }) => ageOnJoining(cat) >= 12 && cat.catProfile.weightKg !== null);
+  const dominant = adults.reduce<(typeof adults)[number] | null>(
+    (heaviest, entry) => (!heaviest || entry.cat.catProfile.weightKg! > heaviest.cat.catProfile.weightKg! ? entry : heaviest),
+    null
+  );
+
+  return sharers.map(({ cat, index }) => {
+    const foodType = cat.careRoutine.foodType ?? ENERGY_MODEL.defaultFoodType;
+    const senior = ageOnJoining(cat) >= HOUSEHOLD_MODEL.seniorFromMonths;
+    return {
+      index,
+      joinsAtMonth: joinsAtMonth(cat),
+      portionKcal: cat.careRoutine.foodAmountOzPerDay! * ENERGY_MODEL.foodKcalPerOz[foodType],
+      bowlFactor: (senior ? HOUSEHOLD_MODEL.seniorFactor : 1)
+        * (sharers.length > 1 && dominant?.index === index ? HOUSEHOLD_MODEL.dominantCatFactor : 1),
+    };
+  });
+}
+
+/**
+ * Each cat's share of the pooled food, relative to its own portion, among the cats present
+ */
+function shareOfPool(sharer: BowlSharer, present: BowlSharer[]): number {
+  const pooledKcal = present.reduce((sum, s) => sum + s.portionKcal, 0);
+  const weightedKcal = present.reduce((sum, s) => sum + s.portionKcal * s.bowlFactor, 0);
+  const { min, max } = HOUSEHOLD_MODEL.shareRange;
+  const share = (sharer.bowlFactor * pooledKcal) / weightedKcal;
+  return Math.round(Math.min(max, Math.max(min, share)) * 100) / 100;
+}
+
+/**
+ * When the cat's share changes as free-fed cats move in; empty if it never shares
+ */
+function foodSharesFor(index: number, sharers: BowlSharer[]): HouseholdFoodShare[] {
+  const sharer = sharers.find(s => s.index === index);
+  if (!sharer) return [];
+
+  const shares: HouseholdFoodShare[] = [];
+  let previous = 1;
+  for (const month of changeMonths(sharers.map(s => s.joinsAtMonth))) {
+    if (month < sharer.joinsAtMonth) continue;
+    const present = sharers.filter(s => s.joinsAtMonth <= month);
+    const share = present.length > 1 ? shareOfPool(sharer, present) : 1;
+    if (share !== previous) shares.push({ fromMonth: month, share });
+    previous = share;
+  }
+  return shares;
+}
+
+// ============================================
+// HOUSEHOLD ALERTS
+// ============================================
+
+function litterBoxAlert(household: Household, names: string[]): HouseholdAlert | null {
+  const joins = household.cats.map(joinsAtMonth);
+  const { litterBoxes } = household;
+  const catCount = joins.length;
+  if (catCount < litterBoxes) return null;
+
+  // Fewer boxes than cats is a warning, one per cat a nudge; either starts once enough cats have moved in
+  const short = catCount > litterBoxes;
+  const alertAtCats = short ? litterBoxes + 1 : litterBoxes;
+  const monthsFromNow = changeMonths(joins).find(month => joins.filter(join => join <= month).length >= alertAtCats) ?? 0;
+  const boxes = `${litterBoxes} litter box${litterBoxes === 1 ? "" : "es"}`;
+  return {
+    id: "household-litter-boxes",
+    monthsFromNow,
+    severity: short ? "warning" : "info",
+    message: short
+      ? `${catCount} cats, ${boxes}: expect queues, ambushes at the box and accidents elsewhere in the house.`
+      : `${catCount} cats, ${boxes}: one short of the usual rule.`,
+    recommendation: `The usual rule is one box per cat plus one (${catCount + 1} here), in different spots so no cat can guard them all.`,
+    catNames: names,
+  };
+}
+
+function foodCompetitionAlert(household: Household, sharers: BowlSharer[], names: string[]): HouseholdAlert | null {
+  const freeFed = household.cats
+    .map((cat, index) => ({ cat, index }))
+    .filter(({ cat }) => cat.careRoutine.feedingFrequency === 4);
+  if (freeFed.length < 2) return null;
+
+  const freeFedNames = freeFed.map(({ index }) => names[index]);
+  const monthsFromNow = changeMonths(freeFed.map(({ cat }) => joinsAtMonth(cat)))
+    .find(month => freeFed.filter(({ cat }) => joinsAtMonth(cat) <= month).length > 1) ?? 0;
+  const recommendation = "Measured meals in separate spots (or microchip feeders) let each cat eat its own portion and show who's eating what.";
+
+  // Without known portions there's no pool to split, only the warning that it can't be seen
+  if (sharers.length < 2) {
+    return {
+      id: "household-shared-bowls",
+      monthsFromNow,
+      severity: "info",
+      message: `${listNames(freeFedNames)} graze from shared bowls, so there's no telling who eats how much.`,
+      recommendation,
+      catNames: freeFedNames,
+    };
+  }
+
+  const outliers = sharers
+    .map(sharer => ({ sharer, share: shareOfPool(sharer, sharers) }))
+    .filter(({ share }) => Math.abs(share - 1) >= HOUSEHOLD_MODEL.alertShareDeviation);
+  if (outliers.length === 0) return null;
+
+  const describe = ({ sharer, share }: { sharer: BowlSharer; share: number }) =>
+    `${names[sharer.index]} eats about ${Math.round(Math.abs(share - 1) * 100)}% ${share > 1 ? "more" : "less"}`;
+  return {
+    id: "household-food-competition",
+    monthsFromNow,
+    severity: "warning",
+    message: `With shared free-fed bowls, ${listNames(outliers.map(describe))} than planned.`,
+    recommendation,
+    catNames: outliers.map(({ sharer }) => names[sharer.index]),
+  };
+}
+
+function arrivalAlerts(household: Household, names: string[]): HouseholdAlert[] {
+  const alerts: HouseholdAlert[] = [];
+  const { settlingMonths } = HOUSEHOLD_STRESS;
+
+  household.cats.forEach((cat, index) => {
+    const join = cat.joinsInMonths;
+    if (join === undefined || join <= -settlingMonths) return;
+    const name = names[index];
+    alerts.push({
+      id: `household-arrival-${index}`,
+      monthsFromNow: Math.max(0, join),
+      severity: "info",
+      message: join > 0
+        ? `${name} moves in: expect about ${formatMonths(settlingMonths)} of tension while the household settles.`
+        : `${name} moved in ${join === 0 ? "just now" : `${formatMonths(-join)} ago`} and the household is still settling.`,
+      recommendation: "Introduce slowly: a room of their own first, swapped bedding for scent, then short supervised meetings. Extra boxes, bowls and high perches keep the peace. Stress is the main trigger of cystitis, so watch for straining or peeing outside the box.",
+      catNames: names,
+    });
+  });
+
+  return alerts;
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Simulate every cat in the household on its own seed (derived from the household's, so the
+ * whole run replays), with the shared boxes, the shared bowls and any new arrivals applied.
+ * Each cat's portion is what calibrates its needs; its bowl share is what it actually eats.
+ * A cat still to move in is simulated from its arrival, and only eats from the bowls from then.
+ * Cats get points only: the household alerts are the analysis, and a run costs one pass per cat.
+ */
+export function simulateHousehold(
+  household: Household,
+  options: { seed?: number; stepSize?: SimulationStepSize; endAgeMonths?: number } = {}
+): HouseholdResult {
+  const seed = options.seed ?? randomSeed();
+  const seeds = deriveRunSeeds(seed, household.cats.length);
+  const names = household.cats.map(catName);
+  const sharers = findBowlSharers(household.cats);
+  const joins = household.cats.map(joinsAtMonth);
+
+  const cats: HouseholdCatResult[] = household.cats.map((cat, index) => {
+    const foodShares = foodSharesFor(index, sharers);
+    // The cat's run starts when it moves in, so its setting counts months from then
+    const start = runStartMonth(cat);
+    const setting: HouseholdSetting = {
+      litterBoxes: household.litterBoxes,
+      joinsAtMonth: joins[index] - start,
+      housemateJoinMonths: joins.filter((_, other) => other !== index).map(month => month - start),
+      foodShares: foodShares.map(({ fromMonth, share }) => ({ fromMonth: fromMonth - start, share })),
+    };
+    return {
+      name: names[index],
+      ...(cat.joinsInMonths !== undefined ? { joinsInMonths: cat.joinsInMonths } : {}),
+      foodShare: sharers.length > 1 && sharers.some(s => s.index === index)
+        ? foodShares[foodShares.length - 1]?.share ?? 1
+        : null,
+      points: simulatePoints({
+        catProfile: cat.catProfile,
+        careRoutine: cat.careRoutine,
+        startAgeMonths: startAgeMonths(cat) + start,
+        seed: seeds[index],
+        stepSize: options.stepSize,
+        endAgeMonths: options.endAgeMonths,
+        household: setting,
+      }),
+    };
+  });
+
+  const alerts = [
+    litterBoxAlert(household, names),
+    foodCompetitionAlert(household, sharers, names),
+    ...arrivalAlerts(household, names),
+  ].filter((alert): alert is HouseholdAlert => alert !== null);
+
+  return {
+    cats,
+    alerts: alerts.sort((a, b) => a.monthsFromNow - b.monthsFromNow),
+    seed,
+  };
+}
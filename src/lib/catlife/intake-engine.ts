@@ -0,0 +1,770 @@
+// CatLife - Intake Engine
+// Deterministic slot-filling chat coach with an optional LLM backend
+
+import type {
+  CatProfile,
+  CareRoutine,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatUpdates,
+  FieldConfidence,
+  NextAction,
+} from "@/types/catlife";
+import { DEFAULT_CAT_PROFILE, DEFAULT_CARE_ROUTINE } from "@/types/catlife";
+import { INTAKE_COACH_SYSTEM_PROMPT } from "./prompts";
+import { findBreedProfile } from "./breed-health-data";
+import { expectedWeightKg, getGrowthCurve } from "./growth-curves";
+import {
+  parseName,
+  parseAge,
+  parseSex,
+  parseNeutered,
+  parseBreed,
+  parseIndoorOutdoor,
+  parseWeight,
+  parseBodyCondition,
+  parseFoodType,
+  parseFoodAmount,
+  parseFeedingFrequency,
+  parseTreats,
+  parsePlayMinutes,
+  parseVetVisits,
+  parseLitterFrequency,
+  parseKnownConditions,
+  isAffirmative,
+  isNegative,
+  isUnknownAnswer,
+  type ParseMode,
+  type WeightRange,
+} from "./intake-parsers";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface IntakeBackend {
+  name: string;
+  respond(request: ChatRequest): Promise<ChatResponse>;
+}
+
+interface IntakeState {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  messages: ChatMessage[];
+}
+
+interface SlotUpdate {
+  catProfile?: Record<string, FieldConfidence>;
+  careRoutine?: Record<string, FieldConfidence>;
+  confidence: number;
+}
+
+interface IntakeSlot {
+  id: string;
+  /** Key fields must reach 0.9 confidence before moving on (intake rule 1) */
+  key: boolean;
+  /** Optional slots are skipped once asked, even if the answer wasn't understood */
+  optional: boolean;
+  /** Static text contained in the question, used to tell whether it was already asked */
+  marker: string;
+  /** Label used in "Just to double-check {name}'s {label}:" clarifications */
+  clarifyLabel?: string;
+  question: (catName: string) => string;
+  isFilled: (state: IntakeState) => boolean;
+  parse: (text: string, mode: ParseMode, state: IntakeState) => SlotUpdate | null;
+  /** Re-emit the current value at a new confidence (used when the user confirms) */
+  confirm?: (state: IntakeState, confidence: number) => SlotUpdate;
+  /** Low-confidence estimate when the user doesn't know */
+  fallback?: (state: IntakeState) => SlotUpdate;
+  /** Human-readable value for clarifications and summaries */
+  describe: (state: IntakeState) => string | null;
+  /** Fields to clear when the user rejects a clarification */
+  fields: { catProfile?: string[]; careRoutine?: string[] };
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const KEY_CONFIDENCE_THRESHOLD = 0.9;
+const PHOTO_REQUEST_MARKER = "share a photo";
+const CLARIFY_PREFIX = "Just to double-check";
+
+const GREETING = "Hey there! 👋 Let's learn about your cat. What's their name?";
+
+const DEFAULT_IDEAL_WEIGHT = { min: 3.5, max: 5.5 };
+
+/** A bare weight may be this far under or over the breed's ideal range (or a kitten's share of it) */
+const PLAUSIBLE_WEIGHT_FACTORS = { min: 0.6, max: 1.8 };
+
+const DEFAULT_FOOD_OZ: Record<string, number> = {
+  dry: 2.5,
+  wet: 5.5,
+  mixed: 4,
+  raw: 4.5,
+  other: 4,
+};
+
+// ============================================
+// SLOT HELPERS
+// ============================================
+
+function field(value: unknown, confidence: number): FieldConfidence {
+  return { value, confidence };
+}
+
+function profileUpdate(values: Record<string, unknown>, confidence: number): SlotUpdate {
+  const catProfile: Record<string, FieldConfidence> = {};
+  for (const [key, value] of Object.entries(values)) catProfile[key] = field(value, confidence);
+  return { catProfile, confidence };
+}
+
+function routineUpdate(values: Record<string, unknown>, confidence: number): SlotUpdate {
+  const careRoutine: Record<string, FieldConfidence> = {};
+  for (const [key, value] of Object.entries(values)) careRoutine[key] = field(value, confidence);
+  return { careRoutine, confidence };
+}
+
+function possessive(catName: string): string {
+  return catName.endsWith("s") ? `${catName}'` : `${catName}'s`;
+}
+
+function formatAge(years: number | null, months: number | null): string {
+  const y = years ?? 0;
+  const m = months ?? 0;
+  if (y === 0) return `${m} month${m === 1 ? "" : "s"} old`;
+  if (m === 0) return `${y} year${y === 1 ? "" : "s"} old`;
+  return `${y} year${y === 1 ? "" : "s"} and ${m} month${m === 1 ? "" : "s"} old`;
+}
+
+function kgToLbs(kg: number): number {
+  return Math.round(kg * 2.205 * 10) / 10;
+}
+
+/**
+ * Weights a bare number could plausibly mean for this cat: the breed's ideal range,
+ * scaled down along the growth curve for kittens, with room for under- and overweight cats
+ */
+function plausibleWeightRange(state: IntakeState): WeightRange {
+  const { breed, ageYears, ageMonths } = state.catProfile;
+  const ideal = findBreedProfile(breed)?.idealWeight ?? DEFAULT_IDEAL_WEIGHT;
+  let scale = 1;
+  if (ageYears !== null || ageMonths !== null) {
+    const adultKg = (ideal.min + ideal.max) / 2;
+    scale = expectedWeightKg(getGrowthCurve(breed, adultKg), (ageYears ?? 0) * 12 + (ageMonths ?? 0)) / adultKg;
+  }
+  return {
+    min: ideal.min * scale * PLAUSIBLE_WEIGHT_FACTORS.min,
+    max: ideal.max * scale * PLAUSIBLE_WEIGHT_FACTORS.max,
+  };
+}
+
+// ============================================
+// SLOT DEFINITIONS (asked in this order)
+// ============================================
+
+const SLOTS: IntakeSlot[] = [
+  {
+    id: "name",
+    key: false,
+    optional: false,
+    marker: "What's their name?",
+    question: () => GREETING,
+    isFilled: s => !!s.catProfile.name,
+    parse: (text, mode) => {
+      const parsed = parseName(text, mode);
+      return parsed ? profileUpdate({ name: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => s.catProfile.name,
+    fields: { catProfile: ["name"] },
+  },
+  {
+    id: "age",
+    key: true,
+    optional: false,
+    marker: "A rough guess is fine",
+    clarifyLabel: "age",
+    question: name => `How old is ${name}? A rough guess is fine (e.g. "3 years" or "8 months").`,
+    isFilled: s => s.catProfile.ageYears !== null || s.catProfile.ageMonths !== null,
+    parse: (text, mode) => {
+      const parsed = parseAge(text, mode);
+      return parsed ? profileUpdate(parsed.value, parsed.confidence) : null;
+    },
+    confirm: (s, confidence) => profileUpdate(
+      { ageYears: s.catProfile.ageYears ?? 0, ageMonths: s.catProfile.ageMonths ?? 0 },
+      confidence
+    ),
+    fallback: () => profileUpdate({ ageYears: 5, ageMonths: 0 }, 0.5),
+    describe: s => formatAge(s.catProfile.ageYears, s.catProfile.ageMonths),
+    fields: { catProfile: ["ageYears", "ageMonths"] },
+  },
+  {
+    id: "sex",
+    key: false,
+    optional: true,
+    marker: "a boy or a girl",
+    question: name => `Is ${name} a boy or a girl?`,
+    isFilled: s => s.catProfile.sex !== null,
+    parse: (text, mode) => {
+      const parsed = parseSex(text, mode);
+      return parsed ? profileUpdate({ sex: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => (s.catProfile.sex && s.catProfile.sex !== "unknown" ? s.catProfile.sex : null),
+    fields: { catProfile: ["sex"] },
+  },
+  {
+    id: "neutered",
+    key: false,
+    optional: true,
+    marker: "spayed or neutered",
+    question: name => `Is ${name} spayed or neutered?`,
+    isFilled: s => s.catProfile.neutered !== null,
+    parse: (text, mode) => {
+      const parsed = parseNeutered(text, mode);
+      return parsed ? profileUpdate({ neutered: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => (s.catProfile.neutered === null ? null : s.catProfile.neutered ? "fixed" : "not fixed"),
+    fields: { catProfile: ["neutered"] },
+  },
+  {
+    id: "breed",
+    key: false,
+    optional: true,
+    marker: "What breed is",
+    question: name => `What breed is ${name}? "Mixed" or "not sure" is totally fine.`,
+    isFilled: s => !!s.catProfile.breed,
+    parse: (text, mode) => {
+      const parsed = parseBreed(text, mode);
+      return parsed ? profileUpdate({ breed: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => s.catProfile.breed,
+    fields: { catProfile: ["breed"] },
+  },
+  {
+    id: "indoorOutdoor",
+    key: false,
+    optional: false,
+    marker: "indoor only, outdoor",
+    question: name => `Is ${name} indoor only, outdoor, or a bit of both?`,
+    isFilled: s => s.catProfile.indoorOutdoor !== null,
+    parse: (text, mode) => {
+      const parsed = parseIndoorOutdoor(text, mode);
+      return parsed ? profileUpdate({ indoorOutdoor: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => s.catProfile.indoorOutdoor,
+    fields: { catProfile: ["indoorOutdoor"] },
+  },
+  {
+    id: "weight",
+    key: true,
+    optional: false,
+    marker: "Pounds or kilograms",
+    clarifyLabel: "weight",
+    question: name => `About how much does ${name} weigh? Pounds or kilograms both work.`,
+    isFilled: s => s.catProfile.weightKg !== null,
+    parse: (text, mode, s) => {
+      const parsed = parseWeight(text, mode, plausibleWeightRange(s));
+      return parsed ? profileUpdate(parsed.value, parsed.confidence) : null;
+    },
+    confirm: (s, confidence) => profileUpdate({ weightKg: s.catProfile.weightKg }, confidence),
+    fallback: s => {
+      const ideal = findBreedProfile(s.catProfile.breed)?.idealWeight ?? DEFAULT_IDEAL_WEIGHT;
+      let estimate = (ideal.min + ideal.max) / 2;
+      if (s.catProfile.bodyCondition === "overweight") estimate *= 1.2;
+      else if (s.catProfile.bodyCondition === "underweight") estimate *= 0.85;
+      return profileUpdate(
+        { weightKg: Math.round(estimate * 10) / 10, weightSource: "unknown" },
+        0.6
+      );
+    },
+    describe: s => (s.catProfile.weightKg === null
+      ? null
+      : `${s.catProfile.weightKg} kg (${kgToLbs(s.catProfile.weightKg)} lbs)`),
+    fields: { catProfile: ["weightKg", "weightSource"] },
+  },
+  {
+    id: "foodType",
+    key: false,
+    optional: false,
+    marker: "dry kibble, wet food",
+    question: name => `What does ${name} eat — dry kibble, wet food, a mix, or raw?`,
+    isFilled: s => s.careRoutine.foodType !== null,
+    parse: (text, mode) => {
+      const parsed = parseFoodType(text, mode);
+      return parsed ? routineUpdate({ foodType: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => (s.careRoutine.foodType ? `${s.careRoutine.foodType} food` : null),
+    fields: { careRoutine: ["foodType"] },
+  },
+  {
+    id: "foodAmount",
+    key: true,
+    optional: false,
+    marker: "how much food",
+    clarifyLabel: "daily food",
+    question: name => `Roughly how much food does ${name} get per day? (e.g. "half a cup of kibble" or "one 3 oz can")`,
+    isFilled: s => s.careRoutine.foodAmountOzPerDay !== null,
+    parse: (text, mode, s) => {
+      const parsed = parseFoodAmount(text, mode, s.careRoutine.feedingFrequency);
+      return parsed ? routineUpdate({ foodAmountOzPerDay: parsed.value }, parsed.confidence) : null;
+    },
+    confirm: (s, confidence) => routineUpdate({ foodAmountOzPerDay: s.careRoutine.foodAmountOzPerDay }, confidence),
+    fallback: s => routineUpdate(
+      { foodAmountOzPerDay: DEFAULT_FOOD_OZ[s.careRoutine.foodType ?? "mixed"] },
+      0.6
+    ),
+    describe: s => (s.careRoutine.foodAmountOzPerDay === null
+      ? null
+      : `about ${s.careRoutine.foodAmountOzPerDay} oz of food per day`),
+    fields: { careRoutine: ["foodAmountOzPerDay"] },
+  },
+  {
+    id: "feedingFrequency",
+    key: false,
+    optional: true,
+    marker: "How many meals a day",
+    question: () => "How many meals a day is that — or is food left out all day?",
+    isFilled: s => s.careRoutine.feedingFrequency !== null,
+    parse: (text, mode) => {
+      const parsed = parseFeedingFrequency(text, mode);
+      return parsed ? routineUpdate({ feedingFrequency: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => {
+      const frequency = s.careRoutine.feedingFrequency;
+      if (frequency === null) return null;
+      return frequency === 4 ? "free-fed" : `${frequency} meal${frequency === 1 ? "" : "s"} a day`;
+    },
+    fields: { careRoutine: ["feedingFrequency"] },
+  },
+  {
+    id: "treats",
+    key: false,
+    optional: false,
+    marker: "How many treats",
+    question: name => `How many treats does ${name} get on a typical day?`,
+    isFilled: s => s.careRoutine.treatsPerDay !== null,
+    parse: (text, mode) => {
+      const parsed = parseTreats(text, mode);
+      return parsed ? routineUpdate({ treatsPerDay: parsed.value }, parsed.confidence) : null;
+    },
+    fallback: () => routineUpdate({ treatsPerDay: 2 }, 0.6),
+    describe: s => (s.careRoutine.treatsPerDay === null ? null : `${s.careRoutine.treatsPerDay} treats a day`),
+    fields: { careRoutine: ["treatsPerDay"] },
+  },
+  {
+    id: "play",
+    key: true,
+    optional: false,
+    marker: "minutes of active play",
+    clarifyLabel: "playtime",
+    question: name => `How many minutes of active play does ${name} get each day?`,
+    isFilled: s => s.careRoutine.playMinutesPerDay !== null,
+    parse: (text, mode) => {
+      const parsed = parsePlayMinutes(text, mode);
+      return parsed ? routineUpdate({ playMinutesPerDay: parsed.value }, parsed.confidence) : null;
+    },
+    confirm: (s, confidence) => routineUpdate({ playMinutesPerDay: s.careRoutine.playMinutesPerDay }, confidence),
+    fallback: () => routineUpdate({ playMinutesPerDay: 10 }, 0.6),
+    describe: s => (s.careRoutine.playMinutesPerDay === null
+      ? null
+      : `about ${s.careRoutine.playMinutesPerDay} minutes of play per day`),
+    fields: { careRoutine: ["playMinutesPerDay"] },
+  },
+  {
+    id: "vet",
+    key: true,
+    optional: false,
+    marker: "see the vet",
+    clarifyLabel: "vet visits",
+    question: name => `How often does ${name} see the vet?`,
+    isFilled: s => s.careRoutine.vetVisitsPerYear !== null,
+    parse: (text, mode) => {
+      const parsed = parseVetVisits(text, mode);
+      return parsed ? routineUpdate({ vetVisitsPerYear: parsed.value }, parsed.confidence) : null;
+    },
+    confirm: (s, confidence) => routineUpdate({ vetVisitsPerYear: s.careRoutine.vetVisitsPerYear }, confidence),
+    fallback: () => routineUpdate({ vetVisitsPerYear: 1 }, 0.6),
+    describe: s => {
+      const visits = s.careRoutine.vetVisitsPerYear;
+      if (visits === null) return null;
+      return `${visits} vet visit${visits === 1 ? "" : "s"} per year`;
+    },
+    fields: { careRoutine: ["vetVisitsPerYear"] },
+  },
+  {
+    id: "litter",
+    key: false,
+    optional: true,
+    marker: "litter box scooped",
+    question: () => "How often is the litter box scooped?",
+    isFilled: s => s.careRoutine.litterCleaningFrequency !== null,
+    parse: (text, mode) => {
+      const parsed = parseLitterFrequency(text, mode);
+      return parsed ? routineUpdate({ litterCleaningFrequency: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => {
+      const frequency = s.careRoutine.litterCleaningFrequency;
+      if (!frequency || frequency === "unknown") return null;
+      return `litter scooped ${frequency.replace(/_/g, " ")}`;
+    },
+    fields: { careRoutine: ["litterCleaningFrequency"] },
+  },
+  {
+    id: "conditions",
+    key: false,
+    optional: true,
+    marker: "known health conditions",
+    question: name => `Last one! Does ${name} have any known health conditions? Say "none" if not.`,
+    // knownConditions starts as [] so we can only tell it was answered by the question being asked
+    isFilled: s => s.catProfile.knownConditions.length > 0,
+    parse: (text, mode) => {
+      const parsed = parseKnownConditions(text, mode);
+      return parsed ? profileUpdate({ knownConditions: parsed.value }, parsed.confidence) : null;
+    },
+    describe: s => (s.catProfile.knownConditions.length > 0 ? s.catProfile.knownConditions.join(", ") : null),
+    fields: {},
+  },
+];
+
+// ============================================
+// STATE HELPERS
+// ============================================
+
+function toState(request: ChatRequest): IntakeState {
+  return {
+    catProfile: {
+      ...DEFAULT_CAT_PROFILE,
+      ...request.catProfile,
+      knownConditions: request.catProfile.knownConditions ?? [],
+    },
+    careRoutine: { ...DEFAULT_CARE_ROUTINE, ...request.careRoutine },
+    messages: request.messages,
+  };
+}
+
+function applyUpdate(state: IntakeState, update: SlotUpdate): IntakeState {
+  const catProfile = { ...state.catProfile } as unknown as Record<string, unknown>;
+  const careRoutine = { ...state.careRoutine } as unknown as Record<string, unknown>;
+  for (const [key, data] of Object.entries(update.catProfile ?? {})) catProfile[key] = data.value;
+  for (const [key, data] of Object.entries(update.careRoutine ?? {})) careRoutine[key] = data.value;
+  return {
+    ...state,
+    catProfile: catProfile as unknown as CatProfile,
+    careRoutine: careRoutine as unknown as CareRoutine,
+  };
+}
+
+function mergeUpdates(target: ChatUpdates, update: SlotUpdate): void {
+  if (update.catProfile) target.catProfile = { ...target.catProfile, ...update.catProfile };
+  if (update.careRoutine) target.careRoutine = { ...target.careRoutine, ...update.careRoutine };
+}
+
+function catNameOf(state: IntakeState): string {
+  return state.catProfile.name || "your cat";
+}
+
+function assistantMessages(state: IntakeState): string[] {
+  return state.messages.filter(m => m.role === "assistant").map(m => m.content);
+}
+
+function wasAsked(state: IntakeState, slot: IntakeSlot): boolean {
+  return assistantMessages(state).some(content => content.includes(slot.marker));
+}
+
+function isSlotDone(state: IntakeState, slot: IntakeSlot): boolean {
+  return slot.isFilled(state) || (slot.optional && wasAsked(state, slot));
+}
+
+function findPendingSlot(state: IntakeState): IntakeSlot | null {
+  return SLOTS.find(slot => !isSlotDone(state, slot)) ?? null;
+}
+
+function findAskedSlot(lastAssistant: string | null): IntakeSlot | null {
+  if (!lastAssistant) return null;
+  return SLOTS.find(slot => lastAssistant.includes(slot.marker)) ?? null;
+}
+
+/**
+ * Work out which key slot the previous assistant message was double-checking
+ */
+function findClarifyingSlot(lastAssistant: string | null): IntakeSlot | null {
+  if (!lastAssistant || !lastAssistant.includes(CLARIFY_PREFIX)) return null;
+  return SLOTS.find(slot => slot.clarifyLabel && lastAssistant.includes(`${slot.clarifyLabel}:`)) ?? null;
+}
+
+function clarificationMessage(state: IntakeState, slot: IntakeSlot): string {
+  const description = slot.describe(state) ?? "that";
+  const hint = slot.id === "age" ? ` A rough guess like "kitten", "adult" or "senior" works too.` : "";
+  return `${CLARIFY_PREFIX} ${possessive(catNameOf(state))} ${slot.clarifyLabel}: ${description}? Does that sound right?${hint}`;
+}
+
+function summarize(state: IntakeState): string {
+  const parts = SLOTS
+    .filter(slot => slot.id !== "name")
+    .map(slot => slot.describe(state))
+    .filter((part): part is string => !!part);
+  return parts.length > 0 ? `${catNameOf(state)}: ${parts.join(", ")}` : catNameOf(state);
+}
+
+// ============================================
+// RULE-BASED TURN
+// ============================================
+
+/**
+ * The opening message for a new chat
+ */
+export function getIntakeGreeting(): ChatResponse {
+  return { assistantMessage: GREETING, updates: {}, nextAction: "ask_question" };
+}
+
+/**
+ * Run one deterministic intake turn: parse the latest user message into
+ * field updates, then pick nextAction using the intake coach rules
+ */
+export function runRuleBasedIntake(request: ChatRequest): ChatResponse {
+  let state = toState(request);
+  const lastUser = [...state.messages].reverse().find(m => m.role === "user");
+  if (!lastUser) return getIntakeGreeting();
+
+  const lastUserIndex = state.messages.lastIndexOf(lastUser);
+  const lastAssistant = [...state.messages.slice(0, lastUserIndex)]
+    .reverse()
+    .find(m => m.role === "assistant")?.content ?? null;
+
+  const text = lastUser.content;
+  const updates: ChatUpdates = {};
+  const updatedKeySlots: { slot: IntakeSlot; confidence: number }[] = [];
+  let acknowledgement = "";
+  let understood = false;
+
+  const record = (slot: IntakeSlot, update: SlotUpdate) => {
+    mergeUpdates(updates, update);
+    state = applyUpdate(state, update);
+    understood = true;
+    if (slot.key) {
+      const existing = updatedKeySlots.findIndex(u => u.slot.id === slot.id);
+      if (existing >= 0) updatedKeySlots.splice(existing, 1);
+      updatedKeySlots.push({ slot, confidence: update.confidence });
+    }
+  };
+
+  // 1. Answering a clarification for a key field
+  const clarifying = findClarifyingSlot(lastAssistant);
+  let targetSlot: IntakeSlot | null = clarifying;
+
+  if (clarifying) {
+    const parsed = clarifying.parse(text, "pending", state);
+    if (parsed && !isAffirmative(text)) {
+      record(clarifying, { ...parsed, ...raiseConfidence(parsed, KEY_CONFIDENCE_THRESHOLD) });
+      acknowledgement = "Thanks for clarifying! ";
+    } else if (isAffirmative(text) && clarifying.confirm) {
+      record(clarifying, clarifying.confirm(state, 0.95));
+      acknowledgement = "Perfect! ";
+    } else if (isUnknownAnswer(text) && clarifying.confirm) {
+      record(clarifying, clarifying.confirm(state, KEY_CONFIDENCE_THRESHOLD));
+      acknowledgement = "No worries, we'll go with that estimate. ";
+    } else if (isNegative(text)) {
+      const cleared: SlotUpdate = { confidence: 0 };
+      for (const key of clarifying.fields.catProfile ?? []) {
+        cleared.catProfile = { ...cleared.catProfile, [key]: field(null, 0) };
+      }
+      for (const key of clarifying.fields.careRoutine ?? []) {
+        cleared.careRoutine = { ...cleared.careRoutine, [key]: field(null, 0) };
+      }
+      mergeUpdates(updates, cleared);
+      state = applyUpdate(state, cleared);
+      acknowledgement = "Oops, my mistake! ";
+      understood = true;
+    }
+  } else {
+    // 2. Answering the question we just asked (bare answers are allowed)
+    targetSlot = findAskedSlot(lastAssistant) ?? findPendingSlot(state);
+    if (targetSlot) {
+      const parsed = targetSlot.parse(text, "pending", state);
+      if (parsed) {
+        record(targetSlot, parsed);
+        if (targetSlot.id === "name") acknowledgement = `${state.catProfile.name} — what a great name! 🐱 `;
+      } else if (isUnknownAnswer(text) && targetSlot.fallback) {
+        record(targetSlot, targetSlot.fallback(state));
+        acknowledgement = "No problem, a guess is fine. ";
+      } else if (isUnknownAnswer(text) && targetSlot.optional) {
+        acknowledgement = "No problem! ";
+        understood = true;
+      }
+    }
+  }
+
+  // Unanswered clarification: ask again, without reading the answer as other fields
+  if (clarifying && !understood) {
+    return {
+      assistantMessage: `Sorry, I didn't quite catch that. ${clarificationMessage(state, clarifying)}`,
+      updates,
+      nextAction: "ask_clarification",
+    };
+  }
+
+  // 3. Pick up anything else the user volunteered ("she's 3, indoor only, about 9 lbs")
+  for (const slot of SLOTS) {
+    if (slot === targetSlot) continue;
+    const parsed = slot.parse(text, "strict", state);
+    // "Her name is Tabby" names the cat; it doesn't describe the breed
+    const echoesName = parsed?.catProfile?.breed?.value === state.catProfile.name;
+    if (parsed && !echoesName) record(slot, parsed);
+  }
+  const bodyCondition = parseBodyCondition(text);
+  if (bodyCondition) {
+    const update = profileUpdate({ bodyCondition: bodyCondition.value }, bodyCondition.confidence);
+    mergeUpdates(updates, update);
+    state = applyUpdate(state, update);
+  }
+
+  if (understood && !acknowledgement) acknowledgement = "Got it! ";
+
+  // Rule 1: any key field below 0.9 confidence must be clarified
+  const uncertain = updatedKeySlots.find(u => u.confidence < KEY_CONFIDENCE_THRESHOLD);
+  if (uncertain) {
+    return {
+      assistantMessage: `${acknowledgement}${clarificationMessage(state, uncertain.slot)}`,
+      updates,
+      nextAction: "ask_clarification",
+    };
+  }
+
+  const pending = findPendingSlot(state);
+  if (pending) {
+    const catName = catNameOf(state);
+    const prefix = understood ? acknowledgement : "Sorry, I didn't quite catch that. ";
+    // Summarize once the profile is done and we move on to the care routine
+    const summary = pending.id === "foodType" && understood ? `So far, I know ${summarize(state)}. ` : "";
+    return {
+      assistantMessage: `${prefix}${summary}${pending.question(catName)}`,
+      updates,
+      nextAction: "ask_question" as NextAction,
+    };
+  }
+
+  // Rule 2 & 3: photo once the basics are in, then hand off to the simulation
+  const photoRequested = assistantMessages(state).some(content => content.includes(PHOTO_REQUEST_MARKER));
+  if (!photoRequested) {
+    return {
+      assistantMessage: `${acknowledgement}So far, I know ${summarize(state)}. 📸 Could you ${PHOTO_REQUEST_MARKER} of ${catNameOf(state)}? It helps me double-check body condition and design their avatar.`,
+      updates,
+      nextAction: "request_photo",
+    };
+  }
+
+  return {
+    assistantMessage: `${acknowledgement}I have everything I need! Let's run ${possessive(catNameOf(state))} lifetime health simulation. 🐱`,
+    updates,
+    nextAction: "ready_for_simulation",
+  };
+}
+
+function raiseConfidence(update: SlotUpdate, minimum: number): SlotUpdate {
+  const raise = (fields?: Record<string, FieldConfidence>) => {
+    if (!fields) return undefined;
+    const raised: Record<string, FieldConfidence> = {};
+    for (const [key, data] of Object.entries(fields)) {
+      raised[key] = field(data.value, Math.max(data.confidence, minimum));
+    }
+    return raised;
+  };
+  return {
+    catProfile: raise(update.catProfile),
+    careRoutine: raise(update.careRoutine),
+    confidence: Math.max(update.confidence, minimum),
+  };
+}
+
+// ============================================
+// BACKENDS
+// ============================================
+
+export const ruleBasedIntakeBackend: IntakeBackend = {
+  name: "rules",
+  respond: async (request) => runRuleBasedIntake(request),
+};
+
+const NEXT_ACTIONS: NextAction[] = [
+  "ask_question",
+  "ask_clarification",
+  "request_photo",
+  "photo_analysis_pending",
+  "ready_for_simulation",
+];
+
+function isChatResponse(value: unknown): value is ChatResponse {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.assistantMessage === "string" &&
+    typeof candidate.updates === "object" &&
+    candidate.updates !== null &&
+    NEXT_ACTIONS.includes(candidate.nextAction as NextAction)
+  );
+}
+
+/**
+ * LLM-backed intake using INTAKE_COACH_SYSTEM_PROMPT.
+ * Falls back to the rule-based engine on any network or format error.
+ */
+export function createOpenAIIntakeBackend(apiKey: string, model: string): IntakeBackend {
+  return {
+    name: "openai",
+    respond: async (request) => {
+      try {
+        const response = await fetch("https://api.openai.com/v1/chat/completions", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: INTAKE_COACH_SYSTEM_PROMPT },
+              {
+                role: "system",
+                content: `Current data: ${JSON.stringify({
+                  catProfile: request.catProfile,
+                  careRoutine: request.careRoutine,
+                })}`,
+              },
+              ...request.messages.map(m => ({ role: m.role, content: m.content })),
+            ],
+          }),
+        });
+
+        if (!response.ok) {
+          console.warn("[CatLife] Intake LLM returned non-OK status, using rule-based engine");
+          return runRuleBasedIntake(request);
+        }
+
+        const data = await response.json();
+        const parsed: unknown = JSON.parse(data.choices?.[0]?.message?.content ?? "null");
+        if (!isChatResponse(parsed)) {
+          console.warn("[CatLife] Intake LLM returned malformed JSON, using rule-based engine");
+          return runRuleBasedIntake(request);
+        }
+        return parsed;
+      } catch (error) {
+        console.error("[CatLife] Intake LLM error:", error);
+        return runRuleBasedIntake(request);
+      }
+    },
+  };
+}
+
+/**
+ * Pick the intake backend from the environment.
+ * Rules are the default; set CATLIFE_INTAKE_BACKEND=openai to use the LLM.
+ */
+export function getIntakeBackend(): IntakeBackend {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (process.env.CATLIFE_INTAKE_BACKEND === "openai" && apiKey) {
+    return createOpenAIIntakeBackend(apiKey, process.env.CATLIFE_INTAKE_MODEL || "gpt-4o-mini");
+  }
+  return ruleBasedIntakeBackend;
+}
@@ -0,0 +1,609 @@
+// CatLife - Intake Free-Text Parsers
+// Turns chat answers ("9 lbs", "half a cup of kibble", "indoor only") into typed values with confidence
+
+import type {
+  Sex,
+  BodyCondition,
+  IndoorOutdoor,
+  WeightSource,
+  FoodType,
+  FeedingFrequency,
+  LitterCleaningFrequency,
+} from "@/types/catlife";
+import { BREED_HEALTH_DATABASE } from "./breed-health-data";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ParsedValue<T> {
+  value: T;
+  confidence: number;
+}
+
+/**
+ * "strict" parsing only accepts answers with explicit units or keywords
+ * (safe to run on any message); "pending" also accepts bare answers like "9"
+ * because we know which question the user is replying to.
+ */
+export type ParseMode = "strict" | "pending";
+
+/** Weights (kg) a bare number may be read as, e.g. from the cat's breed and age */
+export interface WeightRange {
+  min: number;
+  max: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const LBS_TO_KG = 0.453592;
+const GRAMS_PER_OZ = 28.35;
+
+// Dry food weighs roughly 4.5 oz per 8 oz cup ("half a cup" ≈ 2-2.5 oz)
+const DRY_OZ_PER_CUP = 4.5;
+const DEFAULT_CAN_OZ = 3;
+
+/** Anything a cat could weigh, used when nothing narrower is known */
+const ANY_CAT_WEIGHT: WeightRange = { min: 0.5, max: 15 };
+const FOOD_MEASURE_PATTERN = /\b(cups?|oz|ounces?|grams?|g|cans?|tins?|pouch(es)?|scoops?|tbsp|tablespoons?|teaspoons?|handfuls?|kibble|food|meals?|treats?)\b/;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, none: 0, no: 0,
+  a: 1, an: 1, one: 1, once: 1, single: 1,
+  two: 2, twice: 2, couple: 2, pair: 2,
+  three: 3, thrice: 3, few: 3,
+  four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30,
+  forty: 40, "forty-five": 45, sixty: 60,
+  half: 0.5, quarter: 0.25,
+};
+
+const NUMBER_PATTERN = "(\\d+(?:\\.\\d+)?|zero|none|an?|one|once|single|two|twice|couple|pair|three|thrice|few|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty|thirty|forty-five|forty|sixty|half|quarter)";
+
+// Bare answers ("two", "a couple") must not treat "a", "an" or "no" as numbers
+const QUANTITY_PATTERN = "(\\d+(?:\\.\\d+)?|zero|one|single|two|couple|pair|three|few|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty|thirty|forty-five|forty|sixty|half|quarter)";
+
+const APPROXIMATE_PATTERN = /\b(about|around|roughly|approx(imately)?|maybe|probably|i think|i guess|ish|or so|give or take|not sure|guess)\b|~/i;
+const UNKNOWN_PATTERN = /\b(don'?t know|do not know|not sure|no idea|unsure|idk|dunno|can'?t remember|no clue)\b/i;
+const AFFIRMATIVE_PATTERN = /^\s*(yes|yep|yeah|yup|ya|correct|right|that'?s right|sounds right|exactly|ok|okay|sure|affirmative|mhm)\b/i;
+const NEGATIVE_PATTERN = /^\s*(no|nope|nah|not really|wrong|incorrect)\b/i;
+
+// ============================================
+// GENERIC HELPERS
+// ============================================
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, " ").trim();
+}
+
+function toNumber(token: string): number | null {
+  const cleaned = token.toLowerCase();
+  if (cleaned in NUMBER_WORDS) return NUMBER_WORDS[cleaned];
+  const value = parseFloat(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Read the first number in a string, including ranges ("8-10") and
+ * "and a half" suffixes. Ranges return their midpoint.
+ */
+function readQuantity(text: string): { value: number; isRange: boolean } | null {
+  const range = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/);
+  if (range) {
+    return { value: (parseFloat(range[1]) + parseFloat(range[2])) / 2, isRange: true };
+  }
+
+  const match = text.match(new RegExp(`\\b${QUANTITY_PATTERN}\\b`, "i"));
+  if (!match) return null;
+
+  let value = toNumber(match[1]);
+  if (value === null) return null;
+  if (/and a half/.test(text)) value += 0.5;
+  return { value, isRange: false };
+}
+
+/**
+ * Explicit answers get 0.95; ranges and hedges ("about", "maybe") drop below
+ * the 0.9 clarification threshold. When the match position is known, only
+ * hedges just before it count, so "about 16 lbs" doesn't soften "12 years old".
+ */
+function baseConfidence(text: string, isRange = false, matchIndex?: number): number {
+  if (isRange) return 0.75;
+  const context = matchIndex === undefined
+    ? text
+    : text.slice(Math.max(0, matchIndex - 20), matchIndex + 30);
+  if (APPROXIMATE_PATTERN.test(context)) return 0.8;
+  return 0.95;
+}
+
+export function isAffirmative(text: string): boolean {
+  return AFFIRMATIVE_PATTERN.test(normalize(text));
+}
+
+export function isNegative(text: string): boolean {
+  return NEGATIVE_PATTERN.test(normalize(text));
+}
+
+export function isUnknownAnswer(text: string): boolean {
+  return UNKNOWN_PATTERN.test(normalize(text));
+}
+
+function titleCase(text: string): string {
+  return text
+    .split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(" ");
+}
+
+// ============================================
+// PROFILE PARSERS
+// ============================================
+
+const NAME_STOPWORDS = new Set([
+  "my", "cat", "cats", "is", "it's", "its", "her", "his", "name", "named", "called",
+  "we", "call", "him", "them", "the", "a", "an", "she's", "he's", "they're", "our",
+  "kitty", "kitten", "i", "this", "that", "and", "hi", "hello", "hey",
+]);
+
+/**
+ * Parse a cat's name, e.g. "Her name is Mochi" or just "mochi"
+ */
+export function parseName(text: string, mode: ParseMode): ParsedValue<string> | null {
+  const explicit = text.match(/\b(?:name is|named|called|call (?:him|her|them|it))\s+([A-Za-z][A-Za-z'-]*(?:\s+[A-Z][A-Za-z'-]*)?)/i);
+  if (explicit) {
+    return { value: titleCase(explicit[1]), confidence: 0.95 };
+  }
+  if (mode !== "pending") return null;
+
+  const words = text
+    .replace(/[^A-Za-z'\s-]/g, " ")
+    .split(/\s+/)
+    .filter(word => word && !NAME_STOPWORDS.has(word.toLowerCase()));
+  if (words.length === 0 || words.length > 3) return null;
+
+  return {
+    value: titleCase(words.slice(0, 2).join(" ")),
+    confidence: words.length === 1 ? 0.95 : 0.85,
+  };
+}
+
+const LIFE_STAGE_AGES: { pattern: RegExp; years: number; months: number }[] = [
+  { pattern: /\bkitten\b/, years: 0, months: 6 },
+  { pattern: /\byoung\b/, years: 2, months: 0 },
+  { pattern: /\b(senior|old|elderly)\b/, years: 12, months: 0 },
+  { pattern: /\badult\b/, years: 6, months: 0 },
+];
+
+/**
+ * Parse age, e.g. "3 years old", "18 months", "2 and a half", "senior"
+ */
+export function parseAge(
+  text: string,
+  mode: ParseMode
+): ParsedValue<{ ageYears: number; ageMonths: number }> | null {
+  const normalized = normalize(text);
+  // Outside the age question, "twice a year" or "every 2 months" must not read as an age
+  if (mode === "strict" && !/\b(old|age|aged)\b/.test(normalized)) return null;
+
+  const years = normalized.match(new RegExp(`${NUMBER_PATTERN}(?:\\s+and a half)?\\s*(?:-\\s*)?(?:years?|yrs?|y\\.?o\\.?)\\b`));
+  const months = normalized.match(new RegExp(`${NUMBER_PATTERN}\\s*(?:-\\s*)?(?:months?|mos?)\\b`));
+
+  if (years || months) {
+    let totalMonths = 0;
+    if (years) {
+      const value = toNumber(years[1]) ?? 0;
+      totalMonths += (value + (/and a half/.test(years[0]) ? 0.5 : 0)) * 12;
+    }
+    if (months) totalMonths += toNumber(months[1]) ?? 0;
+    totalMonths = Math.round(totalMonths);
+    return {
+      value: { ageYears: Math.floor(totalMonths / 12), ageMonths: totalMonths % 12 },
+      confidence: baseConfidence(normalized, false, (years ?? months)?.index),
+    };
+  }
+
+  if (mode !== "pending") return null;
+
+  const stage = LIFE_STAGE_AGES.find(s => s.pattern.test(normalized));
+  if (stage) {
+    return { value: { ageYears: stage.years, ageMonths: stage.months }, confidence: 0.7 };
+  }
+
+  const quantity = readQuantity(normalized);
+  if (!quantity || quantity.value > 30) return null;
+  const totalMonths = Math.round(quantity.value * 12);
+  return {
+    value: { ageYears: Math.floor(totalMonths / 12), ageMonths: totalMonths % 12 },
+    confidence: Math.min(baseConfidence(normalized, quantity.isRange), 0.9),
+  };
+}
+
+/**
+ * Parse sex from explicit words; pronouns only count when answering the question
+ */
+export function parseSex(text: string, mode: ParseMode): ParsedValue<Sex> | null {
+  const normalized = normalize(text);
+  if (/\b(female|girl|queen|lady)\b/.test(normalized)) return { value: "female", confidence: 0.95 };
+  if (/\b(male|boy|tomcat)\b/.test(normalized)) return { value: "male", confidence: 0.95 };
+  if (mode !== "pending") return null;
+
+  if (/\b(she|her)\b/.test(normalized)) return { value: "female", confidence: 0.9 };
+  if (/\b(he|him|his)\b/.test(normalized)) return { value: "male", confidence: 0.9 };
+  if (isUnknownAnswer(normalized)) return { value: "unknown", confidence: 0.9 };
+  return null;
+}
+
+/**
+ * Parse spay/neuter status
+ */
+export function parseNeutered(text: string, mode: ParseMode): ParsedValue<boolean> | null {
+  const normalized = normalize(text);
+  if (/\b(not|isn'?t|hasn'?t been|never been)\s+(yet\s+)?(neutered|spayed|fixed|desexed)\b|\bintact\b/.test(normalized)) {
+    return { value: false, confidence: 0.95 };
+  }
+  if (/\b(neutered|spayed|fixed|desexed|snipped)\b/.test(normalized)) {
+    return { value: true, confidence: 0.95 };
+  }
+  if (mode !== "pending") return null;
+
+  if (isAffirmative(normalized)) return { value: true, confidence: 0.9 };
+  if (isNegative(normalized)) return { value: false, confidence: 0.9 };
+  return null;
+}
+
+/**
+ * Match a breed from the health database (names and aliases)
+ */
+export function parseBreed(text: string, mode: ParseMode): ParsedValue<string> | null {
+  const normalized = normalize(text);
+
+  // Prefer the longest match so "exotic shorthair" beats "shorthair"-style aliases
+  let best: { breed: string; length: number } | null = null;
+  for (const profile of BREED_HEALTH_DATABASE) {
+    for (const alias of [profile.breed.toLowerCase(), ...profile.aliases]) {
+      const pattern = new RegExp(`\\b${alias.replace(/[-/\\^$*+?.()|[\]{}]/g, "\\$&")}\\b`);
+      if (pattern.test(normalized) && (!best || alias.length > best.length)) {
+        best = { breed: profile.breed, length: alias.length };
+      }
+    }
+  }
+  if (best) return { value: best.breed, confidence: 0.95 };
+
+  if (mode !== "pending") return null;
+
+  if (/\b(mix|mixed|moggy|moggie|mutt|rescue|stray|domestic|regular|normal|unknown)\b/.test(normalized) || isUnknownAnswer(normalized)) {
+    const longhair = /\b(long ?hair(ed)?|fluffy|floof)/.test(normalized);
+    return { value: longhair ? "Domestic Longhair" : "Domestic Shorthair", confidence: 0.8 };
+  }
+
+  const words = normalized.replace(/[^a-z\s-]/g, "").split(/\s+/).filter(Boolean);
+  if (words.length === 0 || words.length > 4) return null;
+  return { value: titleCase(words.join(" ")), confidence: 0.7 };
+}
+
+/**
+ * Parse indoor/outdoor lifestyle ("indoor only", "goes out in the garden", "both")
+ */
+export function parseIndoorOutdoor(text: string, mode: ParseMode): ParsedValue<IndoorOutdoor> | null {
+  const normalized = normalize(text);
+
+  if (/\b(both|mixed|indoor\s*\/\s*outdoor|indoor-outdoor|sometimes (goes )?out(side)?|catio|supervised|on a leash|harness)\b/.test(normalized)) {
+    return { value: "mixed", confidence: 0.9 };
+  }
+  if (/\b(indoors?( only)?|inside( only)?|house ?cat|apartment|never goes out(side)?|doesn'?t go out(side)?)\b/.test(normalized)) {
+    return { value: "indoor", confidence: 0.95 };
+  }
+  if (/\b(outdoors?|outside|barn|roams|free[- ]roaming|yard|garden)\b/.test(normalized)) {
+    return { value: "outdoor", confidence: 0.85 };
+  }
+  return mode === "pending" && isUnknownAnswer(normalized)
+    ? { value: "indoor", confidence: 0.6 }
+    : null;
+}
+
+/**
+ * Parse weight ("9 lbs", "4.2 kg", "about 10 pounds"); bare numbers are
+ * ambiguous between units, so they must fit `plausible` and come back with low confidence.
+ * Food measures ("half a cup") are never read as a weight.
+ */
+export function parseWeight(
+  text: string,
+  mode: ParseMode,
+  plausible: WeightRange = ANY_CAT_WEIGHT
+): ParsedValue<{ weightKg: number; weightSource: WeightSource }> | null {
+  const normalized = normalize(text);
+  const weightSource: WeightSource = /\bvet\b/.test(normalized) ? "vet_recent" : "user_estimate";
+
+  const withUnit = normalized.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(lbs?|pounds?|kgs?|kilos?|kilograms?)\b/);
+  if (withUnit) {
+    const low = parseFloat(withUnit[1]);
+    const high = withUnit[2] ? parseFloat(withUnit[2]) : low;
+    const value = (low + high) / 2;
+    const isPounds = /^(lb|pound)/.test(withUnit[3]);
+    const kg = isPounds ? value * LBS_TO_KG : value;
+    if (kg < 0.5 || kg > 15) return null;
+    return {
+      value: { weightKg: round(kg, 1), weightSource },
+      confidence: baseConfidence(normalized, low !== high, withUnit.index),
+    };
+  }
+
+  if (mode !== "pending" || FOOD_MEASURE_PATTERN.test(normalized)) return null;
+
+  const quantity = readQuantity(normalized);
+  if (!quantity) return null;
+  // Cats rarely exceed 8 kg, so larger bare numbers are almost certainly pounds
+  const kg = quantity.value > 8 ? quantity.value * LBS_TO_KG : quantity.value;
+  if (kg < plausible.min || kg > plausible.max) return null;
+  return { value: { weightKg: round(kg, 1), weightSource }, confidence: 0.7 };
+}
+
+/**
+ * Parse body condition words ("chonky", "a bit thin", "healthy weight")
+ */
+export function parseBodyCondition(text: string): ParsedValue<BodyCondition> | null {
+  const normalized = normalize(text);
+  if (/\b(chonk(y|er)?|chunky|fat|overweight|heavy|plump|pudgy|round|big boned|fluffy belly)\b/.test(normalized)) {
+    return { value: "overweight", confidence: 0.8 };
+  }
+  if (/\b(skinny|thin|underweight|bony|scrawny|lean)\b/.test(normalized)) {
+    return { value: "underweight", confidence: 0.8 };
+  }
+  if (/\b(ideal|healthy weight|normal weight|just right|fit|trim)\b/.test(normalized)) {
+    return { value: "ideal", confidence: 0.8 };
+  }
+  return null;
+}
+
+// ============================================
+// CARE ROUTINE PARSERS
+// ============================================
+
+/**
+ * Parse food type ("kibble", "canned", "both wet and dry", "raw")
+ */
+export function parseFoodType(text: string, mode: ParseMode): ParsedValue<FoodType> | null {
+  const normalized = normalize(text);
+  const dry = /\b(dry|kibble|biscuits?|crunch(y|ies))\b/.test(normalized);
+  const wet = /\b(wet|canned|cans?|pate|pâté|pouch(es)?|gravy|tins?)\b/.test(normalized);
+
+  if ((dry && wet) || /\b(mix|mixed|both|combination)\b/.test(normalized)) {
+    return { value: "mixed", confidence: 0.9 };
+  }
+  if (/\braw\b/.test(normalized)) return { value: "raw", confidence: 0.95 };
+  if (dry) return { value: "dry", confidence: 0.95 };
+  if (wet) return { value: "wet", confidence: 0.95 };
+  if (/\b(home ?made|fresh|cooked|prescription|vet diet)\b/.test(normalized)) {
+    return { value: "other", confidence: 0.85 };
+  }
+  return mode === "pending" && isUnknownAnswer(normalized)
+    ? { value: "mixed", confidence: 0.6 }
+    : null;
+}
+
+/**
+ * Parse daily food amount in ounces ("half a cup of kibble", "two 3 oz cans", "80g")
+ */
+export function parseFoodAmount(
+  text: string,
+  mode: ParseMode,
+  feedingFrequency: FeedingFrequency | null = null
+): ParsedValue<number> | null {
+  const normalized = normalize(text);
+  const perMeal = /\b(per|each|a|every) (meal|feeding|serving)\b/.test(normalized);
+  const mealMultiplier = perMeal && feedingFrequency && feedingFrequency < 4 ? feedingFrequency : 1;
+
+  const finish = (oz: number, confidence: number): ParsedValue<number> | null => {
+    const total = oz * mealMultiplier;
+    if (total <= 0 || total > 32) return null;
+    return { value: round(total, 1), confidence };
+  };
+
+  // Cans: "two 3 oz cans", "a 5.5oz can", "1 can"
+  const cans = normalized.match(new RegExp(`${NUMBER_PATTERN}?\\s*(?:(\\d+(?:\\.\\d+)?)\\s*-?\\s*(?:oz|ounces?)\\s*)?(?:cans?|tins?|pouch(?:es)?)\\b`));
+  if (cans && (cans[1] || cans[2])) {
+    const count = cans[1] ? toNumber(cans[1]) ?? 1 : 1;
+    const canOz = cans[2] ? parseFloat(cans[2]) : DEFAULT_CAN_OZ;
+    return finish(count * canOz, cans[2] ? baseConfidence(normalized, false, cans.index) : 0.8);
+  }
+
+  const ounces = normalized.match(/(\d+(?:\.\d+)?)\s*(?:oz|ounces?)\b/);
+  if (ounces) return finish(parseFloat(ounces[1]), baseConfidence(normalized, false, ounces.index));
+
+  const grams = normalized.match(/(\d+(?:\.\d+)?)\s*(?:g|grams?)\b/);
+  if (grams) return finish(parseFloat(grams[1]) / GRAMS_PER_OZ, Math.min(baseConfidence(normalized, false, grams.index), 0.9));
+
+  // Cups are a volume, so converting to weight is always an approximation
+  if (/\bhalf (a )?cup\b/.test(normalized)) return finish(0.5 * DRY_OZ_PER_CUP, 0.85);
+  const cups = normalized.match(new RegExp(`${NUMBER_PATTERN}(?:\\s+and a half)?\\s*(?:of\\s+a\\s+)?cups?\\b`));
+  if (cups) {
+    const count = (toNumber(cups[1]) ?? 1) + (/and a half/.test(cups[0]) ? 0.5 : 0);
+    return finish(count * DRY_OZ_PER_CUP, 0.85);
+  }
+
+  const scoops = normalized.match(new RegExp(`${NUMBER_PATTERN}\\s*scoops?\\b`));
+  if (scoops) return finish((toNumber(scoops[1]) ?? 1) * DRY_OZ_PER_CUP * 0.5, 0.7);
+
+  if (mode !== "pending") return null;
+
+  const quantity = readQuantity(normalized);
+  if (!quantity) return null;
+  return finish(quantity.value, 0.7);
+}
+
+/**
+ * Parse meals per day; free feeding maps to 4 (matches the Quick Setup "Free" option)
+ */
+export function parseFeedingFrequency(text: string, mode: ParseMode): ParsedValue<FeedingFrequency> | null {
+  const normalized = normalize(text);
+
+  if (/\b(free[- ]?fe(e)?d(ing)?|always (has|have) food|bowl is always full|all day|whenever|grazes?|ad lib)\b/.test(normalized)) {
+    return { value: 4, confidence: 0.95 };
+  }
+
+  const match = normalized.match(new RegExp(`${NUMBER_PATTERN}\\s*(?:times?|x|meals?|feedings?)?\\s*(?:a|per|each)\\s*day\\b`))
+    ?? normalized.match(new RegExp(`${NUMBER_PATTERN}\\s*(?:meals?|feedings?)\\b`))
+    ?? normalized.match(/\b(once|twice|thrice)\b(?!\s+(?:a|per)\s+(?:week|month|year))/);
+
+  let count: number | null = match ? toNumber(match[1]) : null;
+  if (count === null && mode === "pending") {
+    const quantity = readQuantity(normalized);
+    count = quantity?.value ?? null;
+  }
+  if (count === null || count < 1) return null;
+
+  return {
+    value: Math.min(4, Math.round(count)) as FeedingFrequency,
+    confidence: baseConfidence(normalized),
+  };
+}
+
+/**
+ * Parse treats per day ("2 treats", "a few", "none")
+ */
+export function parseTreats(text: string, mode: ParseMode): ParsedValue<number> | null {
+  const normalized = normalize(text);
+
+  if (/\b(no|zero|never any|doesn'?t get( any)?) treats?\b/.test(normalized)) {
+    return { value: 0, confidence: 0.95 };
+  }
+  if (/\bhandful\b/.test(normalized) && (/treat/.test(normalized) || mode === "pending")) {
+    return { value: 5, confidence: 0.8 };
+  }
+
+  const explicit = normalized.match(new RegExp(`${NUMBER_PATTERN}\\s*(?:or so\\s*)?(?:\\w+\\s+)?treats?\\b`));
+  if (explicit) {
+    const count = toNumber(explicit[1]);
+    if (count !== null) return { value: count, confidence: baseConfidence(normalized) };
+  }
+
+  if (mode !== "pending") return null;
+
+  if (/^\s*(none|nope|no|never|zero)\b/.test(normalized)) return { value: 0, confidence: 0.95 };
+  if (/\b(a lot|lots|many|too many)\b/.test(normalized)) return { value: 8, confidence: 0.7 };
+  const quantity = readQuantity(normalized);
+  if (!quantity) return null;
+  return { value: round(quantity.value, 1), confidence: baseConfidence(normalized, quantity.isRange) };
+}
+
+/**
+ * Parse daily play minutes ("15 minutes", "half an hour", "not much")
+ */
+export function parsePlayMinutes(text: string, mode: ParseMode): ParsedValue<number> | null {
+  const normalized = normalize(text);
+
+  if (/\bhalf (an )?hour\b/.test(normalized)) return { value: 30, confidence: baseConfidence(normalized) };
+
+  const hours = normalized.match(new RegExp(`${NUMBER_PATTERN}(?:\\s+and a half)?\\s*(?:hours?|hrs?)\\b`));
+  if (hours) {
+    const value = (toNumber(hours[1]) ?? 1) + (/and a half/.test(hours[0]) ? 0.5 : 0);
+    return { value: Math.round(value * 60), confidence: baseConfidence(normalized, false, hours.index) };
+  }
+
+  const minutes = normalized.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(?:minutes?|mins?)\b/);
+  if (minutes) {
+    const low = parseFloat(minutes[1]);
+    const high = minutes[2] ? parseFloat(minutes[2]) : low;
+    return { value: Math.round((low + high) / 2), confidence: baseConfidence(normalized, low !== high, minutes.index) };
+  }
+
+  if (mode !== "pending") return null;
+
+  if (/\b(none|never|no play|doesn'?t play|zero)\b/.test(normalized)) return { value: 0, confidence: 0.9 };
+  if (/\b(not (much|a lot|really)|rarely|barely|a little|sometimes)\b/.test(normalized)) {
+    return { value: 5, confidence: 0.7 };
+  }
+  if (/\b(a lot|lots|plenty|all the time)\b/.test(normalized)) return { value: 30, confidence: 0.7 };
+
+  const quantity = readQuantity(normalized);
+  if (!quantity) return null;
+  return { value: Math.round(quantity.value), confidence: Math.min(baseConfidence(normalized, quantity.isRange), 0.9) };
+}
+
+/**
+ * Parse vet visits per year ("once a year", "every 6 months", "only when sick")
+ */
+export function parseVetVisits(text: string, mode: ParseMode): ParsedValue<number> | null {
+  const normalized = normalize(text);
+  const mentionsVet = /\b(vet|vets|checkups?|check-ups?|exams?)\b/.test(normalized);
+  if (!mentionsVet && mode !== "pending") return null;
+
+  if (/\b(never|none|hasn'?t been|not since)\b/.test(normalized)) return { value: 0, confidence: 0.9 };
+  if (/\b(only when (sick|needed|something'?s wrong)|rarely|emergenc(y|ies))\b/.test(normalized)) {
+    return { value: 0, confidence: 0.8 };
+  }
+  if (/\b(every (six|6) months|twice a year|2x a year|two times a year|semi-?annual(ly)?)\b/.test(normalized)) {
+    return { value: 2, confidence: baseConfidence(normalized) };
+  }
+  if (/\b(every other year|every (two|2) years)\b/.test(normalized)) {
+    return { value: 0.5, confidence: baseConfidence(normalized) };
+  }
+  if (/\b(once a year|annual(ly)?|yearly|every year|once per year)\b/.test(normalized)) {
+    return { value: 1, confidence: baseConfidence(normalized) };
+  }
+
+  const perYear = normalized.match(new RegExp(`${NUMBER_PATTERN}\\s*(?:times?|x|visits?)?\\s*(?:a|per|each)\\s*year\\b`));
+  if (perYear) {
+    const count = toNumber(perYear[1]);
+    if (count !== null) return { value: count, confidence: baseConfidence(normalized) };
+  }
+  const everyMonths = normalized.match(/every (\d+) months?/);
+  if (everyMonths) {
+    return { value: round(12 / Math.max(1, parseInt(everyMonths[1], 10)), 1), confidence: baseConfidence(normalized) };
+  }
+
+  if (mode !== "pending") return null;
+  const quantity = readQuantity(normalized);
+  if (!quantity || quantity.value > 12) return null;
+  return { value: quantity.value, confidence: Math.min(baseConfidence(normalized, quantity.isRange), 0.9) };
+}
+
+/**
+ * Parse how often the litter box is scooped
+ */
+export function parseLitterFrequency(text: string, mode: ParseMode): ParsedValue<LitterCleaningFrequency> | null {
+  const normalized = normalize(text);
+  const mentionsLitter = /\b(litter|scoop(ed|ing)?|box)\b/.test(normalized);
+  if (!mentionsLitter && mode !== "pending") return null;
+
+  if (/\b(every (other|2|two|3|three) days?|every couple( of)? days|few times a week|2-3 times a week)\b/.test(normalized)) {
+    return { value: "every_2_days", confidence: 0.9 };
+  }
+  if (/\b(weekly|once a week|every week|every (4|four|5|five|6|six|7|seven) days)\b/.test(normalized)) {
+    return { value: "weekly", confidence: 0.9 };
+  }
+  if (/\b(daily|every day|once a day|twice a day|each day|every morning|every night|(multiple|several) times a day)\b/.test(normalized)) {
+    return { value: "daily", confidence: 0.95 };
+  }
+  return mode === "pending" && isUnknownAnswer(normalized)
+    ? { value: "unknown", confidence: 0.9 }
+    : null;
+}
+
+/**
+ * Parse known health conditions as a list; "none" returns an empty list
+ */
+export function parseKnownConditions(text: string, mode: ParseMode): ParsedValue<string[]> | null {
+  if (mode !== "pending") return null;
+  const normalized = normalize(text);
+
+  if (/^\s*(none|no|nope|nothing|not that i know( of)?|healthy|all good)\b/.test(normalized) || isUnknownAnswer(normalized)) {
+    return { value: [], confidence: 0.9 };
+  }
+
+  const conditions = text
+    .replace(/^\s*(yes|yeah|yep)[,.!]?\s*/i, "")
+    .replace(/^\s*(she|he|they|it)\s+(has|have)\s+/i, "")
+    .split(/,|;|\band\b/i)
+    .map(part => part.replace(/[.!?]/g, "").trim())
+    .filter(part => part.length > 1 && part.length <= 60);
+
+  return conditions.length > 0 ? { value: conditions, confidence: 0.85 } : null;
+}
@@ -0,0 +1,301 @@
+// CatLife - Milestone Notes
+// Per-year timeline notes: deterministic templates by default, optional LLM backend, cached by input hash
+
+import { createHash } from "crypto";
+import type {
+  CatProfile,
+  CareRoutine,
+  EnhancedMilestoneNote,
+  HealthStatus,
+  HealthTrajectory,
+  MilestoneNotesRequest,
+  NotePriority,
+  SimulationPoint,
+} from "@/types/catlife";
+import {
+  findBreedProfile,
+  getBreedAlertsForAge,
+  getUpcomingScreenings,
+  type BreedHealthProfile,
+} from "./breed-health-data";
+import { analyzeTrajectory } from "./simulation-enhancer";
+import { MILESTONE_NOTES_SYSTEM_PROMPT } from "./prompts";
+import { validateEnhancedMilestoneNotes } from "./validation";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MilestoneNotesBackend {
+  name: string;
+  generate(request: MilestoneNotesRequest, trajectory: HealthTrajectory): Promise<EnhancedMilestoneNote[]>;
+}
+
+// ============================================
+// TEMPLATE BACKEND
+// ============================================
+
+const STATUS_PHRASES: Record<HealthStatus, string> = {
+  thriving: "thriving",
+  ok: "doing okay",
+  risky: "showing some health risks",
+  unhealthy: "in poor health",
+};
+
+const STATUS_RANK: Record<HealthStatus, number> = { thriving: 4, ok: 3, risky: 2, unhealthy: 1 };
+
+/** Life-stage milestones worth calling out ahead of time */
+const LIFE_STAGE_MILESTONES: { ageYears: number; label: string }[] = [
+  { ageYears: 1, label: "Turns 1 - adult food and first annual checkup" },
+  { ageYears: 7, label: "Turns 7 - mature adult, time for senior wellness screening" },
+  { ageYears: 10, label: "Turns 10 - senior years, twice-yearly checkups" },
+  { ageYears: 15, label: "Turns 15 - geriatric care and comfort focus" },
+];
+
+const MAX_LIST_ITEMS = 4;
+
+function describeLifeStage(ageYears: number): string {
+  if (ageYears < 1) return "Kittenhood is all about growth and socialization.";
+  if (ageYears < 3) return "These young adult years set lifelong habits.";
+  if (ageYears < 7) return "Prime adulthood - the easiest years to keep weight and routine steady.";
+  if (ageYears < 10) return "As a mature adult, early detection starts to matter more.";
+  if (ageYears < 15) return "Senior years bring slower metabolism and more frequent checkups.";
+  return "Geriatric years are about comfort, hydration and close monitoring.";
+}
+
+function describeWeight(weightKg: number, breedProfile: BreedHealthProfile | null): string {
+  if (!breedProfile) return "";
+  const { min, max } = breedProfile.idealWeight;
+  if (weightKg > max) return ` That's above the ${min}-${max} kg ideal range for a ${breedProfile.breed}.`;
+  if (weightKg < min) return ` That's below the ${min}-${max} kg ideal range for a ${breedProfile.breed}.`;
+  return "";
+}
+
+function buildUpcomingMilestones(ageYears: number, breedProfile: BreedHealthProfile | null): string[] {
+  const upcoming: string[] = [];
+
+  if (breedProfile) {
+    const screening = getUpcomingScreenings(breedProfile, ageYears);
+    if (screening && screening.ageYears <= ageYears + 2) {
+      upcoming.push(`Age ${screening.ageYears}: ${screening.screenings.join(", ")}`);
+    }
+    breedProfile.healthRisks
+      .filter(r => r.typicalOnsetYears > ageYears && r.typicalOnsetYears <= ageYears + 2)
+      .forEach(r => upcoming.push(`Watch for ${r.condition} from around age ${Math.round(r.typicalOnsetYears)}`));
+  }
+
+  LIFE_STAGE_MILESTONES
+    .filter(m => m.ageYears > ageYears && m.ageYears <= ageYears + 2)
+    .forEach(m => upcoming.push(m.label));
+
+  return upcoming.slice(0, MAX_LIST_ITEMS);
+}
+
+function buildTrajectoryInsight(
+  point: SimulationPoint,
+  previous: SimulationPoint | undefined,
+  trajectory: HealthTrajectory
+): string {
+  const [topRisk] = trajectory.riskFactors;
+  const [topPositive] = trajectory.positiveFactors;
+
+  if (previous && STATUS_RANK[point.healthStatus] < STATUS_RANK[previous.healthStatus]) {
+    return topRisk
+      ? `Health dips from "${previous.healthStatus}" to "${point.healthStatus}" here; the biggest driver is: ${topRisk.toLowerCase()}.`
+      : `Health dips from "${previous.healthStatus}" to "${point.healthStatus}" here as age-related changes add up.`;
+  }
+  if (previous && STATUS_RANK[point.healthStatus] > STATUS_RANK[previous.healthStatus]) {
+    return `Health improves to "${point.healthStatus}" - the current routine is paying off.`;
+  }
+  if (trajectory.trend === "declining") {
+    return topRisk
+      ? `The overall trend is declining; addressing this would help most: ${topRisk.toLowerCase()}.`
+      : "The overall trend is declining - small routine changes now compound over the years.";
+  }
+  if (trajectory.trend === "improving") {
+    return "The overall trend is improving with the current routine.";
+  }
+  return topPositive
+    ? `Stable so far, helped by: ${topPositive.toLowerCase()}.`
+    : "Stable so far - keep the routine consistent.";
+}
+
+function choosePriority(point: SimulationPoint, hasScreening: boolean, hasHighRiskAlert: boolean): NotePriority {
+  if (point.healthStatus === "unhealthy" || point.healthStatus === "risky" || hasHighRiskAlert) return "high";
+  if (hasScreening || point.healthStatus === "ok") return "medium";
+  return "low";
+}
+
+/**
+ * Build one note per yearly point from breed data and the trajectory.
+ * Pure function of its inputs, so identical requests give identical notes.
+ */
+export function generateTemplateMilestoneNotes(
+  catProfile: CatProfile,
+  careRoutine: CareRoutine,
+  points: SimulationPoint[],
+  trajectory: HealthTrajectory
+): EnhancedMilestoneNote[] {
+  const catName = catProfile.name || "Your cat";
+  const breedProfile = findBreedProfile(catProfile.breed);
+  const notes: EnhancedMilestoneNote[] = [];
+  const seenAges = new Set<number>();
+
+  points.forEach((point, index) => {
+    const ageYears = Math.floor(point.ageMonths / 12);
+    if (seenAges.has(ageYears)) return;
+    seenAges.add(ageYears);
+
+    const breedAlerts = breedProfile
+      ? getBreedAlertsForAge(breedProfile, ageYears)
+      : { alerts: [], screenings: [], advice: [] };
+    const hasHighRiskAlert = Boolean(
+      breedProfile?.healthRisks.some(r => r.riskLevel === "high" && Math.round(r.typicalOnsetYears) === ageYears)
+    );
+
+    // Routine-specific advice first so the breed list can't crowd it out
+    const advice = ageYears >= 7 && (careRoutine.vetVisitsPerYear ?? 0) < 2
+      ? ["Ask your vet about moving to twice-yearly checkups."]
+      : [];
+    advice.push(...breedAlerts.screenings, ...breedAlerts.advice);
+
+    notes.push({
+      ageYears,
+      personalizedNote:
+        `At ${ageYears === 0 ? "under a year" : `age ${ageYears}`}, ${catName} is projected to be ${STATUS_PHRASES[point.healthStatus]} ` +
+        `at about ${point.weightKgEstimate.toFixed(1)} kg.${describeWeight(point.weightKgEstimate, breedProfile)} ` +
+        describeLifeStage(ageYears),
+      breedSpecificAlerts: breedAlerts.alerts.slice(0, MAX_LIST_ITEMS),
+      ageAppropriateAdvice: advice.slice(0, MAX_LIST_ITEMS),
+      upcomingMilestones: buildUpcomingMilestones(ageYears, breedProfile),
+      trajectoryInsight: buildTrajectoryInsight(point, points[index - 1], trajectory),
+      priority: choosePriority(point, breedAlerts.screenings.length > 0, hasHighRiskAlert),
+    });
+  });
+
+  return notes;
+}
+
+export const templateMilestoneNotesBackend: MilestoneNotesBackend = {
+  name: "template",
+  generate: async (request, trajectory) =>
+    generateTemplateMilestoneNotes(request.catProfile, request.careRoutine, request.simulationPoints, trajectory),
+};
+
+// ============================================
+// LLM BACKEND
+// ============================================
+
+/**
+ * LLM-written notes using MILESTONE_NOTES_SYSTEM_PROMPT.
+ * Output goes through the strict validator; anything malformed falls back to templates.
+ */
+export function createOpenAIMilestoneNotesBackend(apiKey: string, model: string): MilestoneNotesBackend {
+  return {
+    name: "openai",
+    generate: async (request, trajectory) => {
+      const fallback = () => templateMilestoneNotesBackend.generate(request, trajectory);
+      try {
+        const response = await fetch("https://api.openai.com/v1/chat/completions", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: MILESTONE_NOTES_SYSTEM_PROMPT },
+              {
+                role: "user",
+                content: JSON.stringify({
+                  catProfile: request.catProfile,
+                  careRoutine: request.careRoutine,
+                  trajectory,
+                  simulationPoints: request.simulationPoints,
+                }),
+              },
+            ],
+          }),
+        });
+
+        if (!response.ok) {
+          console.warn("[CatLife] Milestone notes LLM returned non-OK status, using templates");
+          return fallback();
+        }
+
+        const data = await response.json();
+        const parsed = JSON.parse(data.choices?.[0]?.message?.content ?? "null");
+        const validation = validateEnhancedMilestoneNotes(parsed?.notes);
+        if (!validation.valid) {
+          console.warn(`[CatLife] Milestone notes LLM returned invalid notes (${validation.error}), using templates`);
+          return fallback();
+        }
+        return validation.data;
+      } catch (error) {
+        console.error("[CatLife] Milestone notes LLM error:", error);
+        return fallback();
+      }
+    },
+  };
+}
+
+/**
+ * Pick the notes backend from the environment.
+ * Templates are the default; set CATLIFE_MILESTONE_NOTES_BACKEND=openai to use the LLM.
+ */
+export function getMilestoneNotesBackend(): MilestoneNotesBackend {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (process.env.CATLIFE_MILESTONE_NOTES_BACKEND === "openai" && apiKey) {
+    return createOpenAIMilestoneNotesBackend(apiKey, process.env.CATLIFE_MILESTONE_NOTES_MODEL || "gpt-4o-mini");
+  }
+  return templateMilestoneNotesBackend;
+}
+
+// ============================================
+// CACHE
+// ============================================
+
+const CACHE_MAX_ENTRIES = 200;
+
+/** Insertion-ordered, so the first key is the least recently used */
+const notesCache = new Map<string, EnhancedMilestoneNote[]>();
+
+/**
+ * Stable hash of everything the notes depend on
+ */
+export function getMilestoneNotesCacheKey(request: MilestoneNotesRequest, backendName: string): string {
+  return createHash("sha256")
+    .update(JSON.stringify([backendName, request.catProfile, request.careRoutine, request.simulationPoints]))
+    .digest("hex");
+}
+
+/**
+ * Generate (or reuse) validated notes for a request
+ */
+export async function getMilestoneNotes(
+  request: MilestoneNotesRequest,
+  backend: MilestoneNotesBackend = getMilestoneNotesBackend()
+): Promise<{ notes: EnhancedMilestoneNote[]; cached: boolean }> {
+  const key = getMilestoneNotesCacheKey(request, backend.name);
+  const hit = notesCache.get(key);
+  if (hit) {
+    notesCache.delete(key);
+    notesCache.set(key, hit);
+    return { notes: hit, cached: true };
+  }
+
+  const trajectory = analyzeTrajectory(request.simulationPoints, request.catProfile, request.careRoutine);
+  const validation = validateEnhancedMilestoneNotes(await backend.generate(request, trajectory));
+  if (!validation.valid) {
+    throw new Error(`Milestone notes backend "${backend.name}" produced invalid notes: ${validation.error}`);
+  }
+
+  notesCache.set(key, validation.data);
+  if (notesCache.size > CACHE_MAX_ENTRIES) {
+    const oldest = notesCache.keys().next().value;
+    if (oldest !== undefined) notesCache.delete(oldest);
+  }
+  return { notes: validation.data, cached: false };
+}
@@ -2,14 +2,21 @@
 // Email via Resend (active), SMS via Twilio (placeholder until A2P approved)
 
 import { Resend } from "resend";
-import { REMINDER_EMAIL_TEMPLATES, REMINDER_SMS_TEMPLATES } from "./prompts";
-import type { ReminderSettings, ReminderChannel } from "@/types/catlife";
+import { REMINDER_CONFIRMATION_TEMPLATES, REMINDER_EMAIL_TEMPLATES, REMINDER_SMS_TEMPLATES } from "./prompts";
+import { buildConfirmationUrl, buildPreferencesUrl, buildUnsubscribeUrl } from "./unsubscribe";
+import type { ReminderConfirmationKind, ReminderSettings, ReminderChannel } from "@/types/catlife";
 
 // ============================================
 // Configuration
 // ============================================
 
-const resend = new Resend(process.env.RESEND_API_KEY);
+// Created on first send so importing this module doesn't require RESEND_API_KEY
+let resendClient: Resend | null = null;
+
+function getResend(): Resend {
+  if (!resendClient) resendClient = new Resend(process.env.RESEND_API_KEY);
+  return resendClient;
+}
 
 // Twilio is disabled until A2P campaign is approved
 const TWILIO_ENABLED = process.env.TWILIO_ENABLED === "true";
@@ -29,20 +36,31 @@ interface EmailResult {
 
 /**
  * Send a reminder email via Resend
+ * With a stored reminder id the email carries signed unsubscribe links
  */
 export async function sendReminderEmail(
   to: string,
   catName: string,
-  channel: ReminderChannel
+  channel: ReminderChannel,
+  reminderId?: string
 ): Promise<EmailResult> {
   try {
     const template = REMINDER_EMAIL_TEMPLATES[channel](catName);
+    const { body } = REMINDER_EMAIL_TEMPLATES[channel](escapeHtml(catName));
 
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await getResend().emails.send({
       from: `CatLife <${process.env.FROM_EMAIL || "noreply@lawrencehua.com"}>`,
       to: [to],
       subject: template.subject,
-      html: formatEmailHtml(template.subject, template.body, catName),
+      html: formatEmailHtml(template.subject, body, catName, reminderFooterLinks(channel, reminderId)),
+      ...(reminderId
+        ? {
+            headers: {
+              "List-Unsubscribe": `<${buildUnsubscribeUrl(reminderId)}>`,
+              "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+            },
+          }
+        : {}),
     });
 
     if (error) {
@@ -61,11 +79,40 @@ export async function sendReminderEmail(
 }
 
 /**
- * Format email body as HTML with styling
+ * Footer links for a reminder email: signed unsubscribe links when the reminder is stored
+ */
+function reminderFooterLinks(channel: ReminderChannel | null, reminderId?: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://lawrencehua.com";
+  const link = (href: string, label: string) =>
+    `<a href="${href}" style="color: #d97706; text-decoration: underline;">${label}</a>`;
+  if (!reminderId) return link(`${baseUrl}/catlife`, "Manage reminders in CatLife");
+
+  return [
+    ...(channel ? [link(buildUnsubscribeUrl(reminderId, channel), `Stop ${channel} reminders`)] : []),
+    link(buildUnsubscribeUrl(reminderId), "Unsubscribe from all reminders"),
+    link(buildPreferencesUrl(reminderId), "Manage preferences"),
+  ].join("\n            &nbsp;·&nbsp;\n            ");
+}
+
+/**
+ * Make user-supplied text (the cat's name) safe to place in email HTML
  */
-function formatEmailHtml(subject: string, body: string, catName: string): string {
-  const unsubscribeUrl = `${process.env.NEXT_PUBLIC_BASE_URL || "https://lawrencehua.com"}/api/catlife/unsubscribe`;
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
 
+/**
+ * Format email body as HTML with styling
+ * The subject and cat name are plain text and get escaped; the body is HTML, built with an escaped name
+ */
+function formatEmailHtml(rawSubject: string, body: string, rawCatName: string, footerLinks: string): string {
+  const subject = escapeHtml(rawSubject);
+  const catName = escapeHtml(rawCatName);
   return `
     <!DOCTYPE html>
     <html>
@@ -90,7 +137,7 @@ ${body}
           <p style="color: #92400e; font-size: 12px; margin: 0;">
             You're receiving this because you set up CatLife reminders for ${catName}.
             <br><br>
-            <a href="${unsubscribeUrl}" style="color: #d97706; text-decoration: underline;">Unsubscribe from all reminders</a>
+            ${footerLinks}
           </p>
         </div>
       </div>
@@ -122,6 +169,10 @@ export async function sendReminderSms(
   catName: string,
   channel: ReminderChannel
 ): Promise<SmsResult> {
+  return sendSms(to, REMINDER_SMS_TEMPLATES[channel](catName));
+}
+
+async function sendSms(to: string, messageBody: string): Promise<SmsResult> {
   // Check if Twilio is enabled
   if (!TWILIO_ENABLED) {
     console.log("[CatLife] SMS disabled - Twilio A2P campaign pending approval");
@@ -141,8 +192,6 @@ export async function sendReminderSms(
   }
 
   try {
-    const messageBody = REMINDER_SMS_TEMPLATES[channel](catName);
-
     // Twilio REST API call
     const response = await fetch(
       `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`,
@@ -206,7 +255,7 @@ export async function sendReminder(
   const { contactType, contactValue, catName } = settings;
 
   if (contactType === "email") {
-    const result = await sendReminderEmail(contactValue, catName, reminderType);
+    const result = await sendReminderEmail(contactValue, catName, reminderType, settings.id);
     return {
       success: result.success,
       channel: "email",
@@ -230,6 +279,53 @@ export async function sendReminder(
   };
 }
 
+/**
+ * Send the link confirming a reminder's pending change (see ReminderStore.upsert and
+ * requestContactChange) to the contact it's for: the new one when the contact changes.
+ * The email has no management links, since the contact isn't confirmed yet.
+ */
+export async function sendChangeConfirmation(
+  reminder: ReminderSettings & { id: string },
+  kind: ReminderConfirmationKind
+): Promise<NotificationResult> {
+  const { pendingChange, catName } = reminder;
+  const contactType = pendingChange?.contactType ?? reminder.contactType;
+  const contactValue = pendingChange?.contactValue ?? reminder.contactValue;
+  if (!pendingChange) {
+    return { success: false, channel: contactType, error: "Nothing to confirm" };
+  }
+  const confirmUrl = buildConfirmationUrl(reminder.id, pendingChange);
+
+  if (contactType === "sms") {
+    const result = await sendSms(contactValue, REMINDER_CONFIRMATION_TEMPLATES.sms(catName, confirmUrl, kind));
+    return { success: result.success, channel: "sms", messageId: result.messageSid, error: result.error };
+  }
+
+  try {
+    const { subject } = REMINDER_CONFIRMATION_TEMPLATES.email(catName, confirmUrl, kind);
+    const { body } = REMINDER_CONFIRMATION_TEMPLATES.email(escapeHtml(catName), confirmUrl, kind);
+    const { data, error } = await getResend().emails.send({
+      from: `CatLife <${process.env.FROM_EMAIL || "noreply@lawrencehua.com"}>`,
+      to: [contactValue],
+      subject,
+      html: formatEmailHtml(subject, body, catName, reminderFooterLinks(null)),
+    });
+
+    if (error) {
+      console.error("Resend error:", error);
+      return { success: false, channel: "email", error: error.message };
+    }
+    return { success: true, channel: "email", messageId: data?.id };
+  } catch (err) {
+    console.error("Email send error:", err);
+    return {
+      success: false,
+      channel: "email",
+      error: err instanceof Error ? err.message : "Unknown error",
+    };
+  }
+}
+
 // ============================================
 // Validation Helpers
 // ============================================
@@ -279,7 +375,7 @@ export function normalizePhoneNumber(phone: string): string {
  */
 export async function sendTestEmail(to: string): Promise<EmailResult> {
   try {
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await getResend().emails.send({
       from: `CatLife <${process.env.FROM_EMAIL || "noreply@lawrencehua.com"}>`,
       to: [to],
       subject: "🐱 CatLife Test Email",
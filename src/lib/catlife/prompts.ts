@@ -1,5 +1,7 @@
 // CatLife Chat Sim - LLM System Prompts
 
+import type { ReminderConfirmationKind } from "@/types/catlife";
+
 /**
  * System prompt for the Cat Health Intake Coach
  * This prompt instructs GPT-4 to act as a friendly cat health interviewer
@@ -195,6 +197,33 @@ Guidelines:
 - Never diagnose or prescribe - always say "ask your vet about..."
 - Frame weight management gently: "maintaining a healthy weight" rather than "your cat needs to lose weight"`;
 
+/**
+ * Milestone note generation prompt (one note per simulated year)
+ */
+export const MILESTONE_NOTES_SYSTEM_PROMPT = `You write short, personalized notes for each year of a cat's simulated life timeline.
+
+You receive the cat's profile, care routine, a health trajectory summary and one simulation point per year.
+Respond with JSON only:
+{
+  "notes": [
+    {
+      "ageYears": 5,
+      "personalizedNote": "1-2 sentences about the cat at this age, using their name",
+      "breedSpecificAlerts": ["Breed-specific thing to watch for at this age"],
+      "ageAppropriateAdvice": ["Specific, actionable advice"],
+      "upcomingMilestones": ["What's coming in the next year or two"],
+      "trajectoryInsight": "One sentence on how the care routine shapes this point",
+      "priority": "high" | "medium" | "low"
+    }
+  ]
+}
+
+Rules:
+- Exactly one note per ageYears in the input, whole years only
+- Arrays may be empty but must be present; at most 4 items each
+- "high" priority only for unhealthy/risky years or important screenings
+- Never diagnose or prescribe - say "ask your vet about..."`;
+
 /**
  * Email reminder templates
  */
@@ -261,3 +290,28 @@ export const REMINDER_SMS_TEMPLATES = {
     `🩺 CatLife: ${catName} is due for a vet checkup! Schedule soon. Reply STOP to opt out.`,
 };
 
+/** What was asked for, addressed to the contact that has to confirm it */
+const CONFIRMATION_REQUESTS: Record<ReminderConfirmationKind, (catName: string, contact: string) => string> = {
+  setup: (catName, contact) => `Someone set up CatLife reminders for ${catName} to come to ${contact}.`,
+  change: (catName, contact) => `Someone asked to change the CatLife reminders for ${catName} that come to ${contact}.`,
+  contact: (catName, contact) => `Someone asked for the CatLife reminders for ${catName} to come to ${contact} from now on.`,
+};
+
+/**
+ * Sent to the contact a setup or contact change is for; nothing is sent or changed until they confirm
+ */
+export const REMINDER_CONFIRMATION_TEMPLATES = {
+  email: (catName: string, confirmUrl: string, kind: ReminderConfirmationKind) => ({
+    subject: kind === "setup"
+      ? `🐱 Confirm ${catName}'s reminders`
+      : `🐱 Confirm the changes to ${catName}'s reminders`,
+    body: `${CONFIRMATION_REQUESTS[kind](catName, "this address")}
+
+Nothing happens until you confirm: <a href="${confirmUrl}" style="color: #d97706;">review and confirm</a>.
+
+If this wasn't you, ignore this email and nothing changes.`,
+  }),
+
+  sms: (catName: string, confirmUrl: string, kind: ReminderConfirmationKind) =>
+    `🐱 CatLife: ${CONFIRMATION_REQUESTS[kind](catName, "this number")} Confirm here: ${confirmUrl} (ignore this if it wasn't you)`,
+};
@@ -0,0 +1,37 @@
+// CatLife - Deterministic Randomness
+// String hashing and a small seeded PRNG so generated output is reproducible
+
+/**
+ * FNV-1a hash of a string to a 32-bit unsigned integer
+ */
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Largest seed accepted by createRandom (seeds are unsigned 32-bit integers) */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Fresh seed for runs that didn't ask for one, so they can still be replayed
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
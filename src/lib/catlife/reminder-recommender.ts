@@ -0,0 +1,326 @@
+// CatLife - Reminder Recommender
+// Rule engine turning profile, care routine and simulation output into per-channel reminder suggestions
+
+import type {
+  CatProfile,
+  CareRoutine,
+  FeedingFrequency,
+  ReminderRecommendation,
+  ReminderSchedule,
+  SimulationAlert,
+  SimulationResult,
+} from "@/types/catlife";
+import { findBreedProfile, getUpcomingScreenings, type BreedHealthProfile } from "./breed-health-data";
+import { analyzeTrajectory } from "./simulation-enhancer";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReminderRecommendations {
+  recommendations: ReminderRecommendation[];
+  /** Concrete times to store with the reminder so the dispatcher sends what was shown */
+  schedule: ReminderSchedule;
+}
+
+/** Everything the per-channel rules look at, computed once */
+interface RecommendationContext {
+  catName: string;
+  ageMonths: number;
+  careRoutine: CareRoutine;
+  breedProfile: BreedHealthProfile | null;
+  riskFactors: string[];
+  upcomingAlerts: SimulationAlert[];
+  overweight: boolean;
+  underweight: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Simulation alerts this far ahead of the cat's current age count as "upcoming" */
+const ALERT_HORIZON_MONTHS = 36;
+
+const SENIOR_AGE_MONTHS = 120;
+
+/** Meal times by meals per day; free feeding (4) has no meals to remind about */
+const FEED_TIMES: Record<Exclude<FeedingFrequency, 4>, string[]> = {
+  1: ["08:00"],
+  2: ["08:00", "18:00"],
+  3: ["07:00", "13:00", "19:00"],
+};
+
+/** Free-fed cats: measure the day's food into the bowl each morning */
+const PORTION_CHECK_TIME = "08:00";
+
+const LITTER_TIME = "19:00";
+
+const URINARY_CONDITION_PATTERN = /kidney|renal|urinary|bladder|pkd|flutd|diabetes/i;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * "18:30" -> "6:30 PM"
+ */
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+function formatTimes(times: string[]): string {
+  return times.map(formatTime).join(times.length > 2 ? ", " : " & ");
+}
+
+function buildContext(
+  catProfile: CatProfile,
+  careRoutine: CareRoutine,
+  simulationResult?: SimulationResult
+): RecommendationContext {
+  const ageMonths = (catProfile.ageYears ?? 0) * 12 + (catProfile.ageMonths ?? 0);
+  const points = simulationResult?.points ?? [];
+  const alerts = simulationResult?.alerts ?? [];
+  const breedProfile = findBreedProfile(catProfile.breed);
+
+  const riskFactors = points.length > 0
+    ? analyzeTrajectory(points, catProfile, careRoutine).riskFactors
+    : [];
+  const upcomingAlerts = alerts.filter(
+    a => a.ageMonths >= ageMonths && a.ageMonths <= ageMonths + ALERT_HORIZON_MONTHS
+  );
+
+  const idealMax = breedProfile?.idealWeight.max ?? 5.5;
+  const overweight =
+    catProfile.bodyCondition === "overweight" ||
+    (catProfile.weightKg !== null && catProfile.weightKg > idealMax) ||
+    upcomingAlerts.some(a => a.id.startsWith("alert-weight-"));
+
+  return {
+    catName: catProfile.name || "your cat",
+    ageMonths,
+    careRoutine,
+    breedProfile,
+    riskFactors,
+    upcomingAlerts,
+    overweight,
+    underweight: catProfile.bodyCondition === "underweight",
+  };
+}
+
+function findAlert(context: RecommendationContext, prefix: string): SimulationAlert | undefined {
+  return context.upcomingAlerts.find(a => a.id.startsWith(prefix));
+}
+
+// ============================================
+// CHANNEL RULES
+// ============================================
+
+function recommendFeeding(context: RecommendationContext): { recommendation: ReminderRecommendation; times: string[] } {
+  const { catName, careRoutine, overweight, underweight } = context;
+  const frequency = careRoutine.feedingFrequency ?? 2;
+  const weightAlert = findAlert(context, "alert-weight-");
+
+  // A free-fed cat with a weight problem should move to measured meals; otherwise a daily portion check
+  if (frequency === 4) {
+    const toMeals = Boolean(weightAlert) || overweight || underweight;
+    const times = toMeals ? FEED_TIMES[2] : [PORTION_CHECK_TIME];
+    return {
+      times,
+      recommendation: {
+        channel: "feed",
+        enabled: true,
+        reason: toMeals
+          ? `${catName} is free-fed and ${underweight ? "underweight" : "trending heavy"}. Two measured meals show exactly how much is eaten.`
+          : `${catName} is free-fed. Measuring the day's food into the bowl each morning keeps the daily total in check.`,
+        priority: toMeals ? "high" : "medium",
+        frequency: toMeals ? "2x daily" : "Daily portion check",
+        schedule: formatTimes(times),
+        aiInsight: toMeals
+          ? "Split the current daily amount into two meals and take the bowl up in between."
+          : "Whatever is left in the bowl before the refill shows whether the portion is right.",
+      },
+    };
+  }
+
+  const times = FEED_TIMES[frequency];
+
+  let reason = "Consistent feeding times help maintain healthy digestion.";
+  if (weightAlert) {
+    reason = `The simulation projects ${catName}'s weight trending 15%+ above ideal by age ${Math.floor(weightAlert.ageMonths / 12)}. Measured meals at set times keep portions in check.`;
+  } else if (overweight) {
+    reason = `${catName} is above ideal weight. Measured meals at set times keep portions in check.`;
+  } else if (underweight) {
+    reason = `${catName} is underweight. Regular meals make it easier to see whether food is being finished.`;
+  }
+
+  let insight = "Cats prefer routine - same times each day reduces stress.";
+  if (frequency === 1) {
+    insight = "Splitting the same daily amount into two meals reduces hunger-driven begging and vomiting.";
+  } else if ((careRoutine.treatsPerDay ?? 0) > 5) {
+    insight = "Treats count toward daily calories - keep them under about 10% of the total.";
+  }
+
+  return {
+    times,
+    recommendation: {
+      channel: "feed",
+      enabled: true,
+      reason,
+      priority: overweight || underweight ? "high" : "medium",
+      frequency: `${frequency}x daily`,
+      schedule: formatTimes(times),
+      aiInsight: insight,
+    },
+  };
+}
+
+function recommendPlay(context: RecommendationContext): { recommendation: ReminderRecommendation; times: string[] } {
+  const { catName, ageMonths, careRoutine, riskFactors, overweight } = context;
+  const minutes = careRoutine.playMinutesPerDay ?? 0;
+  const lowActivity = riskFactors.some(f => f.startsWith("Low activity"));
+  const riskyAlert = findAlert(context, "alert-risky-") ?? findAlert(context, "alert-unhealthy-");
+
+  const enabled = lowActivity || overweight || Boolean(riskyAlert) || minutes < 15;
+  const targetMinutes = Math.max(15, minutes + (overweight ? 10 : 0));
+  const times = targetMinutes >= 20 ? ["08:00", "18:00"] : ["18:00"];
+
+  let reason = "Daily play keeps cats mentally stimulated and physically fit.";
+  if (lowActivity) {
+    reason = `${catName}'s trajectory flags low activity (${minutes} min/day). Aim for ${targetMinutes} minutes.`;
+  } else if (overweight) {
+    reason = `Active play is the easiest way for ${catName} to burn extra calories.`;
+  } else if (riskyAlert) {
+    reason = `${riskyAlert.message} More daily play is one of the simplest ways to push that back.`;
+  }
+
+  const insight = ageMonths >= SENIOR_AGE_MONTHS
+    ? "Shorter, gentler sessions keep senior joints moving without overdoing it."
+    : "Evening play mimics natural hunting behavior - end with a treat or meal.";
+
+  let priority: ReminderRecommendation["priority"] = "low";
+  if (lowActivity && (overweight || riskyAlert)) priority = "high";
+  else if (enabled) priority = "medium";
+
+  return {
+    times,
+    recommendation: {
+      channel: "play",
+      enabled,
+      reason,
+      priority,
+      frequency: `${times.length === 1 ? "Daily" : "2x daily"}, ${targetMinutes} min total`,
+      schedule: formatTimes(times),
+      aiInsight: insight,
+    },
+  };
+}
+
+function recommendVet(context: RecommendationContext): { recommendation: ReminderRecommendation; intervalMonths: number } {
+  const { catName, ageMonths, careRoutine, breedProfile } = context;
+  const ageYears = Math.floor(ageMonths / 12);
+  const visitsPerYear = careRoutine.vetVisitsPerYear ?? 0;
+  const criticalAlert = findAlert(context, "alert-unhealthy-");
+  const isSenior = ageMonths >= SENIOR_AGE_MONTHS;
+
+  const recommendedVisits = isSenior || criticalAlert ? 2 : 1;
+  const intervalMonths = 12 / recommendedVisits;
+  const upcoming = breedProfile ? getUpcomingScreenings(breedProfile, ageYears) : null;
+
+  let reason = upcoming?.reason
+    ? `${upcoming.reason} (age ${upcoming.ageYears}).`
+    : "Regular checkups catch health issues early.";
+  if (criticalAlert) {
+    reason = `${criticalAlert.message} Checkups every 6 months can catch problems before then.`;
+  } else if (visitsPerYear < recommendedVisits) {
+    const current = visitsPerYear === 0 ? "less than once a year" : `${visitsPerYear}x a year`;
+    reason = `${catName} currently sees the vet ${current}; ${recommendedVisits === 2 ? "twice-yearly" : "annual"} checkups are recommended${isSenior ? " for seniors" : ""}.`;
+  }
+
+  const topRisk = breedProfile?.healthRisks.find(r => r.riskLevel === "high")
+    ?? breedProfile?.healthRisks.find(r => r.riskLevel === "moderate");
+  const insight = topRisk
+    ? `${breedProfile?.breed}s have a ${topRisk.riskLevel} risk of ${topRisk.condition}. ${topRisk.monitoringAdvice}`
+    : "Preventive care is more affordable than treatment.";
+
+  return {
+    intervalMonths,
+    recommendation: {
+      channel: "vet",
+      enabled: true,
+      reason,
+      priority: criticalAlert || visitsPerYear < recommendedVisits ? "high" : "medium",
+      frequency: recommendedVisits === 2 ? "Every 6 months" : "Yearly",
+      schedule: upcoming
+        ? `Next: ${upcoming.screenings.slice(0, 2).join(", ")} at age ${upcoming.ageYears}`
+        : `Next reminder in ~${intervalMonths} months`,
+      aiInsight: insight,
+    },
+  };
+}
+
+function recommendLitter(context: RecommendationContext): ReminderRecommendation {
+  const { breedProfile, careRoutine } = context;
+  const cleaning = careRoutine.litterCleaningFrequency;
+  const urinaryRisk = breedProfile?.healthRisks.find(
+    r => r.riskLevel !== "low" && URINARY_CONDITION_PATTERN.test(r.condition)
+  );
+
+  const enabled = cleaning !== "daily" || Boolean(urinaryRisk);
+
+  let reason = "Clean litter promotes good bathroom habits.";
+  if (cleaning === "weekly") {
+    reason = "Weekly scooping lets waste build up - cats may start avoiding a dirty box.";
+  } else if (cleaning === "every_2_days") {
+    reason = "Scooping every day instead of every other day keeps the box inviting.";
+  } else if (urinaryRisk && breedProfile) {
+    reason = `${breedProfile.breed}s can develop ${urinaryRisk.condition}; a clean box makes changes in urine easy to spot.`;
+  }
+
+  let priority: ReminderRecommendation["priority"] = "low";
+  if (cleaning === "weekly") priority = "high";
+  else if (enabled) priority = "medium";
+
+  return {
+    channel: "litter",
+    enabled,
+    reason,
+    priority,
+    frequency: "Daily",
+    schedule: formatTime(LITTER_TIME),
+    aiInsight: "Bigger or more frequent clumps are often the first sign of kidney issues or diabetes.",
+  };
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Recommend which reminder channels to enable, with times, for this cat.
+ * Works without a simulation result (profile and routine only).
+ */
+export function recommendReminders(
+  catProfile: CatProfile,
+  careRoutine: CareRoutine,
+  simulationResult?: SimulationResult
+): ReminderRecommendations {
+  const context = buildContext(catProfile, careRoutine, simulationResult);
+
+  const feed = recommendFeeding(context);
+  const play = recommendPlay(context);
+  const vet = recommendVet(context);
+  const litter = recommendLitter(context);
+
+  return {
+    recommendations: [feed.recommendation, play.recommendation, vet.recommendation, litter],
+    schedule: {
+      feedTimes: feed.times,
+      playTimes: play.times,
+      vetIntervalMonths: vet.intervalMonths,
+    },
+  };
+}
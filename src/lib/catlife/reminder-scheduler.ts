@@ -0,0 +1,340 @@
+// CatLife - Reminder Scheduler
+// Works out which stored reminders are due (in each subscriber's timezone) and dispatches them
+
+import type { ReminderChannel, ReminderSettings } from "@/types/catlife";
+import { sendReminder, type NotificationResult } from "./notifications";
+import { getReminderStore, type ReminderStore, type StoredReminder } from "./reminder-store";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Injectable time source so ticks can be driven by a fake clock */
+export interface Clock {
+  now(): Date;
+}
+
+export type ReminderSender = (settings: ReminderSettings, channel: ReminderChannel) => Promise<NotificationResult>;
+
+export interface DueReminder {
+  channel: ReminderChannel;
+  /** The scheduled instant this send is for; used to de-duplicate */
+  slot: Date;
+}
+
+export interface ReminderTickOptions {
+  store?: ReminderStore;
+  clock?: Clock;
+  send?: ReminderSender;
+  /** Daily slots older than this are skipped instead of sent late */
+  catchUpMinutes?: number;
+  /** Report what is due without sending or recording anything */
+  dryRun?: boolean;
+}
+
+export interface DispatchRecord extends DueReminder {
+  reminderId: string;
+  catName: string;
+  error?: string;
+}
+
+export interface ReminderTickResult {
+  checkedAt: Date;
+  checked: number;
+  due: DispatchRecord[];
+  sent: DispatchRecord[];
+  failed: DispatchRecord[];
+}
+
+export interface ReminderWorkerOptions extends ReminderTickOptions {
+  intervalMs?: number;
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const systemClock: Clock = { now: () => new Date() };
+
+/** Used when a reminder was saved without a schedule */
+const DEFAULT_FEED_TIMES = ["08:00", "18:00"];
+const DEFAULT_PLAY_TIMES = ["18:00"];
+const LITTER_TIMES = ["19:00"];
+const VET_REMINDER_TIME = "10:00";
+const DEFAULT_VET_INTERVAL_MONTHS = 12;
+
+const DEFAULT_CATCH_UP_MINUTES = 120;
+const DEFAULT_WORKER_INTERVAL_MS = 60_000;
+const DEFAULT_TIMEZONE = "UTC";
+
+// ============================================
+// TIMEZONE HELPERS
+// ============================================
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Offset of the timezone from UTC at an instant, in ms (e.g. -4h for New York in summer) */
+function getOffsetMs(timestamp: number, timeZone: string): number {
+  const p = getZonedParts(new Date(timestamp), timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a local date + "HH:MM" in a timezone to a UTC instant.
+ * Ambiguous times (clocks falling back) resolve to the first occurrence;
+ * times skipped by clocks springing forward resolve to just after the gap.
+ */
+export function zonedTimeToUtc(date: LocalDate, time: string, timeZone: string): Date {
+  const [hour, minute] = time.split(":").map(Number);
+  const naive = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const matches = (timestamp: number) => {
+    const p = getZonedParts(new Date(timestamp), timeZone);
+    return p.hour === hour && p.minute === minute;
+  };
+
+  const first = naive - getOffsetMs(naive, timeZone);
+  const second = naive - getOffsetMs(first, timeZone);
+  if (matches(second)) return new Date(second);
+  if (matches(first)) return new Date(first);
+  return new Date(Math.max(first, second));
+}
+
+function getLocalDate(date: Date, timeZone: string): LocalDate {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+/** Calendar arithmetic on a local date (no timezone involved) */
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/** Add months, clamping to the last day of a shorter month (Jan 31 + 1 -> Feb 28) */
+function addMonths(date: LocalDate, months: number): LocalDate {
+  const monthIndex = date.month - 1 + months;
+  const year = date.year + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(date.day, daysInMonth) };
+}
+
+function resolveTimezone(timeZone: string | undefined): string {
+  if (!timeZone) return DEFAULT_TIMEZONE;
+  try {
+    getFormatter(timeZone);
+    return timeZone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+// ============================================
+// DUE CALCULATION
+// ============================================
+
+/**
+ * Most recent daily slot at or before `now` (today's or yesterday's local times)
+ */
+function latestDailySlot(times: string[], now: Date, timeZone: string): Date | null {
+  const today = getLocalDate(now, timeZone);
+  let latest: Date | null = null;
+  for (const date of [addDays(today, -1), today]) {
+    for (const time of times) {
+      const slot = zonedTimeToUtc(date, time, timeZone);
+      if (slot.getTime() <= now.getTime() && (!latest || slot.getTime() > latest.getTime())) {
+        latest = slot;
+      }
+    }
+  }
+  return latest;
+}
+
+/**
+ * Most recent "every N months since sign-up" slot at or before `now`.
+ * Months are always counted from the sign-up date so short months don't drift the day.
+ */
+function latestVetSlot(reminder: StoredReminder, now: Date, timeZone: string): Date | null {
+  const start = getLocalDate(reminder.createdAt, timeZone);
+  const interval = Math.max(1, Math.round(reminder.schedule.vetIntervalMonths ?? DEFAULT_VET_INTERVAL_MONTHS));
+  let latest: Date | null = null;
+  for (let months = interval; ; months += interval) {
+    const slot = zonedTimeToUtc(addMonths(start, months), VET_REMINDER_TIME, timeZone);
+    if (slot.getTime() > now.getTime()) return latest;
+    latest = slot;
+  }
+}
+
+function getDailyTimes(reminder: ReminderSettings, channel: Exclude<ReminderChannel, "vet">): string[] {
+  if (channel === "feed") {
+    return reminder.schedule.feedTimes?.length ? reminder.schedule.feedTimes : DEFAULT_FEED_TIMES;
+  }
+  if (channel === "play") {
+    return reminder.schedule.playTimes?.length ? reminder.schedule.playTimes : DEFAULT_PLAY_TIMES;
+  }
+  return LITTER_TIMES;
+}
+
+/**
+ * Channels of a reminder that are due at `now`, each with the slot it's for.
+ * Pure function of the reminder and the clock: missed daily slots collapse to
+ * the latest one, and anything already recorded in lastSentByChannel is skipped.
+ */
+export function getDueReminders(
+  reminder: StoredReminder,
+  now: Date,
+  catchUpMinutes: number = DEFAULT_CATCH_UP_MINUTES
+): DueReminder[] {
+  if (!reminder.enabled) return [];
+
+  const timeZone = resolveTimezone(reminder.timezone);
+  const due: DueReminder[] = [];
+  const lastHandled = (channel: ReminderChannel) =>
+    (reminder.lastSentByChannel?.[channel] ?? reminder.createdAt).getTime();
+
+  for (const channel of ["feed", "play", "litter"] as const) {
+    if (!reminder.channels[channel]) continue;
+    const slot = latestDailySlot(getDailyTimes(reminder, channel), now, timeZone);
+    if (!slot || slot.getTime() <= lastHandled(channel)) continue;
+    if (now.getTime() - slot.getTime() > catchUpMinutes * 60_000) continue;
+    due.push({ channel, slot });
+  }
+
+  // Vet reminders repeat every N months from sign-up; a late one is still sent, but only once
+  if (reminder.channels.vet) {
+    const slot = latestVetSlot(reminder, now, timeZone);
+    if (slot && slot.getTime() > lastHandled("vet")) due.push({ channel: "vet", slot });
+  }
+
+  return due;
+}
+
+// ============================================
+// DISPATCH
+// ============================================
+
+/**
+ * One scheduler pass: find due reminders, claim each slot in the store, then send.
+ * The claim is persisted before sending, so a restart mid-tick can't send twice;
+ * a failed send releases the claim so the next tick retries it.
+ */
+export async function runReminderTick(options: ReminderTickOptions = {}): Promise<ReminderTickResult> {
+  const store = options.store ?? getReminderStore();
+  const clock = options.clock ?? systemClock;
+  const send = options.send ?? sendReminder;
+  const now = clock.now();
+
+  const reminders = await store.list();
+  const result: ReminderTickResult = { checkedAt: now, checked: reminders.length, due: [], sent: [], failed: [] };
+
+  for (const reminder of reminders) {
+    for (const { channel, slot } of getDueReminders(reminder, now, options.catchUpMinutes)) {
+      const record: DispatchRecord = { reminderId: reminder.id, catName: reminder.catName, channel, slot };
+      result.due.push(record);
+      if (options.dryRun) continue;
+
+      const previous = reminder.lastSentByChannel?.[channel];
+      if (!(await store.claimSendSlot(reminder.id, channel, slot))) continue;
+
+      let outcome: NotificationResult;
+      try {
+        outcome = await send(reminder, channel);
+      } catch (error) {
+        outcome = {
+          success: false,
+          channel: reminder.contactType,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+
+      if (outcome.success) {
+        await store.update(reminder.id, { lastSentAt: clock.now() });
+        result.sent.push(record);
+      } else {
+        await store.releaseSendSlot(reminder.id, channel, slot, previous);
+        result.failed.push({ ...record, error: outcome.error });
+      }
+    }
+  }
+
+  return result;
+}
+
+let activeWorker: { stop(): void } | null = null;
+
+/**
+ * In-process worker: runs a tick every `intervalMs` (default one minute).
+ * Ticks never overlap, and starting twice returns the running worker.
+ */
+export function startReminderWorker(options: ReminderWorkerOptions = {}): { stop(): void } {
+  if (activeWorker) return activeWorker;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await runReminderTick(options);
+      if (result.sent.length > 0 || result.failed.length > 0) {
+        console.log(`[CatLife] Reminder tick: ${result.sent.length} sent, ${result.failed.length} failed`);
+      }
+      result.failed.forEach(f => console.warn(`[CatLife] Reminder ${f.reminderId} (${f.channel}) failed: ${f.error}`));
+    } catch (error) {
+      console.error("[CatLife] Reminder tick error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, options.intervalMs ?? DEFAULT_WORKER_INTERVAL_MS);
+  void tick();
+
+  activeWorker = {
+    stop: () => {
+      clearInterval(timer);
+      activeWorker = null;
+    },
+  };
+  return activeWorker;
+}
@@ -0,0 +1,353 @@
+// CatLife - Reminder Store
+// File-backed persistence for ReminderSettings, keyed by id and by contact + cat name
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  ContactType,
+  PendingReminderChange,
+  ReminderChannel,
+  ReminderChannels,
+  ReminderRequest,
+  ReminderSettings,
+} from "@/types/catlife";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A stored reminder always has an id and timestamps */
+export type StoredReminder = ReminderSettings & {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Changes applied straight away; a new contact goes through requestContactChange */
+export type ReminderUpdate = Partial<
+  Pick<ReminderSettings, "catName" | "enabled" | "timezone" | "schedule" | "lastSentAt">
+> & {
+  channels?: Partial<ReminderChannels>;
+};
+
+export interface ReminderStore {
+  list(): Promise<StoredReminder[]>;
+  get(id: string): Promise<StoredReminder | null>;
+  findByContact(contactType: ContactType, contactValue: string): Promise<StoredReminder[]>;
+  /**
+   * Park a setup as a pending change: on a new reminder (created switched off), or on the one
+   * that exists for this contact + cat name. Only the contact can confirm it (see applyPendingChange)
+   */
+  upsert(request: ReminderRequest): Promise<{ reminder: StoredReminder; created: boolean }>;
+  /** Park a new contact as the pending change, for the new contact to confirm */
+  requestContactChange(id: string, contactType: ContactType, contactValue: string): Promise<StoredReminder | null>;
+  /**
+   * Apply and clear the pending change requested at `requestedAt` (a newer request replaces it);
+   * a confirmed setup turns the reminder on
+   */
+  applyPendingChange(id: string, requestedAt: Date): Promise<StoredReminder | null>;
+  update(id: string, changes: ReminderUpdate): Promise<StoredReminder | null>;
+  remove(id: string): Promise<boolean>;
+  /**
+   * Atomically mark a scheduled slot as dispatched. Returns false when this
+   * slot (or a later one) was already claimed, so a send never repeats.
+   */
+  claimSendSlot(id: string, channel: ReminderChannel, slot: Date): Promise<boolean>;
+  /** Undo a claim after a failed send so the slot can be retried */
+  releaseSendSlot(id: string, channel: ReminderChannel, slot: Date, previous?: Date): Promise<void>;
+}
+
+type SerializedReminder = Omit<
+  StoredReminder,
+  "createdAt" | "updatedAt" | "lastSentAt" | "lastSentByChannel" | "pendingChange"
+> & {
+  createdAt: string;
+  updatedAt: string;
+  lastSentAt?: string;
+  lastSentByChannel?: Partial<Record<ReminderChannel, string>>;
+  pendingChange?: Omit<PendingReminderChange, "requestedAt"> & { requestedAt: string };
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const DEFAULT_STORE_PATH = path.join(process.cwd(), ".catlife-data", "reminders.json");
+
+/** A write holds the lock for milliseconds, so an older lock file was left by a crashed process */
+const STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10_000;
+
+/**
+ * Emails compare case-insensitively; phone numbers are already E.164
+ */
+export function normalizeContactValue(contactType: ContactType, contactValue: string): string {
+  const trimmed = contactValue.trim();
+  return contactType === "email" ? trimmed.toLowerCase() : trimmed.replace(/\s/g, "");
+}
+
+function contactKey(contactType: ContactType, contactValue: string, catName: string): string {
+  return `${contactType}:${normalizeContactValue(contactType, contactValue)}:${catName.trim().toLowerCase()}`;
+}
+
+function mapDates<T, U>(
+  values: Partial<Record<ReminderChannel, T>> | undefined,
+  convert: (value: T) => U
+): Partial<Record<ReminderChannel, U>> | undefined {
+  if (!values) return undefined;
+  const mapped: Partial<Record<ReminderChannel, U>> = {};
+  for (const [channel, value] of Object.entries(values) as [ReminderChannel, T][]) {
+    mapped[channel] = convert(value);
+  }
+  return mapped;
+}
+
+function serialize(reminder: StoredReminder): SerializedReminder {
+  return {
+    ...reminder,
+    createdAt: reminder.createdAt.toISOString(),
+    updatedAt: reminder.updatedAt.toISOString(),
+    lastSentAt: reminder.lastSentAt ? new Date(reminder.lastSentAt).toISOString() : undefined,
+    lastSentByChannel: mapDates(reminder.lastSentByChannel, date => new Date(date).toISOString()),
+    pendingChange: reminder.pendingChange
+      ? { ...reminder.pendingChange, requestedAt: new Date(reminder.pendingChange.requestedAt).toISOString() }
+      : undefined,
+  };
+}
+
+function hydrate(raw: SerializedReminder): StoredReminder {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    lastSentAt: raw.lastSentAt ? new Date(raw.lastSentAt) : undefined,
+    lastSentByChannel: mapDates(raw.lastSentByChannel, iso => new Date(iso)),
+    pendingChange: raw.pendingChange
+      ? { ...raw.pendingChange, requestedAt: new Date(raw.pendingChange.requestedAt) }
+      : undefined,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Take an exclusive lock shared by every process using the store: the lock file is
+ * created with O_EXCL, so only one holder can exist. Returns the release function.
+ */
+async function acquireFileLock(lockPath: string): Promise<() => Promise<void>> {
+  const startedAt = Date.now();
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, "wx");
+      await handle.writeFile(String(process.pid), "utf8");
+      await handle.close();
+      return () => fs.rm(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    const stat = await fs.stat(lockPath).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for the reminder store lock (${lockPath})`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+// ============================================
+// FILE STORE
+// ============================================
+
+/**
+ * JSON-file store. The file is re-read on every call so a separate process
+ * (e.g. the reminder CLI) sees fresh data. Writes are serialized in-process and,
+ * through a lock file, across processes; each replaces the file atomically.
+ */
+export function createFileReminderStore(filePath: string = DEFAULT_STORE_PATH): ReminderStore {
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<StoredReminder[]> {
+    try {
+      const contents = await fs.readFile(filePath, "utf8");
+      const parsed = JSON.parse(contents) as SerializedReminder[];
+      return Array.isArray(parsed) ? parsed.map(hydrate) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async function save(reminders: StoredReminder[]): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(reminders.map(serialize), null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  /** Run a read-modify-write step after any pending writes finish, holding the file lock */
+  function mutate<T>(step: (reminders: StoredReminder[]) => { result: T; changed: boolean }): Promise<T> {
+    const run = writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const release = await acquireFileLock(`${filePath}.lock`);
+      try {
+        const reminders = await load();
+        const { result, changed } = step(reminders);
+        if (changed) await save(reminders);
+        return result;
+      } finally {
+        await release();
+      }
+    });
+    writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  return {
+    list: () => load(),
+
+    get: async (id) => (await load()).find(r => r.id === id) ?? null,
+
+    findByContact: async (contactType, contactValue) => {
+      const normalized = normalizeContactValue(contactType, contactValue);
+      return (await load()).filter(
+        r => r.contactType === contactType && normalizeContactValue(r.contactType, r.contactValue) === normalized
+      );
+    },
+
+    upsert: (request) =>
+      mutate<{ reminder: StoredReminder; created: boolean }>(reminders => {
+        const now = new Date();
+        const key = contactKey(request.contactType, request.contactValue, request.catName);
+        const existing = reminders.find(r => contactKey(r.contactType, r.contactValue, r.catName) === key);
+
+        // Anyone can type an address, so an existing reminder (even an opted-out one) is left as is
+        if (existing) {
+          existing.pendingChange = {
+            channels: request.channels,
+            ...(request.schedule ? { schedule: request.schedule } : {}),
+            ...(request.timezone ? { timezone: request.timezone } : {}),
+            requestedAt: now,
+          };
+          existing.updatedAt = now;
+          return { result: { reminder: existing, created: false }, changed: true };
+        }
+
+        // Nothing is sent to a typed-in contact until it confirms
+        const reminder: StoredReminder = {
+          id: randomUUID(),
+          catName: request.catName,
+          contactType: request.contactType,
+          contactValue: request.contactValue,
+          channels: request.channels,
+          schedule: request.schedule ?? {},
+          timezone: request.timezone,
+          enabled: false,
+          pendingChange: { channels: request.channels, requestedAt: now },
+          createdAt: now,
+          updatedAt: now,
+        };
+        reminders.push(reminder);
+        return { result: { reminder, created: true }, changed: true };
+      }),
+
+    requestContactChange: (id, contactType, contactValue) =>
+      mutate<StoredReminder | null>(reminders => {
+        const reminder = reminders.find(r => r.id === id);
+        if (!reminder) return { result: null, changed: false };
+
+        const now = new Date();
+        reminder.pendingChange = { contactType, contactValue, requestedAt: now };
+        reminder.updatedAt = now;
+        return { result: reminder, changed: true };
+      }),
+
+    applyPendingChange: (id, requestedAt) =>
+      mutate<StoredReminder | null>(reminders => {
+        const reminder = reminders.find(r => r.id === id);
+        const pending = reminder?.pendingChange;
+        if (!reminder || pending?.requestedAt.getTime() !== requestedAt.getTime()) {
+          return { result: null, changed: false };
+        }
+
+        if (pending.channels) {
+          reminder.channels = pending.channels;
+          reminder.enabled = true;
+        }
+        if (pending.schedule) reminder.schedule = pending.schedule;
+        if (pending.timezone) reminder.timezone = pending.timezone;
+        if (pending.contactType && pending.contactValue) {
+          reminder.contactType = pending.contactType;
+          reminder.contactValue = pending.contactValue;
+        }
+        reminder.updatedAt = new Date();
+        delete reminder.pendingChange;
+        return { result: reminder, changed: true };
+      }),
+
+    update: (id, changes) =>
+      mutate<StoredReminder | null>(reminders => {
+        const index = reminders.findIndex(r => r.id === id);
+        if (index < 0) return { result: null, changed: false };
+
+        const existing = reminders[index];
+        reminders[index] = {
+          ...existing,
+          ...changes,
+          channels: { ...existing.channels, ...changes.channels },
+          schedule: changes.schedule ?? existing.schedule,
+          updatedAt: new Date(),
+        };
+        return { result: reminders[index], changed: true };
+      }),
+
+    remove: (id) =>
+      mutate(reminders => {
+        const index = reminders.findIndex(r => r.id === id);
+        if (index < 0) return { result: false, changed: false };
+        reminders.splice(index, 1);
+        return { result: true, changed: true };
+      }),
+
+    claimSendSlot: (id, channel, slot) =>
+      mutate(reminders => {
+        const reminder = reminders.find(r => r.id === id);
+        const previous = reminder?.lastSentByChannel?.[channel];
+        if (!reminder || (previous && previous.getTime() >= slot.getTime())) {
+          return { result: false, changed: false };
+        }
+        reminder.lastSentByChannel = { ...reminder.lastSentByChannel, [channel]: slot };
+        return { result: true, changed: true };
+      }),
+
+    releaseSendSlot: (id, channel, slot, previous) =>
+      mutate(reminders => {
+        const reminder = reminders.find(r => r.id === id);
+        const current = reminder?.lastSentByChannel?.[channel];
+        if (!reminder || current?.getTime() !== slot.getTime()) {
+          return { result: undefined, changed: false };
+        }
+        reminder.lastSentByChannel = { ...reminder.lastSentByChannel, [channel]: previous };
+        if (!previous) delete reminder.lastSentByChannel[channel];
+        return { result: undefined, changed: true };
+      }),
+  };
+}
+
+let defaultStore: ReminderStore | null = null;
+
+/**
+ * Shared store for API routes. Set CATLIFE_REMINDER_STORE_PATH to move the file.
+ */
+export function getReminderStore(): ReminderStore {
+  if (!defaultStore) {
+    defaultStore = createFileReminderStore(process.env.CATLIFE_REMINDER_STORE_PATH || DEFAULT_STORE_PATH);
+  }
+  return defaultStore;
+}
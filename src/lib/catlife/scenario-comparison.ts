@@ -0,0 +1,143 @@
+// CatLife - Scenario Comparison
+// "What if" runs: the baseline and each care-routine variant share a seed, so only the routine differs
+
+import type {
+  HealthStatus,
+  ScenarioComparison,
+  ScenarioDiff,
+  ScenarioResult,
+  ScenarioVariant,
+  ScenarioWeightChange,
+  ShiftedAlert,
+  SimulationAlert,
+  SimulationConfig,
+  SimulationResult,
+} from "@/types/catlife";
+import { randomSeed } from "./random";
+import { runSimulation } from "./simulation";
+import { monthsPerPoint, pointAtAge } from "./simulation-steps";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const MAX_SCENARIO_VARIANTS = 4;
+
+const HEALTH_STATUSES: HealthStatus[] = ["thriving", "ok", "risky", "unhealthy"];
+
+/** Ages reported in ScenarioDiff.weightChanges */
+const COMPARISON_YEARS = [10, 15];
+
+// ============================================
+// DIFF
+// ============================================
+
+function countStatusMonths(simulation: SimulationResult): Record<HealthStatus, number> {
+  const counts = Object.fromEntries(HEALTH_STATUSES.map(s => [s, 0])) as Record<HealthStatus, number>;
+  const months = monthsPerPoint(simulation.points);
+  simulation.points.forEach(p => counts[p.healthStatus] += months);
+  return Object.fromEntries(HEALTH_STATUSES.map(s => [s, Math.round(counts[s])])) as Record<HealthStatus, number>;
+}
+
+/** "alert-risky-96" -> "alert-risky"; ids without an age suffix are their own kind */
+function alertKind(alert: SimulationAlert): string {
+  return alert.id.replace(/-[\d.]+$/, "");
+}
+
+/**
+ * Pair up alerts of the same kind in order of appearance.
+ * A pair at different ages is a shift; anything left unpaired was added or removed.
+ */
+function diffAlerts(baseline: SimulationAlert[], variant: SimulationAlert[]) {
+  const remaining = new Map<string, SimulationAlert[]>();
+  baseline.forEach(alert => {
+    const kind = alertKind(alert);
+    remaining.set(kind, [...(remaining.get(kind) ?? []), alert]);
+  });
+
+  const alertsAdded: SimulationAlert[] = [];
+  const alertsShifted: ShiftedAlert[] = [];
+  variant.forEach(alert => {
+    const match = remaining.get(alertKind(alert))?.shift();
+    if (!match) {
+      alertsAdded.push(alert);
+    } else if (match.ageMonths !== alert.ageMonths) {
+      alertsShifted.push({ alert, fromAgeMonths: match.ageMonths });
+    }
+  });
+
+  const alertsRemoved = Array.from(remaining.values()).flat().sort((a, b) => a.ageMonths - b.ageMonths);
+  return { alertsAdded, alertsRemoved, alertsShifted };
+}
+
+function weightAt(simulation: SimulationResult, ageYears: number): number | null {
+  return pointAtAge(simulation.points, ageYears * 12)?.weightKgEstimate ?? null;
+}
+
+/**
+ * Compare a variant run against the baseline run
+ */
+export function diffScenarios(baseline: SimulationResult, variant: SimulationResult): ScenarioDiff {
+  const baselineMonths = countStatusMonths(baseline);
+  const variantMonths = countStatusMonths(variant);
+  const statusMonths = Object.fromEntries(
+    HEALTH_STATUSES.map(s => [s, variantMonths[s] - baselineMonths[s]])
+  ) as Record<HealthStatus, number>;
+
+  const weightChanges: ScenarioWeightChange[] = COMPARISON_YEARS.map(ageYears => {
+    const baselineKg = weightAt(baseline, ageYears);
+    const variantKg = weightAt(variant, ageYears);
+    return {
+      ageYears,
+      baselineKg,
+      variantKg,
+      changeKg: baselineKg !== null && variantKg !== null
+        ? Math.round((variantKg - baselineKg) * 100) / 100
+        : null,
+    };
+  });
+
+  return {
+    statusMonths,
+    ...diffAlerts(baseline.alerts, variant.alerts),
+    weightChanges,
+  };
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Run the baseline config and each variant's care routine on one shared seed.
+ * The monthly noise is then identical across scenarios, so every difference
+ * in the diff comes from the routine change.
+ */
+export function compareScenarios(baseConfig: SimulationConfig, variants: ScenarioVariant[]): ScenarioComparison {
+  const seed = baseConfig.seed ?? randomSeed();
+  const baselineSimulation = runSimulation({ ...baseConfig, seed });
+
+  const baseline: ScenarioResult = {
+    label: "Current routine",
+    careRoutine: baseConfig.careRoutine,
+    simulation: baselineSimulation,
+    diff: null,
+  };
+
+  const results = variants.slice(0, MAX_SCENARIO_VARIANTS).map((variant): ScenarioResult => {
+    const simulation = runSimulation({
+      ...baseConfig,
+      careRoutine: variant.careRoutine,
+      baselineCareRoutine: baseConfig.careRoutine,
+      seed,
+    });
+    return {
+      label: variant.label,
+      careRoutine: variant.careRoutine,
+      simulation,
+      diff: diffScenarios(baselineSimulation, simulation),
+    };
+  });
+
+  return { baseline, variants: results, seed };
+}
@@ -0,0 +1,259 @@
+// CatLife - Sensitivity Analysis
+// Nudges one care or profile input at a time and ranks inputs by how far the outcomes move
+
+import type {
+  CatProfile,
+  CareRoutine,
+  FoodType,
+  SensitivityAnalysis,
+  SensitivityEntry,
+  SensitivityInput,
+  SensitivityOutcome,
+  SimulationConfig,
+  SimulationPoint,
+} from "@/types/catlife";
+import type { TrajectorySimulator } from "./care-optimizer";
+import { ENERGY_MODEL } from "./energy-balance";
+import { pointAtAge } from "./simulation-steps";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A config change and how to describe it */
+interface Perturbation {
+  valueLabel: string;
+  careRoutine?: Partial<CareRoutine>;
+  catProfile?: Partial<CatProfile>;
+}
+
+interface InputSpec {
+  input: SensitivityInput;
+  label: string;
+  /** Current value as shown to the owner, and the low/high nudges; null when the input can't be nudged */
+  perturb: (catProfile: CatProfile, careRoutine: CareRoutine) =>
+    { currentLabel: string; low: Perturbation; high: Perturbation } | null;
+}
+
+// ============================================
+// PERTURBATIONS
+// ============================================
+
+/**
+ * Step sizes are what an owner could realistically change or misjudge: half an ounce
+ * of food, a couple of treats, ten minutes of play, one vet visit, a tenth of body weight.
+ * Categorical inputs swing between their two ends (e.g. dry vs. wet food).
+ * Age, sex and breed are facts about the cat, not inputs, so they aren't varied.
+ */
+export const SENSITIVITY_STEPS = {
+  foodOz: 0.5,
+  treats: 2,
+  playMinutes: 10,
+  vetVisits: 1,
+  weightFraction: 0.1,
+};
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2).replace(/0$/, "");
+}
+
+/** Low/high nudges for a numeric routine field, floored at zero */
+function numericRoutinePerturbation(
+  field: "foodAmountOzPerDay" | "treatsPerDay" | "playMinutesPerDay" | "vetVisitsPerYear",
+  current: number,
+  step: number,
+  unit: string
+) {
+  const low = Math.max(0, current - step);
+  const high = current + step;
+  return {
+    currentLabel: `${formatNumber(current)}${unit}`,
+    low: { valueLabel: `${formatNumber(low)}${unit}`, careRoutine: { [field]: low } },
+    high: { valueLabel: `${formatNumber(high)}${unit}`, careRoutine: { [field]: high } },
+  };
+}
+
+/**
+ * Switch food type at the same calories, so the swing shows the diet itself
+ * (hydration, urinary health) rather than an ounce of wet food having fewer kcal than dry
+ */
+function switchFoodType(routine: CareRoutine, foodType: FoodType): Partial<CareRoutine> {
+  if (routine.foodAmountOzPerDay === null) return { foodType };
+  const kcalPerOz = ENERGY_MODEL.foodKcalPerOz;
+  const currentKcal = routine.foodAmountOzPerDay * kcalPerOz[routine.foodType ?? ENERGY_MODEL.defaultFoodType];
+  return { foodType, foodAmountOzPerDay: Math.round((currentKcal / kcalPerOz[foodType]) * 100) / 100 };
+}
+
+const INPUTS: InputSpec[] = [
+  {
+    input: "foodAmountOzPerDay",
+    label: "Food amount",
+    // Unknown amounts are modelled as feeding to maintenance, which has no amount to nudge
+    perturb: (_, routine) => routine.foodAmountOzPerDay === null
+      ? null
+      : numericRoutinePerturbation("foodAmountOzPerDay", routine.foodAmountOzPerDay, SENSITIVITY_STEPS.foodOz, " oz/day"),
+  },
+  {
+    input: "treatsPerDay",
+    label: "Treats",
+    perturb: (_, routine) => numericRoutinePerturbation(
+      "treatsPerDay", routine.treatsPerDay ?? ENERGY_MODEL.defaultTreatsPerDay, SENSITIVITY_STEPS.treats, "/day"
+    ),
+  },
+  {
+    input: "playMinutesPerDay",
+    label: "Play",
+    perturb: (_, routine) => numericRoutinePerturbation(
+      "playMinutesPerDay", routine.playMinutesPerDay ?? ENERGY_MODEL.defaultPlayMinutes, SENSITIVITY_STEPS.playMinutes, " min/day"
+    ),
+  },
+  {
+    input: "vetVisitsPerYear",
+    label: "Vet visits",
+    perturb: (_, routine) => numericRoutinePerturbation(
+      "vetVisitsPerYear", routine.vetVisitsPerYear ?? 0, SENSITIVITY_STEPS.vetVisits, "/year"
+    ),
+  },
+  {
+    input: "foodType",
+    label: "Food type",
+    perturb: (_, routine) => ({
+      currentLabel: `${routine.foodType ?? ENERGY_MODEL.defaultFoodType} food`,
+      low: { valueLabel: "dry food", careRoutine: switchFoodType(routine, "dry") },
+      high: { valueLabel: "wet food", careRoutine: switchFoodType(routine, "wet") },
+    }),
+  },
+  {
+    input: "feedingFrequency",
+    label: "Feeding style",
+    perturb: (_, routine) => ({
+      currentLabel: routine.feedingFrequency === null
+        ? "unknown"
+        : routine.feedingFrequency === 4 ? "free-fed" : `${routine.feedingFrequency} meals/day`,
+      low: { valueLabel: "2 measured meals", careRoutine: { feedingFrequency: 2 } },
+      high: { valueLabel: "free-fed", careRoutine: { feedingFrequency: 4 } },
+    }),
+  },
+  {
+    input: "litterCleaningFrequency",
+    label: "Litter cleaning",
+    perturb: (_, routine) => ({
+      currentLabel: (routine.litterCleaningFrequency ?? "unknown").replace(/_/g, " "),
+      low: { valueLabel: "weekly", careRoutine: { litterCleaningFrequency: "weekly" } },
+      high: { valueLabel: "daily", careRoutine: { litterCleaningFrequency: "daily" } },
+    }),
+  },
+  {
+    input: "weightKg",
+    label: "Stated weight",
+    // Weigh-ins replace the stated weight, so nudging it would change nothing
+    perturb: (profile) => {
+      if (profile.weightKg === null || (profile.weighIns?.length ?? 0) > 0) return null;
+      const step = profile.weightKg * SENSITIVITY_STEPS.weightFraction;
+      const low = Math.round((profile.weightKg - step) * 10) / 10;
+      const high = Math.round((profile.weightKg + step) * 10) / 10;
+      return {
+        currentLabel: `${profile.weightKg}kg`,
+        low: { valueLabel: `${low}kg`, catProfile: { weightKg: low } },
+        high: { valueLabel: `${high}kg`, catProfile: { weightKg: high } },
+      };
+    },
+  },
+  {
+    input: "indoorOutdoor",
+    label: "Outdoor access",
+    perturb: (profile) => ({
+      currentLabel: profile.indoorOutdoor ?? "indoor",
+      low: { valueLabel: "indoor", catProfile: { indoorOutdoor: "indoor" } },
+      high: { valueLabel: "outdoor", catProfile: { indoorOutdoor: "outdoor" } },
+    }),
+  },
+  {
+    input: "neutered",
+    label: "Neutered",
+    perturb: (profile) => ({
+      currentLabel: profile.neutered === false ? "intact" : profile.neutered ? "neutered" : "unknown",
+      low: { valueLabel: "intact", catProfile: { neutered: false } },
+      high: { valueLabel: "neutered", catProfile: { neutered: true } },
+    }),
+  },
+];
+
+// ============================================
+// OUTCOMES
+// ============================================
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function measureOutcome(points: SimulationPoint[]): SensitivityOutcome {
+  const scores = points.flatMap(p => (p.healthScores ? [p.healthScores.composite] : []));
+  const weightAt = (ageMonths: number) => pointAtAge(points, ageMonths)?.weightKgEstimate ?? null;
+  return {
+    averageHealthScore: scores.length > 0 ? round(scores.reduce((sum, s) => sum + s, 0) / scores.length, 1) : 0,
+    weightAt10Kg: weightAt(120),
+    weightAt15Kg: weightAt(180),
+  };
+}
+
+function difference(outcome: SensitivityOutcome, baseline: SensitivityOutcome): SensitivityOutcome {
+  const diff = (a: number | null, b: number | null) => (a !== null && b !== null ? round(a - b, 2) : null);
+  return {
+    averageHealthScore: round(outcome.averageHealthScore - baseline.averageHealthScore, 1),
+    weightAt10Kg: diff(outcome.weightAt10Kg, baseline.weightAt10Kg),
+    weightAt15Kg: diff(outcome.weightAt15Kg, baseline.weightAt15Kg),
+  };
+}
+
+function weightSwing(entry: SensitivityEntry): number {
+  return Math.max(
+    Math.abs((entry.high.delta.weightAt10Kg ?? 0) - (entry.low.delta.weightAt10Kg ?? 0)),
+    Math.abs((entry.high.delta.weightAt15Kg ?? 0) - (entry.low.delta.weightAt15Kg ?? 0))
+  );
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * One-at-a-time sensitivity: each input is nudged down and up from its current value
+ * and the simulator re-run on the config's seed, so every run sees the same noise.
+ * Routine nudges keep the stated weight calibrated against the real routine, as the optimizer does.
+ * Entries are ranked by their swing in average health score, then by weight swing at 10 and 15.
+ */
+export function analyzeSensitivity(config: SimulationConfig, simulate: TrajectorySimulator): SensitivityAnalysis {
+  const baseline = measureOutcome(simulate(config));
+  const baselineCareRoutine = config.baselineCareRoutine ?? config.careRoutine;
+
+  const run = (perturbation: Perturbation) => difference(
+    measureOutcome(simulate({
+      ...config,
+      catProfile: { ...config.catProfile, ...perturbation.catProfile },
+      careRoutine: { ...config.careRoutine, ...perturbation.careRoutine },
+      baselineCareRoutine,
+    })),
+    baseline
+  );
+
+  const entries: SensitivityEntry[] = [];
+  for (const spec of INPUTS) {
+    const perturbed = spec.perturb(config.catProfile, config.careRoutine);
+    if (!perturbed) continue;
+    entries.push({
+      input: spec.input,
+      label: spec.label,
+      currentLabel: perturbed.currentLabel,
+      low: { valueLabel: perturbed.low.valueLabel, delta: run(perturbed.low) },
+      high: { valueLabel: perturbed.high.valueLabel, delta: run(perturbed.high) },
+    });
+  }
+
+  const healthSwing = (entry: SensitivityEntry) =>
+    Math.abs(entry.high.delta.averageHealthScore - entry.low.delta.averageHealthScore);
+  entries.sort((a, b) => healthSwing(b) - healthSwing(a) || weightSwing(b) - weightSwing(a));
+
+  return { baseline, entries };
+}
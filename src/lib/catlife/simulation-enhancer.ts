@@ -8,6 +8,7 @@ import type {
   SimulationPoint,
   SimulationAlert,
   HealthStatus,
+  RoutineChange,
 } from "@/types/catlife";
 import { 
   findBreedProfile, 
@@ -18,6 +19,8 @@ import {
   type BreedHealthProfile,
   type HealthRisk,
 } from "./breed-health-data";
+import { initConditionProgress, isConditionManaged } from "./condition-catalog";
+import { birthdayPoints, pointAtAge } from "./simulation-steps";
 
 // ============================================
 // TYPES
@@ -83,7 +86,7 @@ export function analyzeTrajectory(
   };
 
   // Get yearly points for analysis
-  const yearlyPoints = points.filter(p => p.ageMonths % 12 === 0);
+  const yearlyPoints = birthdayPoints(points);
   
   if (yearlyPoints.length < 2) {
     return {
@@ -117,8 +120,8 @@ export function analyzeTrajectory(
   }
 
   // Get projected status at year 10 and 15
-  const year10Point = yearlyPoints.find(p => p.ageMonths === 120);
-  const year15Point = yearlyPoints.find(p => p.ageMonths === 180);
+  const year10Point = pointAtAge(yearlyPoints, 120);
+  const year15Point = pointAtAge(yearlyPoints, 180);
   
   const projectedStatusAtYear10 = year10Point?.healthStatus || extrapolateStatus(avgScore, trend, 10);
   const projectedStatusAtYear15 = year15Point?.healthStatus || extrapolateStatus(avgScore, trend, 15);
@@ -156,6 +159,34 @@ export function analyzeTrajectory(
     positiveFactors.push("Good food variety for hydration");
   }
 
+  if (careRoutine.feedingFrequency === 4) {
+    riskFactors.push("Free feeding (about 10% more calories than measured meals)");
+  } else if (careRoutine.feedingFrequency === 2 || careRoutine.feedingFrequency === 3) {
+    positiveFactors.push("Measured meals");
+  }
+
+  if (careRoutine.litterCleaningFrequency === "weekly") {
+    riskFactors.push("Litter scooped weekly (urine holding and house-soiling)");
+  } else if (careRoutine.litterCleaningFrequency === "daily") {
+    positiveFactors.push("Litter box scooped daily");
+  }
+
+  // Sex and neuter status
+  if (catProfile.neutered === false) {
+    riskFactors.push(catProfile.sex === "female"
+      ? "Not spayed (pyometra and mammary tumor risk)"
+      : "Not neutered (roaming, fights and spraying)");
+  } else if (catProfile.neutered === true) {
+    positiveFactors.push("Neutered (longer life expectancy)");
+    if (careRoutine.feedingFrequency === 4) {
+      riskFactors.push("Neutered and free-fed (lower calorie needs, easy weight gain)");
+    }
+  }
+
+  if (catProfile.sex === "male" && (careRoutine.foodType === "dry" || careRoutine.litterCleaningFrequency === "weekly")) {
+    riskFactors.push("Male cat with urinary risk factors (blockage risk)");
+  }
+
   // Weight analysis
   const breedProfile = findBreedProfile(catProfile.breed);
   if (breedProfile && catProfile.weightKg) {
@@ -169,6 +200,11 @@ export function analyzeTrajectory(
   // Known conditions
   if (catProfile.knownConditions && catProfile.knownConditions.length > 0) {
     riskFactors.push(`Existing health conditions: ${catProfile.knownConditions.join(", ")}`);
+    initConditionProgress(catProfile.knownConditions).tracked
+      .filter(condition => !isConditionManaged(condition, careRoutine.vetVisitsPerYear))
+      .forEach(condition => {
+        riskFactors.push(`${condition.definition.name} needs ${condition.definition.managedVetVisitsPerYear}+ vet visits a year to stay managed`);
+      });
   }
 
   // Age factor
@@ -225,13 +261,14 @@ export function generateBreedSpecificAlerts(
   const alerts: SimulationAlert[] = [];
   const catName = catProfile.name || "Your cat";
   const startAge = catProfile.ageYears ?? 1;
+  const endAgeMonths = points[points.length - 1]?.ageMonths ?? Infinity;
 
   // Generate alerts for health risks at appropriate ages
   breedProfile.healthRisks.forEach(risk => {
     const onsetMonth = risk.typicalOnsetYears * 12;
     
     // Only add alert if it's in the simulation range and not in the past
-    if (onsetMonth >= startAge * 12) {
+    if (onsetMonth >= startAge * 12 && onsetMonth <= endAgeMonths) {
       // Pre-warning alert (1 year before typical onset)
       const preWarningMonth = Math.max(onsetMonth - 12, startAge * 12);
       if (preWarningMonth !== onsetMonth) {
@@ -259,7 +296,7 @@ export function generateBreedSpecificAlerts(
   breedProfile.screeningSchedule.forEach(schedule => {
     const scheduleMonth = schedule.ageYears * 12;
     
-    if (scheduleMonth >= startAge * 12) {
+    if (scheduleMonth >= startAge * 12 && scheduleMonth <= endAgeMonths) {
       alerts.push({
         id: `breed-screening-${schedule.ageYears}`,
         ageMonths: scheduleMonth,
@@ -420,6 +457,57 @@ function generateYearRecommendations(
   return recs;
 }
 
+/**
+ * The progressive timeline's routine advice as a schedule runSimulation can follow:
+ * vet monitoring for known conditions from the start, twice-yearly vet visits from 7, senior food (about 10% fewer calories)
+ * from 10 when the food amount is known, and a weight-loss routine if weight climbs 10% past the breed's ideal maximum.
+ */
+export function getProgressiveRoutineSchedule(
+  catProfile: CatProfile,
+  careRoutine: CareRoutine
+): RoutineChange[] {
+  const schedule: RoutineChange[] = [];
+  const idealMax = findBreedProfile(catProfile.breed)?.idealWeight.max ?? 5.5;
+  let vetVisits = careRoutine.vetVisitsPerYear ?? 0;
+
+  // Known conditions get the monitoring that keeps them managed straight away
+  const unmanaged = initConditionProgress(catProfile.knownConditions).tracked
+    .filter(condition => !isConditionManaged(condition, vetVisits));
+  if (unmanaged.length > 0) {
+    vetVisits = Math.max(...unmanaged.map(c => c.definition.managedVetVisitsPerYear));
+    schedule.push({
+      label: `Vet monitoring for ${unmanaged.map(c => c.definition.name.toLowerCase()).join(" and ")}`,
+      atAgeMonths: 0,
+      careRoutine: { vetVisitsPerYear: vetVisits },
+    });
+  }
+
+  if (vetVisits < 2) {
+    schedule.push({ label: "Twice-yearly vet visits", atAgeMonths: 84, careRoutine: { vetVisitsPerYear: 2 } });
+  }
+
+  // An unknown amount stays unknown: the simulation already feeds it for maintenance
+  const foodOz = careRoutine.foodAmountOzPerDay;
+  if (foodOz !== null) {
+    schedule.push({
+      label: "Switch to senior food",
+      atAgeMonths: 120,
+      careRoutine: { foodAmountOzPerDay: Math.round(foodOz * 0.9 * 4) / 4 },
+    });
+  }
+
+  schedule.push({
+    label: "Weight-loss routine: fewer treats, more play",
+    whenWeightAboveKg: Math.round(idealMax * 1.1 * 10) / 10,
+    careRoutine: {
+      treatsPerDay: Math.min(careRoutine.treatsPerDay ?? 2, 1),
+      playMinutesPerDay: Math.max(careRoutine.playMinutesPerDay ?? 15, 25),
+    },
+  });
+
+  return schedule;
+}
+
 // ============================================
 // MAIN ENHANCEMENT FUNCTION
 // ============================================
@@ -592,7 +680,7 @@ export async function enhanceSimulationWithGPT(
 
   try {
     // Get year milestones only
-    const yearMilestones = result.points.filter(p => p.ageMonths % 12 === 0);
+    const yearMilestones = birthdayPoints(result.points);
 
     // Call the GPT API for batch note generation
     const response = await fetch("/api/catlife/generate-milestone-notes", {
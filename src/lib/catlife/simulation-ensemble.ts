@@ -0,0 +1,95 @@
+// CatLife - Simulation Ensemble
+// Runs many seeded simulations of the same profile and summarizes the spread month by month
+
+import type {
+  EnsemblePoint,
+  EnsembleResult,
+  HealthStatus,
+  SimulationConfig,
+  SimulationPoint,
+} from "@/types/catlife";
+import { createRandom, MAX_SEED, randomSeed } from "./random";
+import { simulatePoints } from "./simulation";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const DEFAULT_ENSEMBLE_RUNS = 100;
+export const MAX_ENSEMBLE_RUNS = 500;
+
+const HEALTH_STATUSES: HealthStatus[] = ["thriving", "ok", "risky", "unhealthy"];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Seeds for each run, derived from the base seed so the whole ensemble replays
+ */
+export function deriveRunSeeds(baseSeed: number, runs: number): number[] {
+  const random = createRandom(baseSeed);
+  return Array.from({ length: runs }, () => Math.floor(random() * (MAX_SEED + 1)));
+}
+
+/**
+ * Linear-interpolated percentile of an ascending list (p in 0..1)
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Per-month percentiles and status shares across runs.
+ * All runs share a config, so their points line up month for month.
+ */
+export function summarizeEnsemble(runs: SimulationPoint[][]): EnsemblePoint[] {
+  if (runs.length === 0) return [];
+
+  return runs[0].map((point, index) => {
+    const weights = runs.map(r => r[index].weightKgEstimate).sort((a, b) => a - b);
+
+    const counts = Object.fromEntries(HEALTH_STATUSES.map(s => [s, 0])) as Record<HealthStatus, number>;
+    runs.forEach(r => counts[r[index].healthStatus]++);
+    const statusProbabilities = Object.fromEntries(
+      HEALTH_STATUSES.map(s => [s, round(counts[s] / runs.length, 3)])
+    ) as Record<HealthStatus, number>;
+
+    return {
+      ageMonths: point.ageMonths,
+      weightP10: round(percentile(weights, 0.1), 2),
+      weightP50: round(percentile(weights, 0.5), 2),
+      weightP90: round(percentile(weights, 0.9), 2),
+      statusProbabilities,
+    };
+  });
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Run `runs` simulations of the same config and return the monthly spread.
+ * config.seed is the base seed: the same seed and run count give the same ensemble.
+ */
+export function runEnsemble(config: SimulationConfig, runs: number = DEFAULT_ENSEMBLE_RUNS): EnsembleResult {
+  const count = Math.min(MAX_ENSEMBLE_RUNS, Math.max(1, Math.round(runs)));
+  const seed = config.seed ?? randomSeed();
+
+  const runPoints = deriveRunSeeds(seed, count).map(runSeed => simulatePoints({ ...config, seed: runSeed }));
+
+  return {
+    points: summarizeEnsemble(runPoints),
+    runs: count,
+    seed,
+  };
+}
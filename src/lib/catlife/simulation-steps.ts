@@ -0,0 +1,107 @@
+// CatLife - Simulation Steps
+// Step sizes, the simulated age range, and finding points by age on any step grid
+
+import type { CatProfile, SimulationConfig, SimulationStepSize } from "@/types/catlife";
+import { findBreedProfile } from "./breed-health-data";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Months per simulation step */
+export const SIMULATION_STEPS: Record<SimulationStepSize, number> = {
+  weekly: 12 / 52,
+  monthly: 1,
+  quarterly: 3,
+};
+
+export const DEFAULT_STEP_SIZE: SimulationStepSize = "monthly";
+
+/**
+ * Default range: a few years past the top of the breed's life expectancy, so the
+ * fading survival odds rather than the chart edge show where life likely ends.
+ * Every cat gets some future to look at, however old.
+ */
+export const SIMULATION_HORIZON = {
+  yearsPastLifeExpectancy: 4,
+  /** Used when the breed isn't in the database */
+  defaultLifeExpectancyMaxYears: 16,
+  /** Cap on the default and requested end age (30 years) */
+  maxEndAgeMonths: 360,
+  /** Shortest future simulated, even past the cap */
+  minRemainingMonths: 24,
+  /**
+   * Most points in one run: ten years of weekly steps. Monthly and quarterly runs never reach it;
+   * weekly runs past it end early rather than cost seconds per request (30 years weekly is ~1,560 points).
+   */
+  maxPoints: 520,
+};
+
+// ============================================
+// RANGE
+// ============================================
+
+export function getStepMonths(config: Pick<SimulationConfig, "stepSize">): number {
+  return SIMULATION_STEPS[config.stepSize ?? DEFAULT_STEP_SIZE];
+}
+
+/**
+ * Last simulated age: the requested end age or the breed default, capped, and at least
+ * `minRemainingMonths` past the start; then cut short if the steps would exceed `maxPoints`
+ */
+export function resolveEndAgeMonths(
+  catProfile: CatProfile,
+  startAgeMonths: number,
+  requestedEndAgeMonths?: number,
+  stepMonths: number = SIMULATION_STEPS[DEFAULT_STEP_SIZE]
+): number {
+  const lifeExpectancyMaxYears = findBreedProfile(catProfile.breed)?.lifeExpectancy.max
+    ?? SIMULATION_HORIZON.defaultLifeExpectancyMaxYears;
+  const defaultEnd = (lifeExpectancyMaxYears + SIMULATION_HORIZON.yearsPastLifeExpectancy) * 12;
+  const end = Math.min(requestedEndAgeMonths ?? defaultEnd, SIMULATION_HORIZON.maxEndAgeMonths);
+  // Rounded like the age grid, so the last allowed step isn't lost to rounding
+  const pointLimitEnd = Math.round((startAgeMonths + (SIMULATION_HORIZON.maxPoints - 1) * stepMonths) * 100) / 100;
+  return Math.min(Math.max(end, startAgeMonths + SIMULATION_HORIZON.minRemainingMonths), pointLimitEnd);
+}
+
+/**
+ * Simulated ages from start to end. Ages are rounded to hundredths so whole
+ * months and years land exactly (52 weekly steps make 12.00 months).
+ */
+export function buildAgeGrid(startAgeMonths: number, endAgeMonths: number, stepMonths: number): number[] {
+  const ages: number[] = [];
+  for (let step = 0; ; step++) {
+    const age = Math.round((startAgeMonths + step * stepMonths) * 100) / 100;
+    if (age > endAgeMonths) break;
+    ages.push(age);
+  }
+  return ages;
+}
+
+// ============================================
+// LOOKUPS
+// ============================================
+
+/** Months between consecutive points; 1 for a single point */
+export function monthsPerPoint(points: { ageMonths: number }[]): number {
+  return points.length > 1 ? points[1].ageMonths - points[0].ageMonths : 1;
+}
+
+/**
+ * The point at an age: the first one at or after it, if less than a step past
+ */
+export function pointAtAge<T extends { ageMonths: number }>(points: T[], ageMonths: number): T | undefined {
+  const step = monthsPerPoint(points);
+  return points.find(p => p.ageMonths >= ageMonths && p.ageMonths - ageMonths < step);
+}
+
+/**
+ * The first point of each year of age (a birthday, or just after it on coarse grids)
+ */
+export function birthdayPoints<T extends { ageMonths: number }>(points: T[]): T[] {
+  return points.filter((point, index) =>
+    index === 0
+      ? point.ageMonths % 12 === 0
+      : Math.floor(point.ageMonths / 12) > Math.floor(points[index - 1].ageMonths / 12)
+  );
+}
@@ -2,16 +2,44 @@
 // Enhanced with breed-specific data and trajectory analysis
 
 import type {
+  AppliedRoutineChange,
+  CarePlan,
   CatProfile,
   CareRoutine,
+  ConditionId,
+  ConditionSnapshot,
   SimulationConfig,
   SimulationPoint,
   SimulationAlert,
   SimulationResult,
   HealthStatus,
   EnhancedSimulationResult,
+  HouseholdSetting,
+  RoutineChange,
 } from "@/types/catlife";
 import { findBreedProfile } from "./breed-health-data";
+import { createRandom, randomSeed } from "./random";
+import { optimizeCareRoutine } from "./care-optimizer";
+import { calculateEnergyBalance, calibrateIndividualFactor } from "./energy-balance";
+import {
+  advanceConditions,
+  applyConditionStatus,
+  conditionWeightChange,
+  getConditionDefinition,
+  initConditionProgress,
+  snapshotConditions,
+} from "./condition-catalog";
+import { projectSurvival } from "./survival-model";
+import { householdPressure, scoreHealth } from "./health-scores";
+import { calibrateWeight } from "./weight-calibration";
+import { birthdayPoints, buildAgeGrid, getStepMonths, pointAtAge, resolveEndAgeMonths } from "./simulation-steps";
+import {
+  assessGrowth,
+  expectedWeightKg,
+  getGrowthCurve,
+  isGrowing,
+  type GrowthAssessment,
+} from "./growth-curves";
 
 // ============================================
 // Constants & Reference Data
@@ -60,7 +88,7 @@ const LIFE_STAGES = {
   youngAdult: { end: 36 },
   adult: { end: 120 }, // 10 years
   senior: { end: 180 }, // 15 years
-  geriatric: { end: 240 }, // 20 years
+  geriatric: { end: Infinity }, // open-ended; how far a run goes is set by its horizon
 };
 
 // ============================================
@@ -85,48 +113,6 @@ function getIdealWeightRange(breed: string | null): { min: number; max: number }
   return FALLBACK_WEIGHT_RANGES[size];
 }
 
-/**
- * Calculate calorie balance proxy
- * Positive = weight gain tendency, Negative = weight loss tendency
- */
-function calculateCalorieProxy(
-  careRoutine: CareRoutine,
-  indoorOutdoor: string | null,
-  currentWeight: number,
-  idealWeight: number
-): number {
-  let proxy = 0;
-
-  // Food amount impact
-  const foodOz = careRoutine.foodAmountOzPerDay ?? 3.5; // Default ~100g
-  const idealFoodOz = (idealWeight * 2.2) * 0.5; // ~0.5 oz per lb
-  proxy += (foodOz - idealFoodOz) * 0.1;
-
-  // Treats impact (each treat adds ~10 calories, roughly 0.01 weight drift)
-  const treats = careRoutine.treatsPerDay ?? 2;
-  proxy += treats * 0.02;
-
-  // Activity impact (more play = negative calorie balance)
-  const playMinutes = careRoutine.playMinutesPerDay ?? 15;
-  proxy -= playMinutes * 0.01;
-
-  // Indoor cats tend to be less active
-  if (indoorOutdoor === "indoor") {
-    proxy += 0.05;
-  } else if (indoorOutdoor === "outdoor" || indoorOutdoor === "mixed") {
-    proxy -= 0.05;
-  }
-
-  // Food type impact (wet food generally better for weight management)
-  if (careRoutine.foodType === "wet" || careRoutine.foodType === "raw") {
-    proxy -= 0.02;
-  } else if (careRoutine.foodType === "dry") {
-    proxy += 0.02;
-  }
-
-  return proxy;
-}
-
 /**
  * Determine health status based on weight deviation and other factors
  */
@@ -249,8 +235,82 @@ function generateAlerts(
   let previousStatus: HealthStatus = "thriving";
   let hasWarnedAboutWeight = false;
   let hasWarnedAboutVet = false;
+  let routine = careRoutine;
+  const warnedOnce = new Set<string>();
+  let previousConditions: ConditionSnapshot[] = [];
+  const warnedUnmanaged = new Set<ConditionId>();
+  const flaggedGrowth = new Set<GrowthAssessment>();
 
   for (const point of points) {
+    // Scheduled routine changes
+    point.routineChanges?.forEach((change, index) => {
+      routine = { ...routine, ...change.careRoutine };
+      alerts.push({
+        id: `routine-${index}-${point.ageMonths}`,
+        ageMonths: point.ageMonths,
+        severity: "info",
+        message: `${catName}'s routine changes: ${change.label}.`,
+        recommendation: "The simulation follows the new routine from here on.",
+      });
+    });
+
+    // Condition stage changes, and a nudge the first time a condition goes unmanaged
+    point.conditions?.forEach(condition => {
+      const before = previousConditions.find(c => c.conditionId === condition.conditionId);
+      const advice = getConditionDefinition(condition.conditionId)?.managementAdvice ?? "";
+      if (before && before.stage !== condition.stage) {
+        alerts.push({
+          id: `condition-${condition.conditionId}-${point.ageMonths}`,
+          ageMonths: point.ageMonths,
+          severity: point.healthStatus === "unhealthy" ? "critical" : "warning",
+          message: `${catName}'s ${condition.name.toLowerCase()} moves from ${before.stage} to ${condition.stage}.`,
+          recommendation: condition.managed
+            ? `Keep up the current care: ${advice}`
+            : `Closer vet care slows this down: ${advice}`,
+        });
+      }
+      if (!condition.managed && !warnedUnmanaged.has(condition.conditionId)) {
+        warnedUnmanaged.add(condition.conditionId);
+        alerts.push({
+          id: `condition-unmanaged-${condition.conditionId}-${point.ageMonths}`,
+          ageMonths: point.ageMonths,
+          severity: "warning",
+          message: `${catName}'s ${condition.name.toLowerCase()} isn't being monitored often enough, so it progresses faster.`,
+          recommendation: advice,
+        });
+      }
+    });
+    previousConditions = point.conditions ?? [];
+
+    // Growth off the breed's curve, flagged once each way
+    if (point.expectedWeightKg !== undefined) {
+      const growth = assessGrowth(point.weightKgEstimate, point.expectedWeightKg);
+      if (growth !== "on-track" && !flaggedGrowth.has(growth)) {
+        flaggedGrowth.add(growth);
+        const breed = catProfile.breed ? `a young ${catProfile.breed}` : "a cat this age";
+        alerts.push({
+          id: `growth-${growth}-${point.ageMonths}`,
+          ageMonths: point.ageMonths,
+          severity: "warning",
+          message: growth === "under"
+            ? `${catName} is growing slower than expected for ${breed} (${point.weightKgEstimate}kg vs. about ${point.expectedWeightKg}kg).`
+            : `${catName} is growing faster than expected for ${breed} (${point.weightKgEstimate}kg vs. about ${point.expectedWeightKg}kg).`,
+          recommendation: growth === "under"
+            ? "Ask your vet to check for parasites or other causes of slow growth, and feed growth-formula food 3-4 times a day."
+            : "Fast growth often carries into adult weight problems. Measure portions instead of free feeding and ask your vet about body condition.",
+        });
+      }
+    }
+
+    // Profile and routine answers that carry their own risks, each raised once
+    profileRiskAlerts(point, catProfile, routine, idealRange).forEach(alert => {
+      const kind = alert.id.replace(/-[\d.]+$/, "");
+      if (!warnedOnce.has(kind)) {
+        warnedOnce.add(kind);
+        alerts.push(alert);
+      }
+    });
+
     // Status transition alerts
     if (point.healthStatus === "risky" && previousStatus !== "risky" && previousStatus !== "unhealthy") {
       alerts.push({
@@ -285,7 +345,7 @@ function generateAlerts(
     }
 
     // Vet visit alerts for seniors
-    if (!hasWarnedAboutVet && point.ageMonths >= LIFE_STAGES.adult.end && (careRoutine.vetVisitsPerYear ?? 0) < 1) {
+    if (!hasWarnedAboutVet && point.ageMonths >= LIFE_STAGES.adult.end && (routine.vetVisitsPerYear ?? 0) < 1) {
       hasWarnedAboutVet = true;
       alerts.push({
         id: `alert-vet-${point.ageMonths}`,
@@ -308,7 +368,7 @@ function generateAlerts(
   ];
 
   for (const milestone of milestoneMonths) {
-    const point = points.find((p) => p.ageMonths === milestone.month);
+    const point = pointAtAge(points, milestone.month);
     if (point) {
       alerts.push({
         id: `milestone-${milestone.month}`,
@@ -324,6 +384,88 @@ function generateAlerts(
   return alerts.sort((a, b) => a.ageMonths - b.ageMonths);
 }
 
+/**
+ * Risks from sex, neuter status, litter box care and free feeding that apply at this point.
+ * Callers keep the first alert of each kind.
+ */
+function profileRiskAlerts(
+  point: SimulationPoint,
+  catProfile: CatProfile,
+  routine: CareRoutine,
+  idealRange: { min: number; max: number }
+): SimulationAlert[] {
+  const alerts: SimulationAlert[] = [];
+  const catName = catProfile.name || "Your cat";
+  const { ageMonths } = point;
+
+  // Male cats' narrow urethra can block; dry food, extra weight, inactivity and a dirty box add to it
+  if (catProfile.sex === "male" && ageMonths >= 12) {
+    const factors = [
+      routine.foodType === "dry" ? "an all-dry diet" : null,
+      point.weightKgEstimate > idealRange.max ? "extra weight" : null,
+      catProfile.indoorOutdoor === "indoor" && (routine.playMinutesPerDay ?? 15) < 15 ? "an indoor, low-activity life" : null,
+      routine.litterCleaningFrequency === "weekly" || routine.litterCleaningFrequency === "every_2_days" ? "a litter box that isn't scooped daily" : null,
+    ].filter((f): f is string => f !== null);
+    if (factors.length > 0) {
+      alerts.push({
+        id: `urinary-male-${ageMonths}`,
+        ageMonths,
+        severity: "warning",
+        message: `As a male cat with ${factors.join(" and ")}, ${catName} has a higher risk of a urinary blockage.`,
+        recommendation: "Add wet food or a water fountain and keep the box clean. Straining with little or no urine is an emergency - a blocked male needs a vet within hours.",
+      });
+    }
+  }
+
+  // Intact cats past puberty
+  if (catProfile.neutered === false && ageMonths >= 6) {
+    const risks = catProfile.sex === "female"
+      ? "heat cycles, unplanned litters, and a much higher risk of uterine infection (pyometra) and mammary tumors"
+      : catProfile.sex === "male"
+      ? "spraying, roaming and fight injuries"
+      : "spraying, roaming and reproductive health problems";
+    alerts.push({
+      id: `intact-${ageMonths}`,
+      ageMonths,
+      severity: "warning",
+      message: `${catName} isn't neutered, which brings ${risks}.`,
+      recommendation: "Talk to your vet about spaying or neutering. Calorie needs drop by 20-30% afterwards, so portions should drop too.",
+    });
+  }
+
+  // Dirty litter boxes lead to holding urine and house-soiling
+  if (routine.litterCleaningFrequency === "weekly") {
+    alerts.push({
+      id: `litter-${ageMonths}`,
+      ageMonths,
+      severity: "warning",
+      message: `Scooping only weekly, ${catName} may hold urine or start going outside the box.`,
+      recommendation: "Scoop daily and change the litter fully every 1-2 weeks. One box per cat plus one is the usual rule.",
+    });
+  } else if (routine.litterCleaningFrequency === "every_2_days") {
+    alerts.push({
+      id: `litter-${ageMonths}`,
+      ageMonths,
+      severity: "info",
+      message: `Scooping every other day is OK, but daily scooping keeps ${catName} using the box happily.`,
+      recommendation: "A daily scoop also lets you spot changes in urine clumps early - often the first sign of kidney or urinary problems.",
+    });
+  }
+
+  // Free feeding shows up as weight creep
+  if (routine.feedingFrequency === 4 && ageMonths >= 12 && point.weightKgEstimate > idealRange.max) {
+    alerts.push({
+      id: `free-feeding-${ageMonths}`,
+      ageMonths,
+      severity: "warning",
+      message: `${catName} is free-fed and has crept above the ideal weight range.`,
+      recommendation: "Switch to 2-3 measured meals a day; free-fed cats typically eat about 10% more than their owners think.",
+    });
+  }
+
+  return alerts;
+}
+
 /**
  * Get recommendations based on life stage
  */
@@ -348,78 +490,201 @@ function getLifeStageRecommendation(ageMonths: number, careRoutine: CareRoutine)
 // ============================================
 
 /**
- * Run the cat health simulation
- * Generates monthly data points from current age to 20 years (240 months)
+ * Remove and return the scheduled changes whose triggers all hold this month
  */
-export function runSimulation(config: SimulationConfig): SimulationResult {
-  const { catProfile, careRoutine, startAgeMonths, endAgeMonths } = config;
+function takeDueRoutineChanges(
+  pending: RoutineChange[],
+  ageMonths: number,
+  weightKg: number
+): AppliedRoutineChange[] {
+  const due: AppliedRoutineChange[] = [];
+  for (let i = 0; i < pending.length; i++) {
+    const change = pending[i];
+    if (change.atAgeMonths !== undefined && ageMonths < change.atAgeMonths) continue;
+    if (change.whenWeightAboveKg !== undefined && weightKg <= change.whenWeightAboveKg) continue;
+    if (change.whenWeightBelowKg !== undefined && weightKg >= change.whenWeightBelowKg) continue;
+    due.push({ label: change.label, careRoutine: change.careRoutine });
+    pending.splice(i--, 1);
+  }
+  return due;
+}
+
+/**
+ * The routine as eaten: a free-fed cat sharing bowls eats its share of the pool, not its own portion
+ */
+function routineAsEaten(careRoutine: CareRoutine, household: HouseholdSetting | undefined, monthsFromStart: number): CareRoutine {
+  if (!household || careRoutine.feedingFrequency !== 4 || careRoutine.foodAmountOzPerDay === null) return careRoutine;
+  const share = household.foodShares.filter(s => s.fromMonth <= monthsFromStart).pop()?.share ?? 1;
+  return share === 1 ? careRoutine : { ...careRoutine, foodAmountOzPerDay: careRoutine.foodAmountOzPerDay * share };
+}
+
+/**
+ * Weight and health points only (no alerts, summary or care plans), one per step.
+ * Cheap enough to call many times, e.g. for ensembles and the care optimizer.
+ */
+export function simulatePoints(config: SimulationConfig): SimulationPoint[] {
+  const { catProfile, startAgeMonths } = config;
+  const stepMonths = getStepMonths(config);
+  const endAgeMonths = resolveEndAgeMonths(catProfile, startAgeMonths, config.endAgeMonths, stepMonths);
+  const random = createRandom(config.seed ?? randomSeed());
+  const pendingChanges = [...(config.routineSchedule ?? [])];
+  let careRoutine = config.careRoutine;
 
   const catName = catProfile.name || "Your cat";
   const idealRange = getIdealWeightRange(catProfile.breed);
   const midIdeal = (idealRange.min + idealRange.max) / 2;
 
-  // Starting weight
-  let currentWeight = catProfile.weightKg ?? midIdeal;
-
-  // Calculate calorie proxy for weight drift
-  const calorieProxy = calculateCalorieProxy(
-    careRoutine,
-    catProfile.indoorOutdoor,
-    currentWeight,
-    midIdeal
+  const breedProfile = findBreedProfile(catProfile.breed);
+
+  // Growing cats are measured against their breed's growth curve rather than adult weight
+  const growthCurve = getGrowthCurve(catProfile.breed, midIdeal);
+
+  // Starting weight: the latest weigh-in when there are any, else the stated weight
+  const calibration = calibrateWeight(catProfile, startAgeMonths, config.asOfDate);
+  let currentWeight = calibration?.startWeightKg ?? catProfile.weightKg ?? expectedWeightKg(growthCurve, startAgeMonths);
+
+  // Grown cats holding a stated weight (or drifting at their measured rate) on their actual routine
+  // tell us how their needs compare to the average cat
+  const individualFactor = calibrateIndividualFactor(
+    {
+      catProfile,
+      careRoutine: config.baselineCareRoutine ?? careRoutine,
+      ageMonths: startAgeMonths,
+      weightKg: currentWeight,
+      idealWeightKg: midIdeal,
+    },
+    (calibration !== null || catProfile.weightKg !== null) && !isGrowing(growthCurve, startAgeMonths),
+    calibration?.driftKgPerMonth
   );
 
+  // Catalogued conditions follow staged courses; anything else only counts as "has a condition"
+  const { tracked: conditions, unrecognized: otherConditions } = initConditionProgress(catProfile.knownConditions);
+
   const points: SimulationPoint[] = [];
 
-  // Generate monthly simulation points
-  for (let month = startAgeMonths; month <= endAgeMonths; month++) {
-    // Weight drift with some randomness
-    const monthlyDrift = calorieProxy * 0.02; // Small monthly change
-    const noise = (Math.random() - 0.5) * 0.05; // Small random noise
-    currentWeight = Math.max(1.5, currentWeight + monthlyDrift + noise);
+  // One point per step; rates below are per month, so each is scaled to the step
+  let previousMonth = startAgeMonths;
+  for (const month of buildAgeGrid(startAgeMonths, endAgeMonths, stepMonths)) {
+    // Scheduled routine changes take effect at the start of the step
+    const routineChanges = takeDueRoutineChanges(pendingChanges, month, currentWeight);
+    if (routineChanges.length > 0) {
+      careRoutine = routineChanges.reduce((routine, change) => ({ ...routine, ...change.careRoutine }), careRoutine);
+    }
+
+    const noise = (random() - 0.5) * 0.05 * Math.sqrt(stepMonths); // Small random noise, a random walk across steps
+    const expectedKg = expectedWeightKg(growthCurve, month);
+    const growing = isGrowing(growthCurve, month);
 
-    // Age-related weight changes
     if (month < 12) {
-      // Kittens grow
-      currentWeight = Math.min(currentWeight * 1.05, idealRange.max);
-    } else if (month > LIFE_STAGES.senior.end) {
-      // Very old cats may lose weight
-      currentWeight = Math.max(currentWeight * 0.998, idealRange.min * 0.8);
+      // Kittens stay in their growth channel; growth needs aren't modelled by the adult energy balance
+      const growth = month > startAgeMonths ? expectedKg / expectedWeightKg(growthCurve, previousMonth) : 1;
+      currentWeight = Math.max(growthCurve.birthWeightKg, currentWeight * growth + noise * (expectedKg / midIdeal));
+    } else {
+      // Weight follows the kcal surplus or deficit at this month's weight and age.
+      // Cats still filling out are fed (when the amount is unknown) for their expected weight, so they grow into it.
+      const { weightChangeKg } = calculateEnergyBalance({
+        catProfile,
+        careRoutine: routineAsEaten(careRoutine, config.household, month - startAgeMonths),
+        ageMonths: month,
+        weightKg: currentWeight,
+        idealWeightKg: expectedKg,
+        individualFactor,
+      });
+      const conditionChangeKg = currentWeight * conditionWeightChange(conditions, careRoutine.vetVisitsPerYear);
+      currentWeight = Math.max(1.5, currentWeight + (weightChangeKg + conditionChangeKg) * stepMonths + noise);
     }
 
-    // Determine health status
-    const status = determineHealthStatus(
-      currentWeight,
-      idealRange,
-      careRoutine.vetVisitsPerYear,
-      month,
-      catProfile.knownConditions.length > 0
+    // Determine health status, against the growth curve while growing
+    const referenceRange = growing
+      ? { min: idealRange.min * (expectedKg / midIdeal), max: idealRange.max * (expectedKg / midIdeal) }
+      : idealRange;
+    const status = applyConditionStatus(
+      determineHealthStatus(
+        currentWeight,
+        referenceRange,
+        careRoutine.vetVisitsPerYear,
+        month,
+        otherConditions.length > 0
+      ),
+      conditions,
+      careRoutine.vetVisitsPerYear
     );
 
     // Generate notes (only for year milestones to avoid clutter)
-    const isYearMilestone = month % 12 === 0 || month === startAgeMonths;
+    const isYearMilestone = month === startAgeMonths || Math.floor(month / 12) > Math.floor(previousMonth / 12);
     const notes = isYearMilestone
-      ? generateNotes(month, currentWeight, status, idealRange, catName)
+      ? generateNotes(month, currentWeight, status, referenceRange, catName)
       : "";
 
+    const conditionSnapshots = snapshotConditions(conditions, careRoutine.vetVisitsPerYear);
+    const healthScores = scoreHealth({
+      catProfile,
+      careRoutine,
+      ageMonths: month,
+      weightKg: currentWeight,
+      referenceWeightKg: growing ? expectedKg : midIdeal,
+      conditions: conditionSnapshots,
+      breedProfile,
+      household: config.household ? householdPressure(config.household, month - startAgeMonths) : null,
+    });
+
     points.push({
       ageMonths: month,
       weightKgEstimate: Math.round(currentWeight * 100) / 100,
       healthStatus: status,
+      healthScores,
       notes,
+      ...(growing ? { expectedWeightKg: Math.round(expectedKg * 100) / 100 } : {}),
+      ...(routineChanges.length > 0 ? { routineChanges } : {}),
+      ...(conditions.length > 0 ? { conditions: conditionSnapshots } : {}),
     });
+
+    // Conditions move along their course for the next step
+    advanceConditions(conditions, careRoutine.vetVisitsPerYear, stepMonths);
+    previousMonth = month;
   }
 
+  return points;
+}
+
+/**
+ * Run the cat health simulation
+ * Generates points from the current age to the config's horizon (by default a few years
+ * past the breed's life expectancy), one per step (monthly by default)
+ * The same config and seed always produce the same result
+ */
+export function runSimulation(config: SimulationConfig): SimulationResult {
+  const { catProfile, careRoutine } = config;
+  const seed = config.seed ?? randomSeed();
+  const idealRange = getIdealWeightRange(catProfile.breed);
+
+  const points = simulatePoints({ ...config, seed });
+
   // Generate alerts
   const alerts = generateAlerts(points, catProfile, careRoutine, idealRange);
 
+  // Search nearby routines on the same seed for changes that add thriving months (only on request: it's dozens of runs)
+  const carePlans = config.includeCarePlans
+    ? optimizeCareRoutine({ ...config, seed }, simulatePoints, idealRange)
+    : undefined;
+
+  // Survival odds along this trajectory
+  const survival = projectSurvival(catProfile, points, idealRange);
+
+  // With weigh-ins, keep the forecast the stated weight alone gave, to show what the measurements changed
+  const weightCalibration = calibrateWeight(catProfile, config.startAgeMonths, config.asOfDate) ?? undefined;
+  if (weightCalibration) {
+    const statedProfile = { ...catProfile, weighIns: undefined };
+    weightCalibration.previousForecast = simulatePoints({ ...config, catProfile: statedProfile, seed })
+      .map(point => ({ ageMonths: point.ageMonths, weightKg: point.weightKgEstimate }));
+  }
+
   // Generate summary and recommendations
   const { summary, recommendations } = generateSummary(
     catProfile,
-    careRoutine,
     points,
     alerts,
-    idealRange
+    carePlans
   );
 
   return {
@@ -427,25 +692,38 @@ export function runSimulation(config: SimulationConfig): SimulationResult {
     alerts,
     summary,
     recommendations,
+    seed,
+    carePlans,
+    survival,
+    weightCalibration,
   };
 }
 
+/**
+ * "+30 months" -> "about 2.5 more years"; short gains stay in months
+ */
+function formatThrivingGain(months: number): string {
+  if (months < 18) return `about ${months} more months`;
+  return `about ${Math.round(months / 6) / 2} more years`;
+}
+
 /**
  * Generate summary and recommendations based on simulation results
+ * Routine advice comes from the care optimizer's plans when they were searched for, otherwise from the alerts
  */
 function generateSummary(
   catProfile: CatProfile,
-  careRoutine: CareRoutine,
   points: SimulationPoint[],
   alerts: SimulationAlert[],
-  idealRange: { min: number; max: number }
+  carePlans: CarePlan[] | undefined
 ): { summary: string; recommendations: string[] } {
   const catName = catProfile.name || "Your cat";
   const criticalAlerts = alerts.filter((a) => a.severity === "critical");
   const warningAlerts = alerts.filter((a) => a.severity === "warning");
 
   // Determine overall trajectory
-  const lastPoints = points.slice(-24); // Last 2 years
+  const lastAge = points[points.length - 1]?.ageMonths ?? 0;
+  const lastPoints = points.filter((p) => p.ageMonths > lastAge - 24); // Last 2 years
   const avgStatus = lastPoints.reduce((acc, p) => {
     const scores: Record<HealthStatus, number> = { thriving: 4, ok: 3, risky: 2, unhealthy: 1 };
     return acc + scores[p.healthStatus];
@@ -467,56 +745,20 @@ function generateSummary(
     summary += `With a few adjustments to diet and activity, you can help ${catName} thrive.`;
   }
 
-  // Generate recommendations
-  const recommendations: string[] = [];
-
-  // Weight recommendations
-  const currentWeight = catProfile.weightKg ?? (idealRange.min + idealRange.max) / 2;
-  if (currentWeight > idealRange.max) {
-    recommendations.push(
-      `Reduce daily food portions by about 10% and limit treats to 2-3 per day.`
-    );
-    recommendations.push(
-      `Add 10-15 minutes of active play with wand toys or laser pointers.`
-    );
-  } else if (currentWeight < idealRange.min) {
-    recommendations.push(
-      `Consider increasing food portions slightly and consult your vet about weight gain.`
-    );
+  const bestPlan = carePlans?.[carePlans.length - 1];
+  if (bestPlan) {
+    const change = bestPlan.description.charAt(0).toLowerCase() + bestPlan.description.slice(1);
+    summary += ` The biggest payoff: ${change} for ${formatThrivingGain(bestPlan.thrivingMonthsGained)} thriving.`;
   }
 
-  // Activity recommendations
-  const playMinutes = careRoutine.playMinutesPerDay ?? 0;
-  if (playMinutes < 15) {
-    recommendations.push(
-      `Aim for at least 15-20 minutes of interactive play daily to keep ${catName} active and engaged.`
-    );
-  }
-
-  // Vet recommendations
-  const vetVisits = careRoutine.vetVisitsPerYear ?? 0;
-  if (vetVisits < 1) {
-    recommendations.push(
-      `Schedule at least one annual vet checkup to catch any health issues early.`
-    );
-  } else if ((catProfile.ageYears ?? 0) >= 10 && vetVisits < 2) {
-    recommendations.push(
-      `For senior cats, consider twice-yearly vet visits for optimal health monitoring.`
-    );
-  }
-
-  // Diet recommendations
-  if (careRoutine.foodType === "dry") {
-    recommendations.push(
-      `Consider adding some wet food to ${catName}'s diet for better hydration.`
-    );
-  }
+  // One recommendation per plan, smallest change first; without plans, the most serious alerts' advice
+  const recommendations = carePlans
+    ? carePlans.map((plan) => `${plan.description} - ${formatThrivingGain(plan.thrivingMonthsGained)} in "thriving".`)
+    : [...new Set([...criticalAlerts, ...warningAlerts].map((a) => a.recommendation))];
 
-  // Treats
-  const treats = careRoutine.treatsPerDay ?? 0;
-  if (treats > 5) {
+  if (carePlans && recommendations.length === 0) {
     recommendations.push(
-      `Reduce treats to 2-3 per day, or switch to lower-calorie options.`
+      `None of the small routine changes we tried adds thriving time for ${catName} - keep the routine steady and check in with your vet.`
     );
   }
 
@@ -540,7 +782,7 @@ function generateSummary(
 
 /**
  * Quick simulation preview for UI
- * Returns just key milestone points instead of all 240 months
+ * Returns just key milestone points instead of every month
  */
 export function runQuickSimulation(
   catProfile: CatProfile,
@@ -551,13 +793,12 @@ export function runQuickSimulation(
     catProfile,
     careRoutine,
     startAgeMonths: startAge,
-    endAgeMonths: 240,
   };
 
   const result = runSimulation(config);
 
   // Return only yearly milestones
-  return result.points.filter((p) => p.ageMonths % 12 === 0);
+  return birthdayPoints(result.points);
 }
 
 // ============================================
@@ -578,7 +819,6 @@ export async function runEnhancedSimulation(
     catProfile,
     careRoutine,
     startAgeMonths: startAge,
-    endAgeMonths: 240,
   };
 
   const baseResult = runSimulation(config);
@@ -603,7 +843,6 @@ export async function runFullyEnhancedSimulation(
     catProfile,
     careRoutine,
     startAgeMonths: startAge,
-    endAgeMonths: 240,
   };
 
   const baseResult = runSimulation(config);
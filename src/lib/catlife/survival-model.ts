@@ -0,0 +1,178 @@
+// CatLife - Survival Model
+// Turns a simulated trajectory into survival odds by age and a median projected lifespan
+
+import type {
+  CatProfile,
+  IndoorOutdoor,
+  SimulationPoint,
+  SurvivalPoint,
+  SurvivalProjection,
+} from "@/types/catlife";
+import { findBreedProfile } from "./breed-health-data";
+import { conditionExcessMortality } from "./condition-catalog";
+
+// ============================================
+// MODEL PARAMETERS
+// ============================================
+
+/**
+ * Gompertz-Makeham hazard, per cat-year:
+ *   h(age) = extrinsic × outdoor/intact factors + a × e^(b × ageYears) × weightHazardRatio + condition excess
+ * `a` is solved per breed so a reference cat (indoor, ideal weight, no chronic conditions)
+ * has a median lifespan at the middle of the breed's life expectancy range.
+ */
+export const SURVIVAL_MODEL = {
+  /** Rate at which age-related mortality rises; doubles about every 2.3 years in adult cats */
+  gompertzSlopePerYear: 0.3,
+
+  /** Accidents and infections, independent of age, for an indoor cat */
+  extrinsicHazardPerYear: 0.005,
+  /** Road traffic, fights and infectious disease make outdoor access the largest extrinsic risk */
+  outdoorExtrinsicFactors: { indoor: 1, mixed: 3, outdoor: 5 } as Record<IndoorOutdoor, number>,
+  /** Intact cats roam and fight more; neutered cats live measurably longer (Banfield 2013) */
+  intactExtrinsicFactor: 1.5,
+
+  /**
+   * Hazard ratios on age-related mortality by distance from the middle of the ideal weight range.
+   * Obese cats die sooner (Scarlett & Donoghue 1998), and thin cats carry even more risk (Teng 2018).
+   * Checked top-down; the first band the deviation exceeds applies.
+   */
+  overweightHazardRatios: [
+    { above: 0.35, ratio: 2.0 },
+    { above: 0.2, ratio: 1.5 },
+    { above: 0.1, ratio: 1.2 },
+  ],
+  underweightHazardRatios: [
+    { below: -0.35, ratio: 3.0 },
+    { below: -0.2, ratio: 2.0 },
+    { below: -0.1, ratio: 1.3 },
+  ],
+
+  /** Projections past the simulated horizon keep the last month's weight and conditions up to this age */
+  maxProjectionMonths: 360,
+};
+
+// ============================================
+// HAZARD
+// ============================================
+
+/**
+ * Gompertz scale `a` for which a reference cat has the given median lifespan:
+ * cumulative hazard c × M + (a / b)(e^(bM) - 1) = ln 2
+ */
+function gompertzScale(medianYears: number): number {
+  const b = SURVIVAL_MODEL.gompertzSlopePerYear;
+  const remaining = Math.LN2 - SURVIVAL_MODEL.extrinsicHazardPerYear * medianYears;
+  return (Math.max(remaining, 0.01) * b) / (Math.exp(b * medianYears) - 1);
+}
+
+function weightHazardRatio(point: SimulationPoint, idealRange: { min: number; max: number }): number {
+  // Growing cats are compared with their growth curve, grown cats with the ideal range
+  const reference = point.expectedWeightKg ?? (idealRange.min + idealRange.max) / 2;
+  const deviation = (point.weightKgEstimate - reference) / reference;
+  const over = SURVIVAL_MODEL.overweightHazardRatios.find(band => deviation > band.above);
+  const under = SURVIVAL_MODEL.underweightHazardRatios.find(band => deviation < band.below);
+  return over?.ratio ?? under?.ratio ?? 1;
+}
+
+/**
+ * Deaths per cat-year at one simulated month
+ */
+function annualHazard(
+  point: SimulationPoint,
+  ageMonths: number,
+  scale: number,
+  outdoorFactor: number,
+  idealRange: { min: number; max: number }
+): number {
+  const ageRelated = scale * Math.exp(SURVIVAL_MODEL.gompertzSlopePerYear * (ageMonths / 12));
+  return SURVIVAL_MODEL.extrinsicHazardPerYear * outdoorFactor
+    + ageRelated * weightHazardRatio(point, idealRange)
+    + conditionExcessMortality(point.conditions ?? []);
+}
+
+/** The cat's breed baseline and lifestyle, which hold for the whole trajectory */
+function hazardFactors(catProfile: CatProfile) {
+  const breedLifeExpectancyYears = findBreedProfile(catProfile.breed)?.lifeExpectancy ?? { min: 12, max: 16 };
+  return {
+    breedLifeExpectancyYears,
+    scale: gompertzScale((breedLifeExpectancyYears.min + breedLifeExpectancyYears.max) / 2),
+    outdoorFactor: SURVIVAL_MODEL.outdoorExtrinsicFactors[catProfile.indoorOutdoor ?? "indoor"]
+      * (catProfile.neutered === false ? SURVIVAL_MODEL.intactExtrinsicFactor : 1),
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Survival odds along a simulated trajectory, conditional on the cat being alive at its start.
+ * Each month's weight and conditions set that month's hazard, so care that keeps weight in range
+ * or a condition managed shows up as a longer projected lifespan.
+ */
+export function projectSurvival(
+  catProfile: CatProfile,
+  points: SimulationPoint[],
+  idealRange: { min: number; max: number }
+): SurvivalProjection {
+  const { breedLifeExpectancyYears, scale, outdoorFactor } = hazardFactors(catProfile);
+
+  const survivalPoints: SurvivalPoint[] = [];
+  let survival = 1;
+  let medianLifespanMonths: number | null = null;
+
+  // Each point's hazard holds until the next point, whatever the step size
+  const stepMonths = points.length > 1 ? points[1].ageMonths - points[0].ageMonths : 1;
+  for (let index = 0; index < points.length; index++) {
+    const point = points[index];
+    const isBirthday = index > 0 && Math.floor(point.ageMonths / 12) > Math.floor(points[index - 1].ageMonths / 12);
+    if (index === 0 || isBirthday || index === points.length - 1) {
+      survivalPoints.push({ ageMonths: point.ageMonths, probability: round(survival, 3) });
+    }
+    const months = index < points.length - 1 ? points[index + 1].ageMonths - point.ageMonths : stepMonths;
+    survival *= Math.exp(-annualHazard(point, point.ageMonths, scale, outdoorFactor, idealRange) * months / 12);
+    if (medianLifespanMonths === null && survival < 0.5) medianLifespanMonths = point.ageMonths + months;
+  }
+
+  // Past the horizon, age on month by month with the last point's weight and conditions
+  const last = points[points.length - 1];
+  let month = last ? last.ageMonths + stepMonths - 1 : SURVIVAL_MODEL.maxProjectionMonths;
+  while (medianLifespanMonths === null && month < SURVIVAL_MODEL.maxProjectionMonths) {
+    month++;
+    survival *= Math.exp(-annualHazard(last, month, scale, outdoorFactor, idealRange) / 12);
+    if (survival < 0.5) medianLifespanMonths = month + 1;
+  }
+
+  return {
+    points: survivalPoints,
+    medianLifespanMonths: round(medianLifespanMonths ?? month, 1),
+    breedLifeExpectancyYears,
+  };
+}
+
+/**
+ * Chance the cat is still alive at each point, conditional on being alive at the first.
+ * Weighting by it keeps months the cat is unlikely to see from counting as much as the next few years.
+ */
+export function survivalAtPoints(
+  catProfile: CatProfile,
+  points: SimulationPoint[],
+  idealRange: { min: number; max: number }
+): number[] {
+  const { scale, outdoorFactor } = hazardFactors(catProfile);
+  let survival = 1;
+  return points.map((point, index) => {
+    const alive = survival;
+    if (index < points.length - 1) {
+      const months = points[index + 1].ageMonths - point.ageMonths;
+      survival *= Math.exp(-annualHazard(point, point.ageMonths, scale, outdoorFactor, idealRange) * months / 12);
+    }
+    return alive;
+  });
+}
@@ -0,0 +1,155 @@
+// CatLife - Unsubscribe Tokens
+// HMAC-signed per-reminder tokens for one-click unsubscribe and the preferences page,
+// and per-request tokens for confirming a pending change
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { ContactType, PendingReminderChange, ReminderChannel, ReminderSettings } from "@/types/catlife";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEV_SECRET = "catlife-dev-unsubscribe-secret";
+
+let warnedAboutDevSecret = false;
+
+/**
+ * Signing secret from CATLIFE_UNSUBSCRIBE_SECRET.
+ * Outside production a fixed dev secret is used so local emails still link somewhere.
+ */
+function getUnsubscribeSecret(): string {
+  const secret = process.env.CATLIFE_UNSUBSCRIBE_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("CATLIFE_UNSUBSCRIBE_SECRET must be set in production");
+  }
+  if (!warnedAboutDevSecret) {
+    console.warn("[CatLife] CATLIFE_UNSUBSCRIBE_SECRET not set, using development secret");
+    warnedAboutDevSecret = true;
+  }
+  return DEV_SECRET;
+}
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_BASE_URL || "https://lawrencehua.com";
+}
+
+// ============================================
+// TOKENS
+// ============================================
+
+/**
+ * Token authorizing changes to a single stored reminder
+ */
+export function createUnsubscribeToken(reminderId: string): string {
+  return createHmac("sha256", getUnsubscribeSecret())
+    .update(`unsubscribe:${reminderId}`)
+    .digest("base64url");
+}
+
+/**
+ * Constant-time check that a token was issued for this reminder
+ */
+export function verifyUnsubscribeToken(reminderId: string, token: string): boolean {
+  const expected = Buffer.from(createUnsubscribeToken(reminderId));
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Token confirming one pending change. It's only ever sent to the contact that must confirm,
+ * and a newer request (new requestedAt) makes older links stop working.
+ */
+export function createConfirmationToken(reminderId: string, pendingChange: PendingReminderChange): string {
+  return createHmac("sha256", getUnsubscribeSecret())
+    .update(`confirm:${reminderId}:${new Date(pendingChange.requestedAt).toISOString()}`)
+    .digest("base64url");
+}
+
+/**
+ * Constant-time check that a token confirms the reminder's current pending change
+ */
+export function verifyConfirmationToken(reminder: ReminderSettings & { id: string }, token: string): boolean {
+  if (!reminder.pendingChange) return false;
+  const expected = Buffer.from(createConfirmationToken(reminder.id, reminder.pendingChange));
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// ============================================
+// LINKS
+// ============================================
+
+/**
+ * One-click unsubscribe link; with a channel only that reminder type is turned off
+ */
+export function buildUnsubscribeUrl(reminderId: string, channel?: ReminderChannel): string {
+  const params = new URLSearchParams({ id: reminderId, token: createUnsubscribeToken(reminderId) });
+  if (channel) params.set("channel", channel);
+  return `${getBaseUrl()}/api/catlife/unsubscribe?${params.toString()}`;
+}
+
+/** What the preferences page should ask the reader to confirm */
+export type PreferencesAction = "unsubscribe";
+
+/**
+ * Link to the no-login preferences page for a reminder
+ */
+export function buildPreferencesUrl(reminderId: string, action?: PreferencesAction): string {
+  const params = new URLSearchParams({ id: reminderId, token: createUnsubscribeToken(reminderId) });
+  if (action) params.set("action", action);
+  return `${getBaseUrl()}/catlife/preferences?${params.toString()}`;
+}
+
+/**
+ * Link confirming the reminder's pending change. It carries no management token:
+ * a new contact gets to run the reminder only once it has confirmed.
+ */
+export function buildConfirmationUrl(reminderId: string, pendingChange: PendingReminderChange): string {
+  const params = new URLSearchParams({ id: reminderId, confirm: createConfirmationToken(reminderId, pendingChange) });
+  return `${getBaseUrl()}/catlife/preferences?${params.toString()}`;
+}
+
+/**
+ * Partially hide a contact so the preferences page doesn't leak it in full
+ */
+export function maskContact(contactType: ContactType, contactValue: string): string {
+  if (contactType === "sms") {
+    return `•••${contactValue.slice(-4)}`;
+  }
+  const [user, domain] = contactValue.split("@");
+  if (!domain) return "•••";
+  return `${user.slice(0, 1)}•••@${domain}`;
+}
+
+/**
+ * The only view of a stored reminder the API hands out: no id, and the contact masked
+ */
+export function toReminderPreferences(reminder: ReminderSettings) {
+  return {
+    catName: reminder.catName,
+    contactType: reminder.contactType,
+    contact: maskContact(reminder.contactType, reminder.contactValue),
+    enabled: reminder.enabled,
+    channels: reminder.channels,
+    pendingChannels: reminder.pendingChange?.channels ?? null,
+    pendingContact: pendingContact(reminder),
+  };
+}
+
+/**
+ * What a confirmation link shows before it's used: the requested change only
+ */
+export function toPendingConfirmation(reminder: ReminderSettings) {
+  return {
+    catName: reminder.catName,
+    channels: reminder.pendingChange?.channels ?? null,
+    contact: pendingContact(reminder),
+  };
+}
+
+function pendingContact(reminder: ReminderSettings): string | null {
+  const { contactType, contactValue } = reminder.pendingChange ?? {};
+  return contactType && contactValue ? maskContact(contactType, contactValue) : null;
+}
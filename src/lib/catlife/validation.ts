@@ -0,0 +1,1164 @@
+// CatLife - Request Validation
+// Lightweight runtime checks for API payloads (no schema library dependency)
+
+import type {
+  AvatarRequest,
+  CatColorsRequest,
+  ChatMessage,
+  ChatRequest,
+  CompareScenariosRequest,
+  ContactType,
+  HouseholdCat,
+  EnhancedMilestoneNote,
+  MilestoneNotesRequest,
+  NotePriority,
+  ReminderChannel,
+  ReminderChannels,
+  ReminderRecommendationsRequest,
+  ReminderRequest,
+  ReminderSchedule,
+  RoutineChange,
+  ScenarioVariant,
+  CatProfile,
+  WeighIn,
+  CareRoutine,
+  SimulateEnsembleRequest,
+  SimulateHouseholdRequest,
+  SensitivityRequest,
+  SimulateRequest,
+  SimulationAlert,
+  SimulationPoint,
+  SimulationResult,
+  HealthStatus,
+  AlertSeverity,
+  VisionRequest,
+  PhotoAnalysis,
+  Sex,
+  BodyCondition,
+  IndoorOutdoor,
+  WeightSource,
+  FoodType,
+  FeedingFrequency,
+  LitterCleaningFrequency,
+  SimulationStepSize,
+} from "@/types/catlife";
+import type { ReminderUpdate } from "./reminder-store";
+import { isValidEmail, isValidPhoneNumber, normalizePhoneNumber } from "./notifications";
+import { MAX_SEED } from "./random";
+import { MAX_ENSEMBLE_RUNS } from "./simulation-ensemble";
+import { MAX_HOUSEHOLD_CATS, MAX_LITTER_BOXES } from "./household";
+import { MAX_SCENARIO_VARIANTS } from "./scenario-comparison";
+import { SIMULATION_HORIZON } from "./simulation-steps";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ValidationResult<T> =
+  | { valid: true; data: T }
+  | { valid: false; error: string };
+
+// ============================================
+// ALLOWED VALUES
+// ============================================
+
+const SEX_VALUES: Sex[] = ["male", "female", "unknown"];
+const BODY_CONDITION_VALUES: BodyCondition[] = ["underweight", "ideal", "overweight", "unknown"];
+const INDOOR_OUTDOOR_VALUES: IndoorOutdoor[] = ["indoor", "outdoor", "mixed"];
+const WEIGHT_SOURCE_VALUES: WeightSource[] = ["user_estimate", "vet_recent", "unknown"];
+const FOOD_TYPE_VALUES: FoodType[] = ["dry", "wet", "mixed", "raw", "other"];
+const FEEDING_FREQUENCY_VALUES: FeedingFrequency[] = [1, 2, 3, 4];
+const LITTER_VALUES: LitterCleaningFrequency[] = ["daily", "every_2_days", "weekly", "unknown"];
+const CONTACT_TYPE_VALUES: ContactType[] = ["email", "sms"];
+const HEALTH_STATUS_VALUES: HealthStatus[] = ["thriving", "ok", "risky", "unhealthy"];
+const ALERT_SEVERITY_VALUES: AlertSeverity[] = ["info", "warning", "critical"];
+const NOTE_PRIORITY_VALUES: NotePriority[] = ["high", "medium", "low"];
+const REMINDER_CHANNEL_KEYS: ReminderChannel[] = ["feed", "play", "litter", "vet"];
+const STEP_SIZE_VALUES: SimulationStepSize[] = ["weekly", "monthly", "quarterly"];
+
+// ============================================
+// PRIMITIVE HELPERS
+// ============================================
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read an optional numeric field; null/undefined map to null
+ * Returns an error string if the value is present but invalid
+ */
+function readNumber(
+  source: Record<string, unknown>,
+  field: string,
+  min: number,
+  max: number
+): { value: number | null; error?: string } {
+  const raw = source[field];
+  if (raw === null || raw === undefined) return { value: null };
+  if (typeof raw !== "number" || !Number.isFinite(raw)) {
+    return { value: null, error: `${field} must be a number` };
+  }
+  if (raw < min || raw > max) {
+    return { value: null, error: `${field} must be between ${min} and ${max}` };
+  }
+  return { value: raw };
+}
+
+/**
+ * Read an optional enum field; null/undefined map to null
+ */
+function readEnum<T extends string | number>(
+  source: Record<string, unknown>,
+  field: string,
+  allowed: readonly T[]
+): { value: T | null; error?: string } {
+  const raw = source[field];
+  if (raw === null || raw === undefined) return { value: null };
+  if (!allowed.includes(raw as T)) {
+    return { value: null, error: `${field} must be one of: ${allowed.join(", ")}` };
+  }
+  return { value: raw as T };
+}
+
+function readString(
+  source: Record<string, unknown>,
+  field: string,
+  maxLength: number
+): { value: string | null; error?: string } {
+  const raw = source[field];
+  if (raw === null || raw === undefined) return { value: null };
+  if (typeof raw !== "string") return { value: null, error: `${field} must be a string` };
+  const trimmed = raw.trim();
+  if (trimmed.length > maxLength) {
+    return { value: null, error: `${field} must be at most ${maxLength} characters` };
+  }
+  return { value: trimmed.length > 0 ? trimmed : null };
+}
+
+function readBoolean(
+  source: Record<string, unknown>,
+  field: string
+): { value: boolean | null; error?: string } {
+  const raw = source[field];
+  if (raw === null || raw === undefined) return { value: null };
+  if (typeof raw !== "boolean") return { value: null, error: `${field} must be a boolean` };
+  return { value: raw };
+}
+
+function firstError(results: { error?: string }[]): string | null {
+  const failed = results.find(r => r.error);
+  return failed?.error ?? null;
+}
+
+// ============================================
+// DOMAIN VALIDATORS
+// ============================================
+
+const MAX_WEIGH_INS = 120;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate dated weigh-ins; dates must be real calendar days (YYYY-MM-DD)
+ */
+function validateWeighIns(input: unknown): ValidationResult<WeighIn[]> {
+  if (!Array.isArray(input) || input.length > MAX_WEIGH_INS) {
+    return { valid: false, error: `weighIns must be an array of at most ${MAX_WEIGH_INS} items` };
+  }
+
+  const weighIns: WeighIn[] = [];
+  for (const raw of input) {
+    if (!isPlainObject(raw)) return { valid: false, error: "weighIns must contain objects" };
+    const date = typeof raw.date === "string" ? raw.date : "";
+    if (!ISO_DATE_PATTERN.test(date) || new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10) !== date) {
+      return { valid: false, error: "weighIns.date must be a date like 2024-05-31" };
+    }
+    const weightKg = readNumber(raw, "weightKg", 0.1, 15);
+    const atVet = readBoolean(raw, "atVet");
+    const error = firstError([weightKg, atVet]);
+    if (error) return { valid: false, error: `weighIns.${error}` };
+    if (weightKg.value === null) return { valid: false, error: "weighIns items need a weightKg" };
+
+    weighIns.push({ date, weightKg: weightKg.value, ...(atVet.value ? { atVet: true } : {}) });
+  }
+
+  return { valid: true, data: weighIns };
+}
+
+/**
+ * Validate and normalize a CatProfile payload
+ */
+export function validateCatProfile(input: unknown): ValidationResult<CatProfile> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "catProfile must be an object" };
+  }
+
+  const name = readString(input, "name", 60);
+  const ageYears = readNumber(input, "ageYears", 0, 30);
+  const ageMonths = readNumber(input, "ageMonths", 0, 11);
+  const sex = readEnum(input, "sex", SEX_VALUES);
+  const neutered = readBoolean(input, "neutered");
+  const breed = readString(input, "breed", 60);
+  const indoorOutdoor = readEnum(input, "indoorOutdoor", INDOOR_OUTDOOR_VALUES);
+  const weightKg = readNumber(input, "weightKg", 0.5, 15);
+  const weightSource = readEnum(input, "weightSource", WEIGHT_SOURCE_VALUES);
+  const bodyCondition = readEnum(input, "bodyCondition", BODY_CONDITION_VALUES);
+
+  const error = firstError([
+    name, ageYears, ageMonths, sex, neutered, breed,
+    indoorOutdoor, weightKg, weightSource, bodyCondition,
+  ]);
+  if (error) return { valid: false, error: `catProfile.${error}` };
+
+  const rawConditions = input.knownConditions ?? [];
+  if (!Array.isArray(rawConditions) || rawConditions.some(c => typeof c !== "string")) {
+    return { valid: false, error: "catProfile.knownConditions must be an array of strings" };
+  }
+
+  const weighIns = input.weighIns === undefined || input.weighIns === null
+    ? null
+    : validateWeighIns(input.weighIns);
+  if (weighIns && !weighIns.valid) return { valid: false, error: `catProfile.${weighIns.error}` };
+
+  return {
+    valid: true,
+    data: {
+      ...(typeof input.id === "string" ? { id: input.id } : {}),
+      name: name.value,
+      ageYears: ageYears.value,
+      ageMonths: ageMonths.value,
+      sex: sex.value,
+      neutered: neutered.value,
+      breed: breed.value,
+      indoorOutdoor: indoorOutdoor.value,
+      weightKg: weightKg.value,
+      weightSource: weightSource.value,
+      bodyCondition: bodyCondition.value,
+      knownConditions: (rawConditions as string[]).map(c => c.trim()).filter(Boolean),
+      ...(weighIns && weighIns.data.length > 0 ? { weighIns: weighIns.data } : {}),
+      photoUrl: typeof input.photoUrl === "string" ? input.photoUrl : null,
+      avatarUrl: typeof input.avatarUrl === "string" ? input.avatarUrl : null,
+    },
+  };
+}
+
+/**
+ * Validate and normalize a CareRoutine payload
+ */
+export function validateCareRoutine(input: unknown): ValidationResult<CareRoutine> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "careRoutine must be an object" };
+  }
+
+  const foodType = readEnum(input, "foodType", FOOD_TYPE_VALUES);
+  const foodAmountOzPerDay = readNumber(input, "foodAmountOzPerDay", 0, 32);
+  const feedingFrequency = readEnum(input, "feedingFrequency", FEEDING_FREQUENCY_VALUES);
+  const treatsPerDay = readNumber(input, "treatsPerDay", 0, 50);
+  const playMinutesPerDay = readNumber(input, "playMinutesPerDay", 0, 600);
+  const vetVisitsPerYear = readNumber(input, "vetVisitsPerYear", 0, 12);
+  const litterCleaningFrequency = readEnum(input, "litterCleaningFrequency", LITTER_VALUES);
+
+  const error = firstError([
+    foodType, foodAmountOzPerDay, feedingFrequency, treatsPerDay,
+    playMinutesPerDay, vetVisitsPerYear, litterCleaningFrequency,
+  ]);
+  if (error) return { valid: false, error: `careRoutine.${error}` };
+
+  return {
+    valid: true,
+    data: {
+      foodType: foodType.value,
+      foodAmountOzPerDay: foodAmountOzPerDay.value,
+      feedingFrequency: feedingFrequency.value,
+      treatsPerDay: treatsPerDay.value,
+      playMinutesPerDay: playMinutesPerDay.value,
+      vetVisitsPerYear: vetVisitsPerYear.value,
+      litterCleaningFrequency: litterCleaningFrequency.value,
+    },
+  };
+}
+
+/**
+ * Validate and normalize an optional PhotoAnalysis echoed back by the client
+ */
+export function validatePhotoAnalysis(input: unknown): ValidationResult<PhotoAnalysis | undefined> {
+  if (input === null || input === undefined) return { valid: true, data: undefined };
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "photoAnalysis must be an object" };
+  }
+
+  const photoBodyCondition = readEnum(input, "photoBodyCondition", BODY_CONDITION_VALUES);
+  const photoComment = readString(input, "photoComment", 1000);
+  const photoConfidence = readNumber(input, "photoConfidence", 0, 1);
+  const estimatedColor = readString(input, "estimatedColor", 100);
+  const estimatedPattern = readString(input, "estimatedPattern", 100);
+
+  const error = firstError([photoBodyCondition, photoComment, photoConfidence, estimatedColor, estimatedPattern]);
+  if (error) return { valid: false, error: `photoAnalysis.${error}` };
+
+  return {
+    valid: true,
+    data: {
+      photoBodyCondition: photoBodyCondition.value ?? "unknown",
+      photoComment: photoComment.value ?? "",
+      photoConfidence: photoConfidence.value ?? 0,
+      ...(estimatedColor.value ? { estimatedColor: estimatedColor.value } : {}),
+      ...(estimatedPattern.value ? { estimatedPattern: estimatedPattern.value } : {}),
+    },
+  };
+}
+
+const MAX_ROUTINE_CHANGES = 12;
+
+/**
+ * Validate a routine schedule; each change keeps only the careRoutine fields it sets
+ */
+function validateRoutineSchedule(input: unknown): ValidationResult<RoutineChange[]> {
+  if (!Array.isArray(input) || input.length > MAX_ROUTINE_CHANGES) {
+    return { valid: false, error: `routineSchedule must be an array of at most ${MAX_ROUTINE_CHANGES} items` };
+  }
+
+  const schedule: RoutineChange[] = [];
+  for (const raw of input) {
+    if (!isPlainObject(raw)) return { valid: false, error: "routineSchedule must contain objects" };
+    const label = readString(raw, "label", 80);
+    const atAgeMonths = readNumber(raw, "atAgeMonths", 0, 400);
+    const whenWeightAboveKg = readNumber(raw, "whenWeightAboveKg", 0.5, 30);
+    const whenWeightBelowKg = readNumber(raw, "whenWeightBelowKg", 0.5, 30);
+    const error = firstError([label, atAgeMonths, whenWeightAboveKg, whenWeightBelowKg]);
+    if (error) return { valid: false, error: `routineSchedule.${error}` };
+    if (!label.value) return { valid: false, error: "routineSchedule items need a label" };
+    if (atAgeMonths.value === null && whenWeightAboveKg.value === null && whenWeightBelowKg.value === null) {
+      return { valid: false, error: "routineSchedule items need atAgeMonths, whenWeightAboveKg or whenWeightBelowKg" };
+    }
+
+    const routine = validateCareRoutine(raw.careRoutine);
+    if (!routine.valid) return { valid: false, error: `routineSchedule: ${routine.error}` };
+    const rawRoutine = raw.careRoutine as Record<string, unknown>;
+    const careRoutine = Object.fromEntries(
+      Object.entries(routine.data).filter(([key, value]) => value !== null && rawRoutine[key] !== undefined)
+    ) as Partial<CareRoutine>;
+    if (Object.keys(careRoutine).length === 0) {
+      return { valid: false, error: "routineSchedule items must change at least one careRoutine field" };
+    }
+
+    schedule.push({
+      label: label.value,
+      careRoutine,
+      ...(atAgeMonths.value !== null ? { atAgeMonths: atAgeMonths.value } : {}),
+      ...(whenWeightAboveKg.value !== null ? { whenWeightAboveKg: whenWeightAboveKg.value } : {}),
+      ...(whenWeightBelowKg.value !== null ? { whenWeightBelowKg: whenWeightBelowKg.value } : {}),
+    });
+  }
+
+  return { valid: true, data: schedule };
+}
+
+/**
+ * Validate the run options every simulation request shares: seed, stepSize and endAgeMonths.
+ * Only the options given are returned, ready to spread into the request.
+ */
+function validateRunOptions(
+  input: Record<string, unknown>
+): ValidationResult<Pick<SimulateRequest, "seed" | "stepSize" | "endAgeMonths">> {
+  const seed = readNumber(input, "seed", 0, MAX_SEED);
+  const stepSize = readEnum(input, "stepSize", STEP_SIZE_VALUES);
+  const endAgeMonths = readNumber(input, "endAgeMonths", 1, SIMULATION_HORIZON.maxEndAgeMonths);
+  const error = firstError([seed, stepSize, endAgeMonths]);
+  if (error) return { valid: false, error };
+  if (seed.value !== null && !Number.isInteger(seed.value)) {
+    return { valid: false, error: "seed must be an integer" };
+  }
+  if (endAgeMonths.value !== null && !Number.isInteger(endAgeMonths.value)) {
+    return { valid: false, error: "endAgeMonths must be a whole number of months" };
+  }
+
+  return {
+    valid: true,
+    data: {
+      ...(seed.value !== null ? { seed: seed.value } : {}),
+      ...(stepSize.value ? { stepSize: stepSize.value } : {}),
+      ...(endAgeMonths.value !== null ? { endAgeMonths: endAgeMonths.value } : {}),
+    },
+  };
+}
+
+/**
+ * Validate the body of POST /api/catlife/simulate
+ */
+export function validateSimulateRequest(input: unknown): ValidationResult<SimulateRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile);
+  if (!catProfile.valid) return catProfile;
+
+  const careRoutine = validateCareRoutine(input.careRoutine);
+  if (!careRoutine.valid) return careRoutine;
+
+  const enhanced = readBoolean(input, "enhanced");
+  const followCarePlan = readBoolean(input, "followCarePlan");
+  const includeCarePlans = readBoolean(input, "includeCarePlans");
+  const error = firstError([enhanced, followCarePlan, includeCarePlans]);
+  if (error) return { valid: false, error };
+
+  const runOptions = validateRunOptions(input);
+  if (!runOptions.valid) return runOptions;
+
+  let routineSchedule: RoutineChange[] | undefined;
+  if (input.routineSchedule !== undefined && input.routineSchedule !== null) {
+    const schedule = validateRoutineSchedule(input.routineSchedule);
+    if (!schedule.valid) return schedule;
+    routineSchedule = schedule.data;
+  }
+
+  return {
+    valid: true,
+    data: {
+      catProfile: catProfile.data,
+      careRoutine: careRoutine.data,
+      enhanced: enhanced.value ?? false,
+      ...runOptions.data,
+      ...(routineSchedule ? { routineSchedule } : {}),
+      ...(followCarePlan.value ? { followCarePlan: true } : {}),
+      ...(includeCarePlans.value ? { includeCarePlans: true } : {}),
+    },
+  };
+}
+
+/**
+ * Validate POST /api/catlife/sensitivity: the body of the /simulate request being analyzed
+ */
+export function validateSensitivityRequest(input: unknown): ValidationResult<SensitivityRequest> {
+  const simulate = validateSimulateRequest(input);
+  if (!simulate.valid) return simulate;
+
+  const { catProfile, careRoutine, seed, routineSchedule, followCarePlan, stepSize, endAgeMonths } = simulate.data;
+  if (seed === undefined) return { valid: false, error: "seed is required" };
+
+  return {
+    valid: true,
+    data: {
+      catProfile,
+      careRoutine,
+      seed,
+      ...(routineSchedule ? { routineSchedule } : {}),
+      ...(followCarePlan ? { followCarePlan } : {}),
+      ...(stepSize ? { stepSize } : {}),
+      ...(endAgeMonths !== undefined ? { endAgeMonths } : {}),
+    },
+  };
+}
+
+/**
+ * Validate POST /api/catlife/simulate-ensemble
+ */
+export function validateSimulateEnsembleRequest(input: unknown): ValidationResult<SimulateEnsembleRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile);
+  if (!catProfile.valid) return catProfile;
+
+  const careRoutine = validateCareRoutine(input.careRoutine);
+  if (!careRoutine.valid) return careRoutine;
+
+  const runs = readNumber(input, "runs", 1, MAX_ENSEMBLE_RUNS);
+  const followCarePlan = readBoolean(input, "followCarePlan");
+  const error = firstError([runs, followCarePlan]);
+  if (error) return { valid: false, error };
+  if (runs.value !== null && !Number.isInteger(runs.value)) {
+    return { valid: false, error: "runs must be an integer" };
+  }
+
+  const runOptions = validateRunOptions(input);
+  if (!runOptions.valid) return runOptions;
+
+  return {
+    valid: true,
+    data: {
+      catProfile: catProfile.data,
+      careRoutine: careRoutine.data,
+      ...(runs.value !== null ? { runs: runs.value } : {}),
+      ...runOptions.data,
+      ...(followCarePlan.value ? { followCarePlan: true } : {}),
+    },
+  };
+}
+
+/**
+ * Validate POST /api/catlife/compare-scenarios
+ */
+export function validateCompareScenariosRequest(input: unknown): ValidationResult<CompareScenariosRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile);
+  if (!catProfile.valid) return catProfile;
+
+  const careRoutine = validateCareRoutine(input.careRoutine);
+  if (!careRoutine.valid) return careRoutine;
+
+  if (!Array.isArray(input.variants) || input.variants.length === 0 || input.variants.length > MAX_SCENARIO_VARIANTS) {
+    return { valid: false, error: `variants must be an array of 1 to ${MAX_SCENARIO_VARIANTS} items` };
+  }
+
+  const variants: ScenarioVariant[] = [];
+  for (const [index, raw] of input.variants.entries()) {
+    if (!isPlainObject(raw)) return { valid: false, error: "variants must contain objects" };
+    const label = readString(raw, "label", 60);
+    if (label.error) return { valid: false, error: `variants.${label.error}` };
+    const variantRoutine = validateCareRoutine(raw.careRoutine);
+    if (!variantRoutine.valid) return { valid: false, error: `variants: ${variantRoutine.error}` };
+    variants.push({ label: label.value ?? `Scenario ${index + 1}`, careRoutine: variantRoutine.data });
+  }
+
+  const runOptions = validateRunOptions(input);
+  if (!runOptions.valid) return runOptions;
+
+  return {
+    valid: true,
+    data: {
+      catProfile: catProfile.data,
+      careRoutine: careRoutine.data,
+      variants,
+      ...runOptions.data,
+    },
+  };
+}
+
+/** Months ahead a planned arrival can be, or back a recent one */
+const MAX_ARRIVAL_MONTHS = 120;
+
+/**
+ * Validate POST /api/catlife/simulate-household
+ */
+export function validateSimulateHouseholdRequest(input: unknown): ValidationResult<SimulateHouseholdRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+  if (!isPlainObject(input.household)) {
+    return { valid: false, error: "household must be an object" };
+  }
+  const { household } = input;
+
+  if (!Array.isArray(household.cats) || household.cats.length < 2 || household.cats.length > MAX_HOUSEHOLD_CATS) {
+    return { valid: false, error: `household.cats must be an array of 2 to ${MAX_HOUSEHOLD_CATS} items` };
+  }
+
+  const cats: HouseholdCat[] = [];
+  for (const raw of household.cats) {
+    if (!isPlainObject(raw)) return { valid: false, error: "household.cats must contain objects" };
+    const catProfile = validateCatProfile(raw.catProfile);
+    if (!catProfile.valid) return { valid: false, error: `household.cats: ${catProfile.error}` };
+    const careRoutine = validateCareRoutine(raw.careRoutine);
+    if (!careRoutine.valid) return { valid: false, error: `household.cats: ${careRoutine.error}` };
+    const joinsInMonths = readNumber(raw, "joinsInMonths", -MAX_ARRIVAL_MONTHS, MAX_ARRIVAL_MONTHS);
+    if (joinsInMonths.error) return { valid: false, error: `household.cats.${joinsInMonths.error}` };
+    if (joinsInMonths.value !== null && !Number.isInteger(joinsInMonths.value)) {
+      return { valid: false, error: "household.cats.joinsInMonths must be an integer" };
+    }
+    cats.push({
+      catProfile: catProfile.data,
+      careRoutine: careRoutine.data,
+      ...(joinsInMonths.value !== null ? { joinsInMonths: joinsInMonths.value } : {}),
+    });
+  }
+
+  const litterBoxes = readNumber(household, "litterBoxes", 0, MAX_LITTER_BOXES);
+  if (litterBoxes.error) return { valid: false, error: `household.${litterBoxes.error}` };
+  if (litterBoxes.value === null || !Number.isInteger(litterBoxes.value)) {
+    return { valid: false, error: "household.litterBoxes must be an integer" };
+  }
+
+  const runOptions = validateRunOptions(input);
+  if (!runOptions.valid) return runOptions;
+
+  return {
+    valid: true,
+    data: {
+      household: { cats, litterBoxes: litterBoxes.value },
+      ...runOptions.data,
+    },
+  };
+}
+
+/**
+ * Validate an array of SimulationPoints; `field` prefixes error messages
+ */
+function validateSimulationPoints(
+  input: unknown,
+  field: string,
+  maxItems: number
+): ValidationResult<SimulationPoint[]> {
+  if (!Array.isArray(input) || input.length > maxItems) {
+    return { valid: false, error: `${field} must be an array of at most ${maxItems} items` };
+  }
+
+  const points: SimulationPoint[] = [];
+  for (const raw of input) {
+    if (!isPlainObject(raw)) return { valid: false, error: `${field} must contain objects` };
+    const ageMonths = readNumber(raw, "ageMonths", 0, 400);
+    const weightKgEstimate = readNumber(raw, "weightKgEstimate", 0, 30);
+    const healthStatus = readEnum(raw, "healthStatus", HEALTH_STATUS_VALUES);
+    const notes = readString(raw, "notes", 1000);
+    const error = firstError([ageMonths, weightKgEstimate, healthStatus, notes]);
+    if (error) return { valid: false, error: `${field}.${error}` };
+    if (ageMonths.value === null || weightKgEstimate.value === null || !healthStatus.value) {
+      return { valid: false, error: `${field} need ageMonths, weightKgEstimate and healthStatus` };
+    }
+    points.push({
+      ageMonths: ageMonths.value,
+      weightKgEstimate: weightKgEstimate.value,
+      healthStatus: healthStatus.value,
+      notes: notes.value ?? "",
+    });
+  }
+  return { valid: true, data: points };
+}
+
+/**
+ * Validate a SimulationResult echoed back by the client
+ * Only the fields downstream consumers read are checked; extra fields are dropped
+ */
+export function validateSimulationResult(input: unknown): ValidationResult<SimulationResult> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "simulationResult must be an object" };
+  }
+  const points = validateSimulationPoints(input.points, "simulationResult.points", 2000);
+  if (!points.valid) return points;
+  if (!Array.isArray(input.alerts) || input.alerts.length > 500) {
+    return { valid: false, error: "simulationResult.alerts must be an array of at most 500 items" };
+  }
+
+  const alerts: SimulationAlert[] = [];
+  for (const raw of input.alerts) {
+    if (!isPlainObject(raw)) return { valid: false, error: "simulationResult.alerts must contain objects" };
+    const id = readString(raw, "id", 100);
+    const ageMonths = readNumber(raw, "ageMonths", 0, 400);
+    const severity = readEnum(raw, "severity", ALERT_SEVERITY_VALUES);
+    const message = readString(raw, "message", 1000);
+    const recommendation = readString(raw, "recommendation", 1000);
+    const error = firstError([id, ageMonths, severity, message, recommendation]);
+    if (error) return { valid: false, error: `simulationResult.alerts.${error}` };
+    if (!id.value || ageMonths.value === null || !severity.value) {
+      return { valid: false, error: "simulationResult.alerts need id, ageMonths and severity" };
+    }
+    alerts.push({
+      id: id.value,
+      ageMonths: ageMonths.value,
+      severity: severity.value,
+      message: message.value ?? "",
+      recommendation: recommendation.value ?? "",
+    });
+  }
+
+  const recommendations = Array.isArray(input.recommendations)
+    ? input.recommendations.filter((r): r is string => typeof r === "string")
+    : [];
+
+  return {
+    valid: true,
+    data: {
+      points: points.data,
+      alerts,
+      summary: typeof input.summary === "string" ? input.summary : "",
+      recommendations,
+      ...(typeof input.seed === "number" && Number.isInteger(input.seed) ? { seed: input.seed } : {}),
+    },
+  };
+}
+
+/**
+ * Validate the body of POST /api/catlife/reminder-recommendations
+ * Everything is optional so the reminder step still works before a simulation has run
+ */
+export function validateReminderRecommendationsRequest(
+  input: unknown
+): ValidationResult<ReminderRecommendationsRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile ?? {});
+  if (!catProfile.valid) return catProfile;
+
+  const careRoutine = validateCareRoutine(input.careRoutine ?? {});
+  if (!careRoutine.valid) return careRoutine;
+
+  let simulationResult: SimulationResult | undefined;
+  if (input.simulationResult !== undefined && input.simulationResult !== null) {
+    const parsed = validateSimulationResult(input.simulationResult);
+    if (!parsed.valid) return parsed;
+    simulationResult = parsed.data;
+  }
+
+  return {
+    valid: true,
+    data: {
+      catProfile: catProfile.data,
+      careRoutine: careRoutine.data,
+      ...(simulationResult ? { simulationResult } : {}),
+    },
+  };
+}
+
+/**
+ * Validate the body of POST /api/catlife/generate-milestone-notes
+ * Any client-computed trajectory is ignored; the server derives its own
+ */
+export function validateMilestoneNotesRequest(input: unknown): ValidationResult<MilestoneNotesRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile ?? {});
+  if (!catProfile.valid) return catProfile;
+
+  const careRoutine = validateCareRoutine(input.careRoutine ?? {});
+  if (!careRoutine.valid) return careRoutine;
+
+  const simulationPoints = validateSimulationPoints(input.simulationPoints, "simulationPoints", 40);
+  if (!simulationPoints.valid) return simulationPoints;
+  if (simulationPoints.data.length === 0) {
+    return { valid: false, error: "simulationPoints must not be empty" };
+  }
+
+  return {
+    valid: true,
+    data: {
+      catProfile: catProfile.data,
+      careRoutine: careRoutine.data,
+      simulationPoints: simulationPoints.data,
+    },
+  };
+}
+
+/**
+ * Strict check for generated EnhancedMilestoneNote[] (template or LLM output).
+ * Any malformed note rejects the whole batch so nothing partial reaches the timeline.
+ */
+export function validateEnhancedMilestoneNotes(input: unknown): ValidationResult<EnhancedMilestoneNote[]> {
+  if (!Array.isArray(input) || input.length > 40) {
+    return { valid: false, error: "notes must be an array of at most 40 items" };
+  }
+
+  const readStringList = (source: Record<string, unknown>, field: string) => {
+    const raw = source[field];
+    if (
+      !Array.isArray(raw) ||
+      raw.length > 10 ||
+      raw.some(item => typeof item !== "string" || item.trim().length === 0 || item.length > 500)
+    ) {
+      return { value: null, error: `${field} must be an array of up to 10 non-empty strings` };
+    }
+    return { value: (raw as string[]).map(item => item.trim()) };
+  };
+
+  const notes: EnhancedMilestoneNote[] = [];
+  const seenAges = new Set<number>();
+  for (const raw of input) {
+    if (!isPlainObject(raw)) return { valid: false, error: "notes must contain objects" };
+
+    const ageYears = readNumber(raw, "ageYears", 0, 30);
+    const personalizedNote = readString(raw, "personalizedNote", 1000);
+    const trajectoryInsight = readString(raw, "trajectoryInsight", 500);
+    const priority = readEnum(raw, "priority", NOTE_PRIORITY_VALUES);
+    const breedSpecificAlerts = readStringList(raw, "breedSpecificAlerts");
+    const ageAppropriateAdvice = readStringList(raw, "ageAppropriateAdvice");
+    const upcomingMilestones = readStringList(raw, "upcomingMilestones");
+
+    const error = firstError([
+      ageYears, personalizedNote, trajectoryInsight, priority,
+      breedSpecificAlerts, ageAppropriateAdvice, upcomingMilestones,
+    ]);
+    if (error) return { valid: false, error: `notes.${error}` };
+    if (ageYears.value === null || !Number.isInteger(ageYears.value)) {
+      return { valid: false, error: "notes.ageYears must be a whole number of years" };
+    }
+    if (seenAges.has(ageYears.value)) {
+      return { valid: false, error: `notes has more than one entry for age ${ageYears.value}` };
+    }
+    if (!personalizedNote.value || !trajectoryInsight.value || !priority.value) {
+      return { valid: false, error: "notes need personalizedNote, trajectoryInsight and priority" };
+    }
+    seenAges.add(ageYears.value);
+
+    notes.push({
+      ageYears: ageYears.value,
+      personalizedNote: personalizedNote.value,
+      breedSpecificAlerts: breedSpecificAlerts.value ?? [],
+      ageAppropriateAdvice: ageAppropriateAdvice.value ?? [],
+      upcomingMilestones: upcomingMilestones.value ?? [],
+      trajectoryInsight: trajectoryInsight.value,
+      priority: priority.value,
+    });
+  }
+  return { valid: true, data: notes };
+}
+
+/**
+ * Validate the body of POST /api/catlife/chat
+ * Profile and routine are partial while the intake is in progress
+ */
+export function validateChatRequest(input: unknown): ValidationResult<ChatRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  if (!Array.isArray(input.messages) || input.messages.length > 200) {
+    return { valid: false, error: "messages must be an array of at most 200 items" };
+  }
+  const roles: ChatMessage["role"][] = ["user", "assistant", "system"];
+  const messages: ChatMessage[] = [];
+  for (const message of input.messages) {
+    if (
+      !isPlainObject(message) ||
+      !roles.includes(message.role as ChatMessage["role"]) ||
+      typeof message.content !== "string" ||
+      message.content.length > 2000
+    ) {
+      return { valid: false, error: "Each message needs a role and content (max 2000 characters)" };
+    }
+    messages.push({
+      role: message.role as ChatMessage["role"],
+      content: message.content,
+      ...(typeof message.timestamp === "number" ? { timestamp: message.timestamp } : {}),
+    });
+  }
+
+  const catProfile = validateCatProfile(input.catProfile ?? {});
+  if (!catProfile.valid) return catProfile;
+
+  const careRoutine = validateCareRoutine(input.careRoutine ?? {});
+  if (!careRoutine.valid) return careRoutine;
+
+  return {
+    valid: true,
+    data: { messages, catProfile: catProfile.data, careRoutine: careRoutine.data },
+  };
+}
+
+/**
+ * Validate the body of POST /api/catlife/vision
+ * The profile is optional context for the mismatch check
+ */
+export function validateVisionRequest(input: unknown): ValidationResult<VisionRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  if (typeof input.imageBase64 !== "string" || input.imageBase64.trim().length === 0) {
+    return { valid: false, error: "imageBase64 must be a non-empty string" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile ?? {});
+  if (!catProfile.valid) return catProfile;
+
+  return {
+    valid: true,
+    data: { imageBase64: input.imageBase64.trim(), catProfile: catProfile.data },
+  };
+}
+
+/**
+ * Validate the body of POST /api/catlife/avatar
+ */
+export function validateAvatarRequest(input: unknown): ValidationResult<AvatarRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile);
+  if (!catProfile.valid) return catProfile;
+
+  const photoAnalysis = validatePhotoAnalysis(input.photoAnalysis);
+  if (!photoAnalysis.valid) return photoAnalysis;
+
+  return {
+    valid: true,
+    data: {
+      catProfile: catProfile.data,
+      ...(photoAnalysis.data ? { photoAnalysis: photoAnalysis.data } : {}),
+    },
+  };
+}
+
+/**
+ * Validate the body of POST /api/catlife/cat-colors
+ */
+export function validateCatColorsRequest(input: unknown): ValidationResult<CatColorsRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catProfile = validateCatProfile(input.catProfile ?? {});
+  if (!catProfile.valid) return catProfile;
+
+  const photoAnalysis = validatePhotoAnalysis(input.photoAnalysis);
+  if (!photoAnalysis.valid) return photoAnalysis;
+
+  const coatDescription = readString(input, "coatDescription", 200);
+  if (coatDescription.error) return { valid: false, error: coatDescription.error };
+
+  return {
+    valid: true,
+    data: {
+      catProfile: catProfile.data,
+      ...(photoAnalysis.data ? { photoAnalysis: photoAnalysis.data } : {}),
+      ...(coatDescription.value ? { coatDescription: coatDescription.value } : {}),
+    },
+  };
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a contact pair; phone numbers are normalized to E.164
+ */
+function validateContact(contactType: ContactType, contactValue: string): ValidationResult<string> {
+  if (contactType === "email") {
+    return isValidEmail(contactValue)
+      ? { valid: true, data: contactValue }
+      : { valid: false, error: "contactValue must be a valid email address" };
+  }
+  const normalized = normalizePhoneNumber(contactValue);
+  return isValidPhoneNumber(normalized)
+    ? { valid: true, data: normalized }
+    : { valid: false, error: "contactValue must be a valid phone number" };
+}
+
+/**
+ * Validate reminder channel flags; with `partial` missing channels are omitted
+ */
+function validateChannels(input: unknown, partial: boolean): ValidationResult<Partial<ReminderChannels>> {
+  if (!isPlainObject(input)) return { valid: false, error: "channels must be an object" };
+
+  const channels: Partial<ReminderChannels> = {};
+  for (const key of REMINDER_CHANNEL_KEYS) {
+    const flag = readBoolean(input, key);
+    if (flag.error) return { valid: false, error: `channels.${flag.error}` };
+    if (flag.value !== null) channels[key] = flag.value;
+    else if (!partial) channels[key] = false;
+  }
+  return { valid: true, data: channels };
+}
+
+function validateSchedule(input: unknown): ValidationResult<ReminderSchedule> {
+  if (!isPlainObject(input)) return { valid: false, error: "schedule must be an object" };
+
+  const isTimeList = (value: unknown) =>
+    value === undefined ||
+    (Array.isArray(value) && value.length <= 6 && value.every(t => typeof t === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(t)));
+  if (!isTimeList(input.feedTimes) || !isTimeList(input.playTimes)) {
+    return { valid: false, error: "schedule times must be up to 6 HH:MM strings" };
+  }
+
+  const vetIntervalMonths = readNumber(input, "vetIntervalMonths", 1, 60);
+  if (vetIntervalMonths.error) return { valid: false, error: `schedule.${vetIntervalMonths.error}` };
+
+  return {
+    valid: true,
+    data: {
+      ...(input.feedTimes ? { feedTimes: input.feedTimes as string[] } : {}),
+      ...(input.playTimes ? { playTimes: input.playTimes as string[] } : {}),
+      ...(vetIntervalMonths.value !== null ? { vetIntervalMonths: vetIntervalMonths.value } : {}),
+    },
+  };
+}
+
+/**
+ * Validate the body of POST /api/catlife/reminders
+ */
+export function validateReminderRequest(input: unknown): ValidationResult<ReminderRequest> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catName = readString(input, "catName", 60);
+  const contactType = readEnum(input, "contactType", CONTACT_TYPE_VALUES);
+  const contactValue = readString(input, "contactValue", 254);
+  const timezone = readString(input, "timezone", 64);
+
+  const error = firstError([catName, contactType, contactValue, timezone]);
+  if (error) return { valid: false, error };
+  if (!catName.value) return { valid: false, error: "catName is required" };
+  if (!contactType.value || !contactValue.value) {
+    return { valid: false, error: "contactType and contactValue are required" };
+  }
+  if (timezone.value && !isValidTimezone(timezone.value)) {
+    return { valid: false, error: "timezone must be an IANA timezone name" };
+  }
+
+  const contact = validateContact(contactType.value, contactValue.value);
+  if (!contact.valid) return contact;
+
+  const channels = validateChannels(input.channels, false);
+  if (!channels.valid) return channels;
+  if (!Object.values(channels.data).some(Boolean)) {
+    return { valid: false, error: "Select at least one reminder channel" };
+  }
+
+  let schedule: ReminderSchedule | undefined;
+  if (input.schedule !== undefined && input.schedule !== null) {
+    const parsed = validateSchedule(input.schedule);
+    if (!parsed.valid) return parsed;
+    schedule = parsed.data;
+  }
+
+  return {
+    valid: true,
+    data: {
+      catName: catName.value,
+      contactType: contactType.value,
+      contactValue: contact.data,
+      channels: channels.data as ReminderChannels,
+      ...(schedule ? { schedule } : {}),
+      ...(timezone.value ? { timezone: timezone.value } : {}),
+    },
+  };
+}
+
+/**
+ * Validate the body of PATCH /api/catlife/reminders/[id]
+ * Every field is optional; only the ones provided are changed. A new contact is returned
+ * apart from the changes, since it only takes effect once the new contact confirms it.
+ */
+export function validateReminderUpdate(input: unknown): ValidationResult<{
+  changes: ReminderUpdate;
+  contact: { contactType: ContactType; contactValue: string } | null;
+}> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const catName = readString(input, "catName", 60);
+  const contactType = readEnum(input, "contactType", CONTACT_TYPE_VALUES);
+  const contactValue = readString(input, "contactValue", 254);
+  const enabled = readBoolean(input, "enabled");
+  const timezone = readString(input, "timezone", 64);
+
+  const error = firstError([catName, contactType, contactValue, enabled, timezone]);
+  if (error) return { valid: false, error };
+  if (timezone.value && !isValidTimezone(timezone.value)) {
+    return { valid: false, error: "timezone must be an IANA timezone name" };
+  }
+  if ((contactType.value === null) !== (contactValue.value === null)) {
+    return { valid: false, error: "contactType and contactValue must be changed together" };
+  }
+
+  const changes: ReminderUpdate = {};
+  if (catName.value) changes.catName = catName.value;
+  if (enabled.value !== null) changes.enabled = enabled.value;
+  if (timezone.value) changes.timezone = timezone.value;
+
+  let contact: { contactType: ContactType; contactValue: string } | null = null;
+  if (contactType.value && contactValue.value) {
+    const validated = validateContact(contactType.value, contactValue.value);
+    if (!validated.valid) return validated;
+    contact = { contactType: contactType.value, contactValue: validated.data };
+  }
+
+  if (input.channels !== undefined) {
+    const channels = validateChannels(input.channels, true);
+    if (!channels.valid) return channels;
+    changes.channels = channels.data;
+  }
+
+  if (input.schedule !== undefined) {
+    const schedule = validateSchedule(input.schedule);
+    if (!schedule.valid) return schedule;
+    changes.schedule = schedule.data;
+  }
+
+  return { valid: true, data: { changes, contact } };
+}
+
+/**
+ * Validate the query of /api/catlife/unsubscribe and /api/catlife/preferences
+ */
+export function validateUnsubscribeParams(
+  params: URLSearchParams
+): ValidationResult<{ id: string; token: string; channel?: ReminderChannel }> {
+  const source = Object.fromEntries(params.entries());
+  const id = readString(source, "id", 100);
+  const token = readString(source, "token", 100);
+  const channel = readEnum(source, "channel", REMINDER_CHANNEL_KEYS);
+
+  const error = firstError([id, token, channel]);
+  if (error) return { valid: false, error };
+  if (!id.value || !token.value) return { valid: false, error: "id and token are required" };
+
+  return {
+    valid: true,
+    data: { id: id.value, token: token.value, ...(channel.value ? { channel: channel.value } : {}) },
+  };
+}
+
+/**
+ * Validate the query of a confirmation link (GET /api/catlife/preferences?id&confirm)
+ */
+export function validateConfirmationParams(
+  params: URLSearchParams
+): ValidationResult<{ id: string; confirmToken: string }> {
+  const source = Object.fromEntries(params.entries());
+  const id = readString(source, "id", 100);
+  const confirmToken = readString(source, "confirm", 100);
+
+  const error = firstError([id, confirmToken]);
+  if (error) return { valid: false, error };
+  if (!id.value || !confirmToken.value) return { valid: false, error: "id and confirm are required" };
+
+  return { valid: true, data: { id: id.value, confirmToken: confirmToken.value } };
+}
+
+/**
+ * Validate the body of POST /api/catlife/preferences
+ * Only the on/off switches can be changed without logging in (with token), or a pending
+ * change confirmed (with the confirmToken from the confirmation link)
+ */
+export function validatePreferencesUpdate(input: unknown): ValidationResult<{
+  id: string;
+  token: string | null;
+  confirmToken: string | null;
+  changes: ReminderUpdate;
+}> {
+  if (!isPlainObject(input)) {
+    return { valid: false, error: "Request body must be a JSON object" };
+  }
+
+  const id = readString(input, "id", 100);
+  const token = readString(input, "token", 100);
+  const confirmToken = readString(input, "confirmToken", 100);
+  const enabled = readBoolean(input, "enabled");
+
+  const error = firstError([id, token, confirmToken, enabled]);
+  if (error) return { valid: false, error };
+  if (!id.value || !(token.value || confirmToken.value)) {
+    return { valid: false, error: "id and token (or confirmToken) are required" };
+  }
+
+  const changes: ReminderUpdate = {};
+  if (enabled.value !== null) changes.enabled = enabled.value;
+
+  if (input.channels !== undefined) {
+    const channels = validateChannels(input.channels, true);
+    if (!channels.valid) return channels;
+    changes.channels = channels.data;
+  }
+
+  return {
+    valid: true,
+    data: { id: id.value, token: token.value, confirmToken: confirmToken.value, changes },
+  };
+}
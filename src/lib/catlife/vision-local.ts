@@ -0,0 +1,308 @@
+// CatLife - Local Vision Heuristics
+// Estimates coat color, pattern and a rough body condition from JPEG pixel statistics (no model)
+
+import { decode } from "jpeg-js";
+import type { BodyCondition } from "@/types/catlife";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FurColor = "black" | "white" | "gray" | "orange" | "cream" | "brown";
+
+export interface PixelStatistics {
+  width: number;
+  height: number;
+  /** Share of foreground (cat) samples per fur color, 0-1 */
+  colorShares: Record<FurColor, number>;
+  /** Mean luminance difference between nearby foreground samples (stripes/spots), 0-1 */
+  textureScore: number;
+  /** Foreground samples / bounding-box area of the foreground */
+  fillRatio: number;
+  /** Foreground bounding box width / height */
+  aspectRatio: number;
+  /** Share of sampled pixels classified as foreground */
+  foregroundShare: number;
+}
+
+export interface LocalVisionEstimate {
+  estimatedColor: string;
+  estimatedPattern: string;
+  photoBodyCondition: BodyCondition;
+  photoConfidence: number;
+  photoComment: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MAX_SAMPLES_PER_AXIS = 120;
+const BORDER_FRACTION = 0.08;
+const BACKGROUND_DISTANCE = 48;
+const MAX_RESOLUTION_MP = 40;
+const MAX_MEMORY_MB = 256;
+const TEXTURE_STRIDE_DIVISOR = 40;
+/** Mean nearby-sample luminance difference above which a coat reads as striped/spotted */
+const TABBY_TEXTURE_THRESHOLD = 0.06;
+/**
+ * Ceiling on silhouette body-condition confidence. It stays under the mismatch threshold
+ * in vision.ts (0.4), so a pose-driven guess never makes us question the owner.
+ */
+const MAX_SILHOUETTE_CONFIDENCE = 0.35;
+
+const FUR_COLORS: FurColor[] = ["black", "white", "gray", "orange", "cream", "brown"];
+
+// ============================================
+// DECODING
+// ============================================
+
+/**
+ * Strip a data URL prefix and decode base64 JPEG bytes
+ * Throws if the payload isn't a decodable JPEG
+ */
+export function decodeJpegBase64(imageBase64: string): { width: number; height: number; data: Uint8Array } {
+  const base64 = imageBase64.replace(/^data:image\/[a-z+.-]+;base64,/i, "");
+  const bytes = Buffer.from(base64, "base64");
+  return decode(bytes, {
+    useTArray: true,
+    formatAsRGBA: true,
+    maxResolutionInMP: MAX_RESOLUTION_MP,
+    maxMemoryUsageInMB: MAX_MEMORY_MB,
+  });
+}
+
+// ============================================
+// COLOR CLASSIFICATION
+// ============================================
+
+function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === rn) h = ((gn - bn) / d + (gn < bn ? 6 : 0)) * 60;
+  else if (max === gn) h = ((bn - rn) / d + 2) * 60;
+  else h = ((rn - gn) / d + 4) * 60;
+  return { h, s, l };
+}
+
+/**
+ * Map a pixel to the closest fur color bucket
+ */
+export function classifyFurColor(r: number, g: number, b: number): FurColor {
+  const { h, s, l } = rgbToHsl(r, g, b);
+
+  if (l < 0.16) return "black";
+  if (l > 0.85 && s < 0.35) return "white";
+
+  const warm = h >= 8 && h <= 55;
+  if (warm && s >= 0.35 && l >= 0.3) return l > 0.72 ? "cream" : "orange";
+  if (warm && s >= 0.12) {
+    if (l > 0.62) return "cream";
+    return l < 0.42 ? "brown" : "orange";
+  }
+  if (s < 0.2 || !warm) {
+    if (l < 0.24) return "black";
+    if (l > 0.78) return "white";
+    return "gray";
+  }
+  return "brown";
+}
+
+function colorDistance(a: number[], b: number[]): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+// ============================================
+// PIXEL STATISTICS
+// ============================================
+
+/**
+ * Sample the image on a grid, estimate the background from the border and
+ * summarise the remaining (foreground) pixels
+ */
+export function computePixelStatistics(image: { width: number; height: number; data: Uint8Array }): PixelStatistics {
+  const { width, height, data } = image;
+  const stepX = Math.max(1, Math.floor(width / MAX_SAMPLES_PER_AXIS));
+  const stepY = Math.max(1, Math.floor(height / MAX_SAMPLES_PER_AXIS));
+  const cols = Math.floor(width / stepX);
+  const rows = Math.floor(height / stepY);
+
+  const pixel = (col: number, row: number): number[] => {
+    const offset = ((row * stepY) * width + (col * stepX)) * 4;
+    return [data[offset], data[offset + 1], data[offset + 2]];
+  };
+
+  // Background = median-ish (mean) colour of the outer border band
+  const borderCols = Math.max(1, Math.floor(cols * BORDER_FRACTION));
+  const borderRows = Math.max(1, Math.floor(rows * BORDER_FRACTION));
+  const borderSum = [0, 0, 0];
+  let borderCount = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const isBorder = row < borderRows || row >= rows - borderRows || col < borderCols || col >= cols - borderCols;
+      if (!isBorder) continue;
+      const [r, g, b] = pixel(col, row);
+      borderSum[0] += r;
+      borderSum[1] += g;
+      borderSum[2] += b;
+      borderCount++;
+    }
+  }
+  const background = borderSum.map(v => v / Math.max(1, borderCount));
+
+  const counts: Record<FurColor, number> = { black: 0, white: 0, gray: 0, orange: 0, cream: 0, brown: 0 };
+  const luminance: (number | null)[][] = [];
+  let foreground = 0;
+  let minCol = cols;
+  let maxCol = -1;
+  let minRow = rows;
+  let maxRow = -1;
+
+  for (let row = 0; row < rows; row++) {
+    luminance.push([]);
+    for (let col = 0; col < cols; col++) {
+      const rgb = pixel(col, row);
+      if (colorDistance(rgb, background) < BACKGROUND_DISTANCE) {
+        luminance[row].push(null);
+        continue;
+      }
+      foreground++;
+      counts[classifyFurColor(rgb[0], rgb[1], rgb[2])]++;
+      luminance[row].push(0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2]);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+    }
+  }
+
+  // Compare samples a few cells apart so stripes wider than one sample still register
+  const stride = Math.max(2, Math.round(Math.min(cols, rows) / TEXTURE_STRIDE_DIVISOR));
+  let textureSum = 0;
+  let textureCount = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = stride; col < cols; col++) {
+      const current = luminance[row][col];
+      const left = luminance[row][col - stride];
+      const above = row >= stride ? luminance[row - stride][col] : null;
+      if (current === null) continue;
+      if (left !== null) {
+        textureSum += Math.abs(current - left);
+        textureCount++;
+      }
+      if (above !== null) {
+        textureSum += Math.abs(current - above);
+        textureCount++;
+      }
+    }
+  }
+
+  const colorShares = {} as Record<FurColor, number>;
+  for (const color of FUR_COLORS) colorShares[color] = foreground > 0 ? counts[color] / foreground : 0;
+
+  const boxWidth = Math.max(1, maxCol - minCol + 1);
+  const boxHeight = Math.max(1, maxRow - minRow + 1);
+
+  return {
+    width,
+    height,
+    colorShares,
+    textureScore: textureCount > 0 ? textureSum / textureCount / 255 : 0,
+    fillRatio: foreground > 0 ? foreground / (boxWidth * boxHeight) : 0,
+    aspectRatio: foreground > 0 ? boxWidth / boxHeight : 1,
+    foregroundShare: foreground / Math.max(1, rows * cols),
+  };
+}
+
+// ============================================
+// ESTIMATES
+// ============================================
+
+/**
+ * Turn color shares and texture into a coat description
+ */
+export function estimateCoat(stats: PixelStatistics): { color: string; pattern: string } {
+  const ranked = FUR_COLORS
+    .map(color => ({ color, share: stats.colorShares[color] }))
+    .sort((a, b) => b.share - a.share);
+  const [primary, secondary] = ranked;
+  const share = (color: FurColor) => stats.colorShares[color];
+
+  // Tri-color and tortie coats
+  if (share("orange") + share("cream") > 0.12 && share("black") > 0.12) {
+    if (share("white") > 0.12) return { color: "calico", pattern: "calico" };
+    return { color: "tortoiseshell", pattern: "tortoiseshell" };
+  }
+
+  // Pale body with dark extremities
+  if ((primary.color === "cream" || primary.color === "white") && share("brown") + share("black") > 0.1 && share("brown") + share("black") < 0.35) {
+    return { color: share("black") > share("brown") ? "seal point" : "chocolate point", pattern: "colorpoint" };
+  }
+
+  const isTwoTone = secondary.share > 0.2;
+  if (isTwoTone && (primary.color === "white" || secondary.color === "white")) {
+    const other = primary.color === "white" ? secondary.color : primary.color;
+    if (other === "black" && share("black") > share("white")) {
+      return { color: "black and white", pattern: "tuxedo" };
+    }
+    return { color: `${other} and white`, pattern: "bicolor" };
+  }
+
+  // Strong local contrast within one hue family reads as stripes/spots
+  const pattern = stats.textureScore > TABBY_TEXTURE_THRESHOLD ? "tabby" : "solid";
+  if (isTwoTone && pattern === "solid" && secondary.color !== "white") {
+    return { color: `${primary.color} and ${secondary.color}`, pattern: "mixed" };
+  }
+  return { color: primary.color, pattern };
+}
+
+/**
+ * Very rough body condition from the silhouette: rounder cats fill more of
+ * their bounding box. Confidence stays low (see MAX_SILHOUETTE_CONFIDENCE) because pose dominates this signal.
+ */
+export function estimateBodyCondition(stats: PixelStatistics): { condition: BodyCondition; confidence: number } {
+  // Too little or too much foreground means we couldn't separate cat from background
+  if (stats.foregroundShare < 0.08 || stats.foregroundShare > 0.95) {
+    return { condition: "unknown", confidence: 0.2 };
+  }
+
+  const separation = 1 - Math.abs(stats.foregroundShare - 0.45) / 0.45;
+  const confidence = Math.round((0.2 + (MAX_SILHOUETTE_CONFIDENCE - 0.2) * Math.max(0, separation)) * 100) / 100;
+
+  if (stats.fillRatio > 0.82 && stats.aspectRatio > 0.8) return { condition: "overweight", confidence };
+  if (stats.fillRatio < 0.45) return { condition: "underweight", confidence };
+  return { condition: "ideal", confidence };
+}
+
+const BODY_COMMENTS: Record<BodyCondition, string> = {
+  overweight: "From the silhouette, they look like they might be carrying a bit of extra love.",
+  underweight: "From the silhouette, they look on the slender side.",
+  ideal: "From the silhouette, they look nicely proportioned.",
+  unknown: "I couldn't get a clear look at their shape from this photo.",
+};
+
+/**
+ * Full local estimate for a decoded image
+ */
+export function analyzePixels(image: { width: number; height: number; data: Uint8Array }): LocalVisionEstimate {
+  const stats = computePixelStatistics(image);
+  const coat = estimateCoat(stats);
+  const body = estimateBodyCondition(stats);
+
+  return {
+    estimatedColor: coat.color,
+    estimatedPattern: coat.pattern,
+    photoBodyCondition: body.condition,
+    photoConfidence: body.confidence,
+    photoComment: `What a lovely ${coat.color}${coat.pattern === "tabby" ? " tabby" : ""} coat! ${BODY_COMMENTS[body.condition]}`,
+  };
+}
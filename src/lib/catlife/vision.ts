@@ -0,0 +1,202 @@
+// CatLife - Vision Service
+// Pluggable photo analysis: local pixel heuristics by default, remote models as alternative providers
+
+import type { BodyCondition, CatProfile, PhotoAnalysis, VisionRequest } from "@/types/catlife";
+import { VISION_ANALYSIS_SYSTEM_PROMPT, generateMismatchClarificationPrompt } from "./prompts";
+import { findBreedProfile } from "./breed-health-data";
+import { analyzePixels, decodeJpegBase64 } from "./vision-local";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface VisionProvider {
+  name: string;
+  analyze(request: VisionRequest): Promise<PhotoAnalysis>;
+}
+
+/**
+ * Thrown when the image can't be read at all (as opposed to a provider outage)
+ */
+export class VisionImageError extends Error {
+  suggestion: string;
+
+  constructor(message: string, suggestion: string) {
+    super(message);
+    this.name = "VisionImageError";
+    this.suggestion = suggestion;
+  }
+}
+
+// ============================================
+// MISMATCH DETECTION
+// ============================================
+
+/** Photo estimates below this confidence never trigger a clarification */
+const MISMATCH_MIN_CONFIDENCE = 0.4;
+
+const BODY_CONDITIONS: BodyCondition[] = ["underweight", "ideal", "overweight", "unknown"];
+
+/**
+ * Derive the owner's view of body condition: stated condition first,
+ * otherwise weight against the breed's ideal range
+ */
+export function getStatedBodyCondition(catProfile: Partial<CatProfile>): BodyCondition {
+  if (catProfile.bodyCondition && catProfile.bodyCondition !== "unknown") {
+    return catProfile.bodyCondition;
+  }
+  if (catProfile.weightKg) {
+    const idealWeight = findBreedProfile(catProfile.breed ?? null)?.idealWeight ?? { min: 3.5, max: 5.5 };
+    if (catProfile.weightKg > idealWeight.max * 1.1) return "overweight";
+    if (catProfile.weightKg < idealWeight.min * 0.9) return "underweight";
+    return "ideal";
+  }
+  return "unknown";
+}
+
+/**
+ * Compare the photo estimate with what the owner told us and attach a
+ * clarification message when they disagree
+ */
+export function applyMismatchCheck(analysis: PhotoAnalysis, catProfile: Partial<CatProfile>): PhotoAnalysis {
+  const stated = getStatedBodyCondition(catProfile);
+  const mismatch =
+    stated !== "unknown" &&
+    analysis.photoBodyCondition !== "unknown" &&
+    analysis.photoConfidence >= MISMATCH_MIN_CONFIDENCE &&
+    analysis.photoBodyCondition !== stated;
+
+  if (!mismatch) {
+    return { ...analysis, mismatchDetected: false, mismatchMessage: undefined };
+  }
+
+  // Mention whichever the owner actually gave us, not both
+  const hasStatedCondition = Boolean(catProfile.bodyCondition && catProfile.bodyCondition !== "unknown");
+  return {
+    ...analysis,
+    mismatchDetected: true,
+    mismatchMessage: generateMismatchClarificationPrompt(
+      hasStatedCondition ? null : catProfile.weightKg ?? null,
+      hasStatedCondition ? stated : null,
+      analysis.photoBodyCondition,
+      analysis.photoComment
+    ),
+  };
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+export const localVisionProvider: VisionProvider = {
+  name: "local",
+  analyze: async (request) => {
+    let image;
+    try {
+      image = decodeJpegBase64(request.imageBase64);
+    } catch (error) {
+      console.warn("[CatLife] Could not decode photo:", error);
+      throw new VisionImageError(
+        "We couldn't read that photo.",
+        "Please try a JPEG photo (most phone cameras can share one) under 40 megapixels."
+      );
+    }
+    return analyzePixels(image);
+  },
+};
+
+function isPhotoAnalysis(value: unknown): value is PhotoAnalysis {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    BODY_CONDITIONS.includes(candidate.photoBodyCondition as BodyCondition) &&
+    typeof candidate.photoComment === "string" &&
+    typeof candidate.photoConfidence === "number"
+  );
+}
+
+/**
+ * Remote vision model using VISION_ANALYSIS_SYSTEM_PROMPT.
+ * Falls back to the local heuristics on any network or format error.
+ */
+export function createOpenAIVisionProvider(apiKey: string, model: string): VisionProvider {
+  return {
+    name: "openai",
+    analyze: async (request) => {
+      const imageUrl = request.imageBase64.startsWith("data:")
+        ? request.imageBase64
+        : `data:image/jpeg;base64,${request.imageBase64}`;
+
+      try {
+        const response = await fetch("https://api.openai.com/v1/chat/completions", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: VISION_ANALYSIS_SYSTEM_PROMPT },
+              {
+                role: "user",
+                content: [
+                  {
+                    type: "text",
+                    text: `Owner's info: ${JSON.stringify({
+                      weightKg: request.catProfile.weightKg ?? null,
+                      bodyCondition: request.catProfile.bodyCondition ?? null,
+                      breed: request.catProfile.breed ?? null,
+                    })}`,
+                  },
+                  { type: "image_url", image_url: { url: imageUrl } },
+                ],
+              },
+            ],
+          }),
+        });
+
+        if (!response.ok) {
+          console.warn("[CatLife] Vision model returned non-OK status, using local analysis");
+          return localVisionProvider.analyze(request);
+        }
+
+        const data = await response.json();
+        const parsed: unknown = JSON.parse(data.choices?.[0]?.message?.content ?? "null");
+        if (!isPhotoAnalysis(parsed)) {
+          console.warn("[CatLife] Vision model returned malformed JSON, using local analysis");
+          return localVisionProvider.analyze(request);
+        }
+        return parsed;
+      } catch (error) {
+        console.error("[CatLife] Vision model error:", error);
+        return localVisionProvider.analyze(request);
+      }
+    },
+  };
+}
+
+/**
+ * Pick the vision provider from the environment.
+ * Local heuristics are the default; set CATLIFE_VISION_PROVIDER=openai to use a model.
+ */
+export function getVisionProvider(): VisionProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (process.env.CATLIFE_VISION_PROVIDER === "openai" && apiKey) {
+    return createOpenAIVisionProvider(apiKey, process.env.CATLIFE_VISION_MODEL || "gpt-4o-mini");
+  }
+  return localVisionProvider;
+}
+
+/**
+ * Analyze a cat photo with the configured provider, then run the
+ * mismatch check against the owner's stated profile
+ */
+export async function analyzeCatPhoto(
+  request: VisionRequest,
+  provider: VisionProvider = getVisionProvider()
+): Promise<PhotoAnalysis> {
+  const analysis = await provider.analyze(request);
+  return applyMismatchCheck(analysis, request.catProfile);
+}
@@ -0,0 +1,144 @@
+// CatLife - Weight Calibration
+// Fits the cat's actual weight trend from dated weigh-ins and re-anchors the projection on them
+
+import type { CatProfile, ObservedWeight, WeighIn, WeightCalibration } from "@/types/catlife";
+import { ENERGY_MODEL } from "./energy-balance";
+
+// ============================================
+// MODEL PARAMETERS
+// ============================================
+
+/**
+ * Two-state Kalman filter over weight (kg) and drift (kg/month).
+ * Between weigh-ins weight moves by drift × elapsed months; each weigh-in pulls both
+ * back toward what the scale said, in proportion to how much the scale is trusted.
+ */
+export const CALIBRATION_MODEL = {
+  /** Scale error plus day-to-day swings (food, water, litter) */
+  measurementSdKg: { home: 0.15, vet: 0.05 },
+
+  /** Weight wobble around the trend, per month */
+  weightProcessSdKg: 0.05,
+  /** How fast the trend itself can change, per month */
+  driftProcessSdKg: 0.02,
+
+  /** Before any evidence, assume the cat is holding its weight, give or take this much per month */
+  driftPriorSdKg: 0.1,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+type Vector = [number, number];
+type Matrix = [[number, number], [number, number]];
+
+function parseDate(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function measurementVariance(weighIn: WeighIn): number {
+  const sd = weighIn.atVet ? CALIBRATION_MODEL.measurementSdKg.vet : CALIBRATION_MODEL.measurementSdKg.home;
+  return sd * sd;
+}
+
+/**
+ * Carry the state forward `months`: x' = F x, P' = F P Fᵀ + Q, with F = [[1, months], [0, 1]]
+ */
+function predict(state: Vector, covariance: Matrix, months: number): { state: Vector; covariance: Matrix } {
+  const [[p00, p01], [p10, p11]] = covariance;
+  const q0 = CALIBRATION_MODEL.weightProcessSdKg ** 2 * months;
+  const q1 = CALIBRATION_MODEL.driftProcessSdKg ** 2 * months;
+  return {
+    state: [state[0] + state[1] * months, state[1]],
+    covariance: [
+      [p00 + months * (p01 + p10) + months * months * p11 + q0, p01 + months * p11],
+      [p10 + months * p11, p11 + q1],
+    ],
+  };
+}
+
+/**
+ * Fold in one weight reading; only weight is observed, so H = [1, 0]
+ */
+function update(state: Vector, covariance: Matrix, weightKg: number, variance: number): { state: Vector; covariance: Matrix } {
+  const [[p00, p01], [p10, p11]] = covariance;
+  const innovation = weightKg - state[0];
+  const s = p00 + variance;
+  const k0 = p00 / s;
+  const k1 = p10 / s;
+  return {
+    state: [state[0] + k0 * innovation, state[1] + k1 * innovation],
+    covariance: [
+      [(1 - k0) * p00, (1 - k0) * p01],
+      [p10 - k1 * p00, p11 - k1 * p01],
+    ],
+  };
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Fit weight and drift from the profile's weigh-ins, dated against the cat's current age.
+ * Weigh-ins from the future or before birth are ignored. Returns null without usable weigh-ins.
+ */
+export function calibrateWeight(
+  catProfile: CatProfile,
+  currentAgeMonths: number,
+  asOfDate: string = todayIso()
+): WeightCalibration | null {
+  const asOf = parseDate(asOfDate);
+  const dated = (catProfile.weighIns ?? [])
+    .map(weighIn => ({
+      weighIn,
+      ageMonths: currentAgeMonths - (asOf - parseDate(weighIn.date)) / MS_PER_DAY / ENERGY_MODEL.daysPerMonth,
+    }))
+    .filter(({ ageMonths }) => Number.isFinite(ageMonths) && ageMonths >= 0 && ageMonths <= currentAgeMonths)
+    .sort((a, b) => a.ageMonths - b.ageMonths);
+  if (dated.length === 0) return null;
+
+  const first = dated[0];
+  let state: Vector = [first.weighIn.weightKg, 0];
+  let covariance: Matrix = [[measurementVariance(first.weighIn), 0], [0, CALIBRATION_MODEL.driftPriorSdKg ** 2]];
+  let lastAge = first.ageMonths;
+  const observations: ObservedWeight[] = [];
+
+  for (const { weighIn, ageMonths } of dated) {
+    if (observations.length > 0) {
+      ({ state, covariance } = predict(state, covariance, ageMonths - lastAge));
+      ({ state, covariance } = update(state, covariance, weighIn.weightKg, measurementVariance(weighIn)));
+    }
+    lastAge = ageMonths;
+    observations.push({
+      date: weighIn.date,
+      ageMonths: round(ageMonths, 2),
+      weightKg: weighIn.weightKg,
+      fittedKg: round(state[0], 2),
+    });
+  }
+
+  // The projection starts at today's age; carry the trend over any gap since the latest weigh-in
+  const startWeightKg = state[0] + state[1] * (currentAgeMonths - lastAge);
+
+  return {
+    observations,
+    driftKgPerMonth: round(state[1], 3),
+    driftUncertaintyKgPerMonth: round(Math.sqrt(covariance[1][1]), 3),
+    anchorAgeMonths: round(lastAge, 2),
+    startWeightKg: round(Math.max(0.1, startWeightKg), 2),
+  };
+}
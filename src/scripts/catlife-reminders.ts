@@ -0,0 +1,63 @@
+// CatLife - Reminder CLI
+// Cron entry point for the reminder scheduler.
+//
+//   npm run catlife:reminders                 one tick, exit 1 if any send failed
+//   npm run catlife:reminders -- --dry-run    list what is due without sending
+//   npm run catlife:reminders -- --now=2026-03-08T12:00:00Z
+//   npm run catlife:reminders -- worker       keep running, one tick per minute
+//
+// Safe to run next to the app's in-process worker or an overlapping cron tick:
+// slots are claimed under the reminder store's file lock, so each is sent once.
+
+import { loadEnvConfig } from "@next/env";
+
+// Load .env files the same way `next` does before notifications reads its config
+loadEnvConfig(process.cwd());
+
+function readFlag(args: string[], name: string): string | undefined {
+  const match = args.find(arg => arg.startsWith(`--${name}=`));
+  return match?.slice(name.length + 3);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const { runReminderTick, startReminderWorker } = await import("@/lib/catlife/reminder-scheduler");
+
+  if (args.includes("worker")) {
+    const worker = startReminderWorker();
+    const shutdown = () => {
+      worker.stop();
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    console.log("[CatLife] Reminder worker started");
+    return;
+  }
+
+  const nowFlag = readFlag(args, "now");
+  const fixedNow = nowFlag ? new Date(nowFlag) : null;
+  if (fixedNow && Number.isNaN(fixedNow.getTime())) {
+    console.error(`[CatLife] Invalid --now value: ${nowFlag}`);
+    process.exit(2);
+  }
+
+  const result = await runReminderTick({
+    dryRun: args.includes("--dry-run"),
+    ...(fixedNow ? { clock: { now: () => fixedNow } } : {}),
+  });
+
+  console.log(
+    `[CatLife] Checked ${result.checked} reminders at ${result.checkedAt.toISOString()}: ` +
+    `${result.due.length} due, ${result.sent.length} sent, ${result.failed.length} failed`
+  );
+  result.due.forEach(d => console.log(`  ${d.slot.toISOString()}  ${d.channel.padEnd(6)} ${d.catName} (${d.reminderId})`));
+  result.failed.forEach(f => console.error(`  failed: ${f.channel} ${f.reminderId}: ${f.error}`));
+
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error("[CatLife] Reminder CLI error:", error);
+  process.exit(1);
+});
@@ -9,6 +9,15 @@ export type BodyCondition = "underweight" | "ideal" | "overweight" | "unknown";
 export type IndoorOutdoor = "indoor" | "outdoor" | "mixed";
 export type WeightSource = "user_estimate" | "vet_recent" | "unknown";
 
+/**
+ * A dated weight measurement the owner recorded
+ */
+export interface WeighIn {
+  date: string; // YYYY-MM-DD
+  weightKg: number;
+  atVet?: boolean; // vet scales are more precise than home ones
+}
+
 export interface CatProfile {
   id?: string;
   name: string | null;
@@ -22,6 +31,7 @@ export interface CatProfile {
   weightSource: WeightSource | null;
   bodyCondition: BodyCondition | null;
   knownConditions: string[];
+  weighIns?: WeighIn[]; // when present, the simulation recalibrates from these instead of weightKg
   photoUrl?: string | null;
   avatarUrl?: string | null;
 }
@@ -31,7 +41,7 @@ export interface CatProfile {
 // ============================================
 
 export type FoodType = "dry" | "wet" | "mixed" | "raw" | "other";
-export type FeedingFrequency = 1 | 2 | 3 | 4; // times per day
+export type FeedingFrequency = 1 | 2 | 3 | 4; // meals per day; 4 means free feeding (food left out)
 export type LitterCleaningFrequency = "daily" | "every_2_days" | "weekly" | "unknown";
 
 export interface CareRoutine {
@@ -99,25 +109,95 @@ export interface PhotoAnalysis {
   mismatchMessage?: string;
 }
 
+export type CoatPattern =
+  | "solid"
+  | "tabby"
+  | "tuxedo"
+  | "bicolor"
+  | "calico"
+  | "tortoiseshell"
+  | "colorpoint"
+  | "smoke";
+
+export interface CatColors {
+  primaryFur: string;
+  secondaryFur: string;
+  stripeColor: string | null;
+  noseColor: string;
+  innerEarColor: string;
+  eyeColor: string;
+  pattern: CoatPattern;
+}
+
 // ============================================
 // Simulation Types
 // ============================================
 
 export type HealthStatus = "thriving" | "ok" | "risky" | "unhealthy";
 export type AlertSeverity = "info" | "warning" | "critical";
+export type SimulationStepSize = "weekly" | "monthly" | "quarterly";
 
 export interface SimulationConfig {
   catProfile: CatProfile;
   careRoutine: CareRoutine;
   startAgeMonths: number;
-  endAgeMonths: number; // max 240 (20 years)
+  endAgeMonths?: number; // defaults to a few years past the breed's life expectancy; capped at 360 (30 years), and weekly runs at 520 points
+  stepSize?: SimulationStepSize; // time between points; defaults to monthly
+  seed?: number; // PRNG seed for the monthly noise; omit for a fresh random run
+  routineSchedule?: RoutineChange[]; // changes to careRoutine partway through, applied in order
+  baselineCareRoutine?: CareRoutine; // routine the stated weight was reached on, when careRoutine is a what-if; defaults to careRoutine
+  asOfDate?: string; // YYYY-MM-DD the profile's age refers to, for dating weigh-ins; defaults to today
+  household?: HouseholdSetting; // other cats sharing the home; omit for a cat living alone
+  includeCarePlans?: boolean; // run the care optimizer (dozens of extra runs) for carePlans and plan-based advice
+}
+
+/**
+ * A care routine change partway through a simulation (e.g. senior food at 10).
+ * Fires once, the first month every trigger it sets holds.
+ */
+export interface RoutineChange {
+  label: string;
+  atAgeMonths?: number;
+  whenWeightAboveKg?: number;
+  whenWeightBelowKg?: number;
+  careRoutine: Partial<CareRoutine>; // fields that change from then on
+}
+
+export interface AppliedRoutineChange {
+  label: string;
+  careRoutine: Partial<CareRoutine>;
 }
 
 export interface SimulationPoint {
-  ageMonths: number;
+  ageMonths: number; // fractional with weekly steps
   weightKgEstimate: number;
   healthStatus: HealthStatus;
   notes: string;
+  healthScores?: HealthScores; // what's behind healthStatus, one score per body system; absent on echoed-back points
+  expectedWeightKg?: number; // breed growth-curve weight at this age, while still growing
+  routineChanges?: AppliedRoutineChange[]; // scheduled changes that took effect this month
+  conditions?: ConditionSnapshot[]; // catalogued known conditions and their stage this month
+}
+
+export type HealthDimension = "weight" | "renal" | "cardiac" | "dental" | "mobility" | "urinary" | "enrichment";
+
+/**
+ * 0-100 per body system (higher is healthier), plus a composite that leans toward the weakest
+ */
+export interface HealthScores extends Record<HealthDimension, number> {
+  composite: number;
+}
+
+export type ConditionId = "ckd" | "diabetes" | "hyperthyroidism" | "hcm";
+
+/**
+ * Where one known condition stands in a given month
+ */
+export interface ConditionSnapshot {
+  conditionId: ConditionId;
+  name: string; // "Chronic kidney disease"
+  stage: string; // "IRIS stage 2"
+  managed: boolean; // vet visits meet the condition's monitoring schedule
 }
 
 export interface SimulationAlert {
@@ -128,11 +208,209 @@ export interface SimulationAlert {
   recommendation: string;
 }
 
+/**
+ * Chance the cat is still alive at an age, given alive at the simulation's start
+ */
+export interface SurvivalPoint {
+  ageMonths: number;
+  probability: number; // 0-1
+}
+
+export interface SurvivalProjection {
+  points: SurvivalPoint[]; // yearly from the start age, plus the final month
+  medianLifespanMonths: number; // age by which half of cats in this situation have died
+  breedLifeExpectancyYears: { min: number; max: number };
+}
+
+/**
+ * A weigh-in placed on the simulation's age axis
+ */
+export interface ObservedWeight {
+  date: string;
+  ageMonths: number; // fractional
+  weightKg: number;
+  fittedKg: number; // filtered estimate after this weigh-in
+}
+
+/**
+ * What the weigh-ins say about the cat's weight trend, and where the projection starts from
+ */
+export interface WeightCalibration {
+  observations: ObservedWeight[];
+  driftKgPerMonth: number; // fitted trend on the current routine
+  driftUncertaintyKgPerMonth: number; // one standard deviation
+  anchorAgeMonths: number; // age at the latest weigh-in
+  startWeightKg: number; // latest fitted weight carried forward to the simulation's start
+  previousForecast?: { ageMonths: number; weightKg: number }[]; // same run projected from weightKg alone
+}
+
 export interface SimulationResult {
   points: SimulationPoint[];
   alerts: SimulationAlert[];
   summary: string;
   recommendations: string[];
+  seed?: number; // seed the run used; pass it back as SimulationConfig.seed to reproduce it
+  carePlans?: CarePlan[]; // smallest routine changes that add thriving months, lowest effort first; only with includeCarePlans
+  survival?: SurvivalProjection;
+  weightCalibration?: WeightCalibration; // present when the profile has weigh-ins
+}
+
+export type OptimizableCareField = "treatsPerDay" | "playMinutesPerDay" | "foodAmountOzPerDay" | "foodType" | "vetVisitsPerYear";
+
+export interface CarePlanChange {
+  field: OptimizableCareField;
+  from: number | FoodType | null;
+  to: number | FoodType;
+}
+
+/** A nearby care routine found by the optimizer, scored on the same seed as the run */
+export interface CarePlan {
+  description: string; // e.g. "Feed 3.0 oz/day and play 20 min/day"
+  changes: CarePlanChange[];
+  careRoutine: CareRoutine;
+  effort: number; // rough owner effort; lower is easier
+  thrivingMonths: number; // expected: each month weighted by the odds of living to it
+  thrivingMonthsGained: number; // vs the current routine
+}
+
+export type SensitivityInput =
+  | OptimizableCareField
+  | "feedingFrequency"
+  | "litterCleaningFrequency"
+  | "weightKg"
+  | "indoorOutdoor"
+  | "neutered";
+
+/** What a run is judged on when comparing perturbed runs */
+export interface SensitivityOutcome {
+  averageHealthScore: number; // mean composite health score over the simulated months
+  weightAt10Kg: number | null; // null when the run starts past that age
+  weightAt15Kg: number | null;
+}
+
+/** One end of a tornado bar: the input moved to one value, and how each outcome moved with it */
+export interface SensitivityBound {
+  valueLabel: string; // e.g. "2.5 oz/day", "wet food"
+  delta: SensitivityOutcome; // vs. the baseline run
+}
+
+export interface SensitivityEntry {
+  input: SensitivityInput;
+  label: string; // e.g. "Food amount"
+  currentLabel: string;
+  low: SensitivityBound;
+  high: SensitivityBound;
+}
+
+/** How much each input moves the outcomes when nudged on its own, on the run's seed */
+export interface SensitivityAnalysis {
+  baseline: SensitivityOutcome;
+  entries: SensitivityEntry[]; // biggest swing in average health score first
+}
+
+/** One month of an ensemble: the spread across all runs at that age */
+export interface EnsemblePoint {
+  ageMonths: number;
+  weightP10: number;
+  weightP50: number;
+  weightP90: number;
+  statusProbabilities: Record<HealthStatus, number>; // share of runs in each status, 0-1
+}
+
+export interface EnsembleResult {
+  points: EnsemblePoint[];
+  runs: number;
+  seed: number; // base seed; each run's seed is derived from it
+}
+
+/** A what-if care routine to compare against the baseline */
+export interface ScenarioVariant {
+  label: string;
+  careRoutine: CareRoutine;
+}
+
+export interface ScenarioWeightChange {
+  ageYears: number;
+  baselineKg: number | null; // null when the run doesn't reach that age
+  variantKg: number | null;
+  changeKg: number | null;
+}
+
+export interface ShiftedAlert {
+  alert: SimulationAlert; // as it appears in the variant
+  fromAgeMonths: number; // when it happened in the baseline
+}
+
+/** How a variant differs from the baseline, run on the same seed */
+export interface ScenarioDiff {
+  statusMonths: Record<HealthStatus, number>; // variant months minus baseline months in each status
+  alertsAdded: SimulationAlert[];
+  alertsRemoved: SimulationAlert[];
+  alertsShifted: ShiftedAlert[];
+  weightChanges: ScenarioWeightChange[]; // years 10 and 15
+}
+
+export interface ScenarioResult {
+  label: string;
+  careRoutine: CareRoutine;
+  simulation: SimulationResult;
+  diff: ScenarioDiff | null; // null for the baseline itself
+}
+
+export interface ScenarioComparison {
+  baseline: ScenarioResult;
+  variants: ScenarioResult[];
+  seed: number; // shared by every scenario, so differences come from the routine alone
+}
+
+/** One cat in a multi-cat home */
+export interface HouseholdCat {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine; // its own portion, as the owner puts it down
+  joinsInMonths?: number; // months until it moves in; negative if it arrived recently, omitted if long settled
+}
+
+export interface Household {
+  cats: HouseholdCat[];
+  litterBoxes: number;
+}
+
+/**
+ * One cat's view of its household, for its own simulation. Months count from the start of the run.
+ */
+export interface HouseholdSetting {
+  litterBoxes: number;
+  joinsAtMonth: number; // 0 or less when it already lives there
+  housemateJoinMonths: number[];
+  foodShares: HouseholdFoodShare[]; // in order; none when it doesn't share free-fed bowls
+}
+
+/** Fraction of its own portion a free-fed cat actually eats from the shared bowls, from a month on */
+export interface HouseholdFoodShare {
+  fromMonth: number;
+  share: number;
+}
+
+export interface HouseholdAlert {
+  id: string;
+  monthsFromNow: number;
+  severity: AlertSeverity;
+  message: string;
+  recommendation: string;
+  catNames: string[]; // the cats it concerns
+}
+
+export interface HouseholdCatResult {
+  name: string;
+  joinsInMonths?: number;
+  foodShare: number | null; // share of its own portion it eats once everyone has moved in; null if not bowl-sharing
+  points: SimulationPoint[]; // the cat's timeline, from the month it moves in; per-cat alerts and advice come from a single-cat /simulate run
+}
+
+export interface HouseholdResult {
+  cats: HouseholdCatResult[];
+  alerts: HouseholdAlert[];
+  seed: number; // each cat's seed is derived from it
 }
 
 // ============================================
@@ -252,14 +530,32 @@ export interface ReminderSettings {
   createdAt?: Date;
   updatedAt?: Date;
   lastSentAt?: Date;
+  lastSentByChannel?: Partial<Record<ReminderChannel, Date>>; // last scheduled slot dispatched per channel
+  pendingChange?: PendingReminderChange; // waiting for the contact to confirm
 }
 
-// AI-generated reminder recommendations
+// A setup (new or resubmitted) or a new contact, applied only once confirmed from the link sent to the contact
+export interface PendingReminderChange {
+  channels?: ReminderChannels;
+  schedule?: ReminderSchedule;
+  timezone?: string;
+  contactType?: ContactType; // a contact change is confirmed by the new contact
+  contactValue?: string;
+  requestedAt: Date;
+}
+
+// Why a confirmation link is sent: a new setup, a resubmitted one, or a move to a new contact
+export type ReminderConfirmationKind = "setup" | "change" | "contact";
+
+// Reminder recommendations derived from the profile, routine and simulation
 export interface ReminderRecommendation {
   channel: ReminderChannel;
   enabled: boolean;
   reason: string;
   priority: "high" | "medium" | "low";
+  frequency: string; // e.g., "2x daily"
+  schedule: string; // human-readable, e.g., "8:00 AM & 6:00 PM"
+  aiInsight: string;
 }
 
 // ============================================
@@ -282,9 +578,71 @@ export interface AvatarRequest {
   photoAnalysis?: PhotoAnalysis;
 }
 
+export interface CatColorsRequest {
+  catProfile: Partial<CatProfile>;
+  photoAnalysis?: PhotoAnalysis;
+  coatDescription?: string;
+}
+
 export interface SimulateRequest {
   catProfile: CatProfile;
   careRoutine: CareRoutine;
+  enhanced?: boolean;
+  seed?: number;
+  routineSchedule?: RoutineChange[];
+  followCarePlan?: boolean; // apply the progressive care plan's routine changes as the cat ages
+  stepSize?: SimulationStepSize;
+  endAgeMonths?: number; // defaults to the breed's horizon
+  includeCarePlans?: boolean; // search for care plans; off by default since it costs dozens of extra runs
+}
+
+// The run to analyze, as sent to /simulate; the seed is required so the analysis matches the run shown
+export interface SensitivityRequest {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  seed: number;
+  routineSchedule?: RoutineChange[];
+  followCarePlan?: boolean;
+  stepSize?: SimulationStepSize;
+  endAgeMonths?: number;
+}
+
+export interface CompareScenariosRequest {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  variants: ScenarioVariant[];
+  seed?: number;
+  stepSize?: SimulationStepSize; // should match the single run's, so the diffs line up with its timeline
+  endAgeMonths?: number;
+}
+
+export interface SimulateEnsembleRequest {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  runs?: number;
+  seed?: number;
+  followCarePlan?: boolean;
+  stepSize?: SimulationStepSize; // should match the single run's, so the band lines up with it
+  endAgeMonths?: number;
+}
+
+export interface SimulateHouseholdRequest {
+  household: Household;
+  seed?: number;
+  stepSize?: SimulationStepSize;
+  endAgeMonths?: number; // the age each cat's timeline runs to; defaults to each breed's horizon
+}
+
+export interface MilestoneNotesRequest {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  simulationPoints: SimulationPoint[]; // yearly milestones
+}
+
+export interface ReminderRecommendationsRequest {
+  catProfile: CatProfile;
+  careRoutine: CareRoutine;
+  simulationResult?: SimulationResult;
 }
 
 export interface ReminderRequest {